@@ -0,0 +1,516 @@
+import { WebSocket } from 'ws';
+import { resolveMessageSource } from './console.js';
+import { markNavigationContentLoaded, markNavigationLoaded } from './navigation.js';
+import { findRequest } from './network.js';
+import { dispatchMessage, rejectPendingCommands, sendRawCommand, subscribe } from './protocol.js';
+import { redactHeaders, redactUrl } from './redact.js';
+import { addMessage, addNavigation, addNetworkRequest, notifyRequestFinished } from './session.js';
+import { BrowserSession, ConsoleMessage, NetworkRequest, ProtocolConnection, StackFrame, TabInfo } from './types.js';
+
+// WebDriver BiDi 协议类型（只声明用到的字段）
+interface BidiStackTrace {
+  callFrames: Array<{ functionName: string; url: string; lineNumber: number; columnNumber: number }>;
+}
+
+interface BidiLogEntry {
+  type: string; // console | javascript
+  level: 'debug' | 'info' | 'warn' | 'error';
+  source: { realm: string; context?: string };
+  text: string | null;
+  timestamp: number;
+  stackTrace?: BidiStackTrace;
+  method?: string; // console API 方法名，仅 console 类型
+}
+
+interface BidiHeader {
+  name: string;
+  value: { type: 'string' | 'base64'; value: string };
+}
+
+interface BidiRequestData {
+  request: string;
+  url: string;
+  method: string;
+  headers: BidiHeader[];
+  bodySize: number | null;
+  destination?: string;
+  initiatorType?: string | null;
+}
+
+interface BidiResponseData {
+  url: string;
+  protocol: string;
+  status: number;
+  statusText: string;
+  fromCache: boolean;
+  headers: BidiHeader[];
+  mimeType: string;
+  bytesReceived: number;
+  content: { size: number };
+}
+
+interface BidiNetworkEvent {
+  context: string | null;
+  redirectCount: number;
+  request: BidiRequestData;
+  timestamp: number;
+}
+
+interface BidiResponseEvent extends BidiNetworkEvent {
+  response: BidiResponseData;
+}
+
+interface BidiFetchErrorEvent extends BidiNetworkEvent {
+  errorText: string;
+}
+
+interface BidiBrowsingContextInfo {
+  context: string;
+  url: string;
+  parent?: string | null;
+  children: BidiBrowsingContextInfo[] | null;
+}
+
+// 一个 BiDi 端点（浏览器）对应一个 WebDriver 会话；Firefox 同时只允许一个 WebDriver 会话，
+// 所以附加到同一浏览器的所有标签页共享这条连接，事件按 browsing context 分发到各自的会话
+interface BidiEndpoint extends ProtocolConnection {
+  contexts: Map<string, BrowserSession>; // browsing context（含子 iframe）-> 会话
+}
+
+// 需要订阅的 BiDi 事件
+const BIDI_EVENTS = [
+  'log.entryAdded',
+  'network.beforeRequestSent',
+  'network.responseStarted',
+  'network.responseCompleted',
+  'network.fetchError',
+  'browsingContext.contextCreated',
+  'browsingContext.contextDestroyed',
+  'browsingContext.navigationStarted',
+  'browsingContext.domContentLoaded',
+  'browsingContext.load',
+];
+
+// BiDi 日志级别到控制台级别的映射；console.log 在 BiDi 中为 info 级别
+const BIDI_LOG_LEVELS: Record<BidiLogEntry['level'], ConsoleMessage['level']> = {
+  debug: 'debug',
+  info: 'log',
+  warn: 'warning',
+  error: 'error',
+};
+
+// Fetch 规范中的 destination / initiatorType 到 CDP 资源类型的映射，保持过滤条件通用
+const RESOURCE_TYPES: Record<string, string> = {
+  document: 'Document',
+  iframe: 'Document',
+  script: 'Script',
+  style: 'Stylesheet',
+  image: 'Image',
+  font: 'Font',
+  audio: 'Media',
+  video: 'Media',
+  track: 'Media',
+  manifest: 'Manifest',
+  fetch: 'Fetch',
+  xmlhttprequest: 'XHR',
+  beacon: 'Ping',
+};
+
+const endpoints = new Map<string, Promise<BidiEndpoint>>();
+
+function endpointKey(host: string, port: number): string {
+  return `${host}:${port}`;
+}
+
+// 建立 WebSocket 连接，创建 WebDriver 会话并订阅事件
+async function openEndpoint(host: string, port: number): Promise<BidiEndpoint> {
+  const url = `ws://${host}:${port}/session`;
+  const endpoint: BidiEndpoint = {
+    id: endpointKey(host, port),
+    ws: null,
+    connected: false,
+    protocol: 'bidi',
+    pending: new Map(),
+    listeners: new Map(),
+    contexts: new Map(),
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    const ws = new WebSocket(url);
+    endpoint.ws = ws;
+
+    ws.on('open', () => {
+      endpoint.connected = true;
+      resolve();
+    });
+
+    ws.on('message', (data: Buffer) => {
+      try {
+        dispatchMessage(endpoint, data.toString());
+      } catch (error) {
+        console.error(`[MCP] BiDi 端点 ${endpoint.id} 处理消息失败:`, error);
+      }
+    });
+
+    ws.on('error', (error) => {
+      reject(new Error(`无法连接到 WebDriver BiDi 端点 ${url}: ${error.message}`));
+    });
+
+    ws.on('close', () => closeEndpoint(endpoint));
+  });
+
+  try {
+    await sendRawCommand(endpoint, 'session.new', { capabilities: {} });
+    await sendRawCommand(endpoint, 'session.subscribe', { events: BIDI_EVENTS });
+  } catch (error) {
+    endpoint.ws?.close();
+    throw error;
+  }
+
+  registerEndpointHandlers(endpoint);
+  return endpoint;
+}
+
+// 连接关闭：附加到该端点的会话全部标记为断开，缓存保留
+function closeEndpoint(endpoint: BidiEndpoint) {
+  endpoint.connected = false;
+  endpoint.ws = null;
+  rejectPendingCommands(endpoint, '连接已关闭');
+
+  for (const session of endpoint.contexts.values()) {
+    session.connected = false;
+    session.ws = null;
+  }
+  endpoint.contexts.clear();
+  endpoints.delete(endpoint.id);
+}
+
+// 获取（或建立）到指定浏览器的 BiDi 连接
+function getEndpoint(host: string, port: number): Promise<BidiEndpoint> {
+  const key = endpointKey(host, port);
+  let endpoint = endpoints.get(key);
+  if (!endpoint) {
+    endpoint = openEndpoint(host, port);
+    endpoints.set(key, endpoint);
+    endpoint.catch(() => endpoints.delete(key));
+  }
+  return endpoint;
+}
+
+// 没有附加的标签页时结束 WebDriver 会话并关闭连接，避免一直占用浏览器
+async function releaseEndpoint(endpoint: BidiEndpoint) {
+  if (endpoint.contexts.size > 0) return;
+
+  endpoints.delete(endpoint.id);
+  await sendRawCommand(endpoint, 'session.end').catch(() => undefined);
+  endpoint.ws?.close();
+}
+
+// 释放指定浏览器上空闲的 BiDi 连接
+export async function releaseIdleBidiEndpoint(host: string, port: number) {
+  const endpoint = await endpoints.get(endpointKey(host, port))?.catch(() => undefined);
+  if (endpoint) {
+    await releaseEndpoint(endpoint);
+  }
+}
+
+// 查找会话所在的 BiDi 连接
+async function requireEndpoint(session: BrowserSession): Promise<BidiEndpoint> {
+  const endpoint = session.connected ? await endpoints.get(endpointKey(session.host, session.port)) : undefined;
+  if (!endpoint) {
+    throw new Error(`会话 ${session.id} 未连接`);
+  }
+  return endpoint;
+}
+
+// 获取 browsing context 的页面标题（BiDi 的 getTree 不包含标题）
+async function getContextTitle(endpoint: BidiEndpoint, context: string): Promise<string> {
+  try {
+    const result = await sendRawCommand(endpoint, 'script.evaluate', {
+      expression: 'document.title',
+      target: { context },
+      awaitPromise: false,
+    }) as { type: string; result?: { value?: unknown } };
+    return result.type === 'success' ? String(result.result?.value ?? '') : '';
+  } catch {
+    return '';
+  }
+}
+
+// 获取顶层 browsing context 列表
+export async function getBidiTabs(host: string, port: number): Promise<TabInfo[]> {
+  const endpoint = await getEndpoint(host, port);
+  const { contexts } = await sendRawCommand(endpoint, 'browsingContext.getTree', { maxDepth: 0 }) as { contexts: BidiBrowsingContextInfo[] };
+
+  return Promise.all(contexts.map(async (context) => ({
+    id: context.context,
+    title: await getContextTitle(endpoint, context.context),
+    url: context.url,
+  })));
+}
+
+// 附加到 browsing context：会话共享端点的连接，已有的子 iframe 一并归属到该会话
+export async function attachBidiContext(session: BrowserSession, tab: TabInfo) {
+  const endpoint = await getEndpoint(session.host, session.port);
+  const { contexts } = await sendRawCommand(endpoint, 'browsingContext.getTree', { root: tab.id }) as { contexts: BidiBrowsingContextInfo[] };
+
+  const register = (context: BidiBrowsingContextInfo) => {
+    endpoint.contexts.set(context.context, session);
+    context.children?.forEach(register);
+  };
+  contexts.forEach(register);
+
+  session.ws = endpoint.ws;
+  session.connected = true;
+}
+
+// 断开会话：移除其 browsing context，最后一个会话断开时结束 WebDriver 会话
+export async function detachBidiContext(session: BrowserSession) {
+  session.connected = false;
+  session.ws = null;
+
+  const endpoint = await endpoints.get(endpointKey(session.host, session.port))?.catch(() => undefined);
+  if (!endpoint) return;
+
+  for (const [context, owner] of endpoint.contexts) {
+    if (owner === session) {
+      endpoint.contexts.delete(context);
+    }
+  }
+  await releaseEndpoint(endpoint);
+}
+
+// 查询会话的 browsing context 当前的 URL
+export async function getBidiContextUrl(session: BrowserSession): Promise<string> {
+  const endpoint = await requireEndpoint(session);
+  const { contexts } = await sendRawCommand(endpoint, 'browsingContext.getTree', {
+    root: session.targetId,
+    maxDepth: 0,
+  }) as { contexts: BidiBrowsingContextInfo[] };
+  return contexts[0]?.url ?? session.url;
+}
+
+// 在会话的 browsing context 中执行脚本，返回 BiDi 的 EvaluateResult。
+// BiDi 无法中止执行中的脚本，timeout 只限制等待结果的时间
+export async function evaluateBidi(session: BrowserSession, expression: string, timeout?: number): Promise<unknown> {
+  const endpoint = await requireEndpoint(session);
+  return sendRawCommand(endpoint, 'script.evaluate', {
+    expression,
+    target: { context: session.targetId },
+    awaitPromise: true,
+    resultOwnership: 'none',
+  }, timeout);
+}
+
+// 注册端点的事件处理器，按 browsing context 分发到已连接的会话
+function registerEndpointHandlers(endpoint: BidiEndpoint) {
+  const sessionOf = (context?: string | null) => {
+    const session = context ? endpoint.contexts.get(context) : undefined;
+    return session?.connected ? session : undefined;
+  };
+
+  subscribe(endpoint, 'log.entryAdded', (params) => {
+    const entry = params as BidiLogEntry;
+    const session = sessionOf(entry.source.context);
+    if (session) handleLogEntry(session, entry);
+  });
+  subscribe(endpoint, 'network.beforeRequestSent', (params) => {
+    const event = params as BidiNetworkEvent;
+    const session = sessionOf(event.context);
+    if (session) handleBeforeRequestSent(session, event);
+  });
+  subscribe(endpoint, 'network.responseStarted', (params) => {
+    const event = params as BidiResponseEvent;
+    const session = sessionOf(event.context);
+    if (session) handleResponseStarted(session, event);
+  });
+  subscribe(endpoint, 'network.responseCompleted', (params) => {
+    const event = params as BidiResponseEvent;
+    const session = sessionOf(event.context);
+    if (session) handleResponseCompleted(session, event);
+  });
+  subscribe(endpoint, 'network.fetchError', (params) => {
+    const event = params as BidiFetchErrorEvent;
+    const session = sessionOf(event.context);
+    if (session) handleFetchError(session, event);
+  });
+
+  // 新建的子 iframe 归属到父 context 所在的会话
+  subscribe(endpoint, 'browsingContext.contextCreated', (params) => {
+    const info = params as BidiBrowsingContextInfo;
+    const parent = info.parent ? endpoint.contexts.get(info.parent) : undefined;
+    if (parent) {
+      endpoint.contexts.set(info.context, parent);
+    }
+  });
+  // 关闭的 iframe 及其子 iframe 不再归属会话；顶层 context 关闭即标签页关闭，会话标记为断开，缓存保留。
+  // 最后一个会话的标签页关闭时结束 WebDriver 会话
+  subscribe(endpoint, 'browsingContext.contextDestroyed', (params) => {
+    const info = params as BidiBrowsingContextInfo;
+    const session = endpoint.contexts.get(info.context);
+    const unregister = (context: BidiBrowsingContextInfo) => {
+      endpoint.contexts.delete(context.context);
+      context.children?.forEach(unregister);
+    };
+    unregister(info);
+    if (!session || session.targetId !== info.context) return;
+
+    for (const [context, owner] of endpoint.contexts) {
+      if (owner === session) {
+        endpoint.contexts.delete(context);
+      }
+    }
+    console.error(`[MCP] 会话 ${session.id} 的标签页已关闭`);
+    session.connected = false;
+    session.ws = null;
+    session.autoReconnect = false;
+    void releaseEndpoint(endpoint);
+  });
+  // 顶层 context 的导航开始新的页面加载；navigationStarted 早于主文档请求，无需再归并请求
+  subscribe(endpoint, 'browsingContext.navigationStarted', (params) => {
+    const { context, url } = params as { context: string; url: string };
+    const session = sessionOf(context);
+    if (session && session.targetId === context) {
+      addNavigation(session, url);
+    }
+  });
+  subscribe(endpoint, 'browsingContext.domContentLoaded', (params) => {
+    const { context } = params as { context: string };
+    const session = sessionOf(context);
+    if (session && session.targetId === context) {
+      markNavigationContentLoaded(session);
+    }
+  });
+  subscribe(endpoint, 'browsingContext.load', (params) => {
+    const { context, url } = params as { context: string; url: string };
+    const session = sessionOf(context);
+    if (session && session.targetId === context) {
+      session.url = redactUrl(url);
+      markNavigationLoaded(session);
+    }
+  });
+}
+
+// 将 BiDi 调用栈转换为栈帧列表（行列号同样从 0 开始）
+function toBidiStackFrames(stackTrace?: BidiStackTrace): StackFrame[] | undefined {
+  if (!stackTrace || stackTrace.callFrames.length === 0) return undefined;
+  return stackTrace.callFrames.map((frame) => ({
+    functionName: frame.functionName,
+    url: frame.url,
+    lineNumber: frame.lineNumber,
+    columnNumber: frame.columnNumber,
+  }));
+}
+
+// 处理日志条目：console 调用与 JavaScript 异常，来源与 CDP 保持一致
+function handleLogEntry(session: BrowserSession, entry: BidiLogEntry) {
+  const frames = toBidiStackFrames(entry.stackTrace);
+  const top = frames?.[0];
+  const level = entry.method === 'info' ? 'info' : BIDI_LOG_LEVELS[entry.level] ?? 'log';
+
+  const message = addMessage(session, {
+    sessionId: session.id,
+    level,
+    source: entry.type === 'javascript' ? 'javascript-exception' : 'console-api',
+    text: entry.text ?? '',
+    timestamp: entry.timestamp || Date.now(),
+    url: top?.url || undefined,
+    lineNumber: top?.lineNumber,
+    columnNumber: top?.columnNumber,
+    stackTrace: level === 'error' || entry.method === 'trace' ? frames : undefined,
+  });
+
+  void resolveMessageSource(session, message);
+}
+
+// 将 BiDi 请求头列表转换为对象，同名请求头以换行合并（与 CDP 一致）
+function toHeaders(headers: BidiHeader[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const header of headers) {
+    const value = header.value.type === 'base64'
+      ? Buffer.from(header.value.value, 'base64').toString('utf-8')
+      : header.value.value;
+    result[header.name] = header.name in result ? `${result[header.name]}\n${value}` : value;
+  }
+  return result;
+}
+
+function toResourceType(request: BidiRequestData): string {
+  const key = request.destination || request.initiatorType || '';
+  return RESOURCE_TYPES[key] ?? 'Other';
+}
+
+// 处理请求发出；重定向复用同一个请求 ID，上一跳已由 responseCompleted 结束
+function handleBeforeRequestSent(session: BrowserSession, event: BidiNetworkEvent) {
+  const previous = event.redirectCount > 0 ? findRequest(session, event.request.request) : undefined;
+
+  const request: NetworkRequest = {
+    sessionId: session.id,
+    requestId: event.request.request,
+    method: event.request.method,
+    url: event.request.url,
+    type: toResourceType(event.request),
+    timestamp: event.timestamp,
+    requestHeaders: toHeaders(event.request.headers),
+    hasPostData: (event.request.bodySize ?? 0) > 0,
+    redirectedFrom: previous?.url,
+    timing: {
+      startTime: event.timestamp / 1000,
+    },
+  };
+
+  addNetworkRequest(session, request);
+}
+
+// 记录响应信息
+function applyResponse(request: NetworkRequest, response: BidiResponseData) {
+  request.status = response.status;
+  request.statusText = response.statusText;
+  request.mimeType = response.mimeType;
+  request.protocol = response.protocol;
+  request.responseHeaders = redactHeaders(toHeaders(response.headers));
+  request.fromCache = response.fromCache;
+}
+
+// 处理响应头到达
+function handleResponseStarted(session: BrowserSession, event: BidiResponseEvent) {
+  const request = findRequest(session, event.request.request);
+  if (request) {
+    applyResponse(request, event.response);
+    if (request.timing) {
+      request.timing.responseTime = event.timestamp / 1000;
+    }
+  }
+}
+
+// 处理请求完成
+function handleResponseCompleted(session: BrowserSession, event: BidiResponseEvent) {
+  const request = findRequest(session, event.request.request);
+  if (request) {
+    applyResponse(request, event.response);
+    request.encodedDataLength = event.response.bytesReceived;
+    request.decodedBodyLength = event.response.content.size;
+    finishRequest(request, event.timestamp);
+    notifyRequestFinished(session, request);
+  }
+}
+
+// 处理请求失败
+function handleFetchError(session: BrowserSession, event: BidiFetchErrorEvent) {
+  const request = findRequest(session, event.request.request);
+  if (request) {
+    request.failed = true;
+    request.errorText = event.errorText;
+    finishRequest(request, event.timestamp);
+    notifyRequestFinished(session, request);
+  }
+}
+
+// 标记请求结束并计算总耗时
+function finishRequest(request: NetworkRequest, timestamp: number) {
+  request.finished = true;
+  if (request.timing) {
+    request.timing.endTime = timestamp / 1000;
+    request.timing.duration = timestamp - request.timing.startTime * 1000;
+  }
+}
@@ -0,0 +1,320 @@
+import { WebSocket } from 'ws';
+import { attachBidiContext, detachBidiContext, getBidiTabs, releaseIdleBidiEndpoint } from './bidi.js';
+import { config } from './config.js';
+import { registerConsoleHandlers } from './console.js';
+import { applyEmulation } from './emulation.js';
+import { applyInterceptRules, clearPendingMarks, registerInterceptHandlers } from './intercept.js';
+import { registerNavigationHandlers } from './navigation.js';
+import { dispatchMessage, rejectPendingCommands, sendCommand } from './protocol.js';
+import { registerNetworkHandlers } from './network.js';
+import { registerRealtimeHandlers } from './realtime.js';
+import { clearSourceMaps, registerSourceMapHandlers } from './sourcemap.js';
+import { enableChildTargets, registerTargetHandlers } from './targets.js';
+import { BrowserSession, BrowserType, ProtocolType, TabInfo } from './types.js';
+import {
+  addNavigation,
+  createSession,
+  currentNavigation,
+  findSessionByTarget,
+  removeSession,
+  sessions,
+  setCurrentSession,
+} from './session.js';
+
+// 自动重连的退避时间（毫秒）：从 500ms 开始每次翻倍，最长 30 秒
+const RECONNECT_BASE_DELAY = 500;
+const RECONNECT_MAX_DELAY = 30000;
+
+// CDP：获取标签页列表
+async function getCdpTabs(host: string, port: number): Promise<TabInfo[]> {
+  const response = await fetch(`http://${host}:${port}/json`);
+  if (!response.ok) {
+    throw new Error(`无法连接到 Chrome 调试端口 ${port}`);
+  }
+  const tabs = await response.json();
+  return tabs;
+}
+
+// CDP：连接到标签页
+function connectToCdpTab(session: BrowserSession, tab: TabInfo): Promise<void> {
+  if (!tab.webSocketDebuggerUrl) {
+    throw new Error('无法获取标签页的 WebSocket 调试 URL（可能已被其他 DevTools 客户端占用）');
+  }
+  const wsUrl = tab.webSocketDebuggerUrl;
+
+  return new Promise((resolve, reject) => {
+    session.ws = new WebSocket(wsUrl);
+
+    session.ws.on('open', async () => {
+      session.connected = true;
+
+      try {
+        // 启用必要的 CDP 域
+        await sendCommand(session, 'Runtime.enable');
+        await sendCommand(session, 'Log.enable');
+        await sendCommand(session, 'Network.enable');
+        await sendCommand(session, 'Console.enable');
+        await sendCommand(session, 'Page.enable');
+        await sendCommand(session, 'Inspector.enable');
+
+        // Debugger 域用于获取脚本的 sourceMapURL；跳过所有断点，避免 debugger 语句暂停页面
+        if (config.sourceMaps) {
+          await sendCommand(session, 'Debugger.enable');
+          await sendCommand(session, 'Debugger.setSkipAllPauses', { skip: true });
+        }
+
+        // 自动附加跨域 iframe 和 Worker 等子目标
+        await enableChildTargets(session);
+
+        // 重连后恢复拦截规则和仿真配置
+        if (session.interceptRules.length > 0) {
+          await applyInterceptRules(session);
+        }
+        if (session.emulationProfile) {
+          await applyEmulation(session);
+        }
+
+        resolve();
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+
+    setupWebSocketHandlers(session, reject);
+  });
+}
+
+// 设置 WebSocket 消息处理器：消息统一交给协议层分发
+// 只处理当前连接的关闭，重连后旧连接的事件不影响会话
+function setupWebSocketHandlers(session: BrowserSession, reject: (reason?: Error) => void) {
+  const ws = session.ws;
+  if (!ws) return;
+
+  ws.on('message', (data: Buffer) => {
+    try {
+      dispatchMessage(session, data.toString());
+    } catch (error) {
+      console.error(`[MCP] 会话 ${session.id} 处理消息失败:`, error);
+    }
+  });
+
+  ws.on('error', (error) => {
+    if (session.ws === ws) {
+      session.connected = false;
+    }
+    reject(new Error(`WebSocket 连接错误: ${error}`));
+  });
+
+  ws.on('close', () => {
+    if (session.ws !== ws) return;
+    session.connected = false;
+    session.ws = null;
+    rejectPendingCommands(session, '连接已关闭');
+    clearPendingMarks(session);
+    scheduleReconnect(session);
+  });
+}
+
+// 按会话的协议连接到标签页；首次附加或页面在断开期间发生变化时记录一次页面加载。
+// 断开期间脚本可能已更新，连接前丢弃记录的脚本和缓存的 source map（重新启用 Debugger 域后会再次上报脚本）
+async function connectTab(session: BrowserSession, tab: TabInfo) {
+  clearSourceMaps(session);
+  session.title = tab.title;
+  if (session.protocol === 'bidi') {
+    await attachBidiContext(session, tab);
+    // BiDi 会话共享浏览器连接，连接关闭时各会话分别重连
+    session.ws?.once('close', () => scheduleReconnect(session));
+  } else {
+    await connectToCdpTab(session, tab);
+  }
+
+  if (currentNavigation(session)?.url !== tab.url) {
+    addNavigation(session, tab.url);
+  }
+}
+
+// 连接意外断开（页面崩溃、DevTools 抢占连接等）后按指数退避重连到同一标签页
+function scheduleReconnect(session: BrowserSession) {
+  if (!session.autoReconnect || session.connected || session.reconnectTimer) return;
+  if (session.reconnectAttempts >= config.reconnectAttempts) {
+    console.error(`[MCP] 会话 ${session.id} 重连 ${session.reconnectAttempts} 次均失败，已放弃`);
+    session.autoReconnect = false;
+    return;
+  }
+
+  const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** session.reconnectAttempts, RECONNECT_MAX_DELAY);
+  session.reconnectAttempts++;
+  console.error(`[MCP] 会话 ${session.id} 连接已断开，${delay}ms 后第 ${session.reconnectAttempts} 次重连`);
+
+  session.reconnectTimer = setTimeout(() => {
+    void reconnectSession(session).finally(() => {
+      session.reconnectTimer = undefined;
+      scheduleReconnect(session);
+    });
+  }, delay);
+}
+
+async function reconnectSession(session: BrowserSession) {
+  try {
+    const tabs = await listTabs(session.protocol, session.host, session.port);
+    const tab = tabs.find((t) => t.id === session.targetId);
+    if (!tab) {
+      console.error(`[MCP] 会话 ${session.id} 的标签页已关闭，停止重连`);
+      session.autoReconnect = false;
+      return;
+    }
+
+    await connectTab(session, tab);
+    session.reconnectAttempts = 0;
+    console.error(`[MCP] 会话 ${session.id} 已重新连接`);
+  } catch (error) {
+    console.error(`[MCP] 会话 ${session.id} 重连失败:`, error instanceof Error ? error.message : error);
+    if (session.protocol === 'cdp') {
+      session.ws?.close();
+    }
+    session.connected = false;
+    session.ws = null;
+  } finally {
+    if (session.protocol === 'bidi') {
+      await releaseIdleBidiEndpoint(session.host, session.port);
+    }
+  }
+}
+
+// 注册会话的事件处理器；处理器挂在会话上，重新连接后继续生效。
+// BiDi 会话共享浏览器连接，事件由 bidi.ts 按 browsing context 分发，无需在会话上注册
+function registerEventHandlers(session: BrowserSession) {
+  if (session.protocol === 'cdp') {
+    registerConsoleHandlers(session);
+    registerNetworkHandlers(session);
+    registerSourceMapHandlers(session);
+    registerNavigationHandlers(session);
+    registerInterceptHandlers(session);
+    registerRealtimeHandlers(session);
+    registerTargetHandlers(session);
+  }
+}
+
+// 浏览器的默认协议：Firefox 已移除 CDP 支持，只能使用 WebDriver BiDi
+export function defaultProtocol(browserType: BrowserType): ProtocolType {
+  return browserType === 'firefox' ? 'bidi' : 'cdp';
+}
+
+function checkProtocol(browserType: BrowserType, protocol: ProtocolType) {
+  if (browserType === 'firefox' && protocol === 'cdp') {
+    throw new Error('Firefox 不支持 CDP，请使用 WebDriver BiDi（protocol: "bidi"）');
+  }
+}
+
+function listTabs(protocol: ProtocolType, host: string, port: number): Promise<TabInfo[]> {
+  return protocol === 'bidi' ? getBidiTabs(host, port) : getCdpTabs(host, port);
+}
+
+// 获取标签页列表
+export async function getTabs(browserType: BrowserType, protocol: ProtocolType, host: string, port: number): Promise<TabInfo[]> {
+  checkProtocol(browserType, protocol);
+  try {
+    return await listTabs(protocol, host, port);
+  } finally {
+    if (protocol === 'bidi') {
+      await releaseIdleBidiEndpoint(host, port);
+    }
+  }
+}
+
+// 附加到标签页：为目标标签页创建（或复用已断开的）会话
+export async function connectToBrowser(browserType: BrowserType, protocol: ProtocolType, host: string, port: number, tabIndex?: number, tabId?: string): Promise<{ session: BrowserSession; text: string }> {
+  checkProtocol(browserType, protocol);
+  try {
+    return await attachToTab(browserType, protocol, host, port, tabIndex, tabId);
+  } finally {
+    // 附加失败时不保留空闲的 WebDriver 会话
+    if (protocol === 'bidi') {
+      await releaseIdleBidiEndpoint(host, port);
+    }
+  }
+}
+
+async function attachToTab(browserType: BrowserType, protocol: ProtocolType, host: string, port: number, tabIndex?: number, tabId?: string): Promise<{ session: BrowserSession; text: string }> {
+  const tabs = await listTabs(protocol, host, port);
+  const browserName = browserType === 'firefox' ? 'Firefox' : 'Chrome';
+  if (!tabs || tabs.length === 0) {
+    throw new Error(`${browserName} 中没有打开的标签页`);
+  }
+
+  let tab: TabInfo | undefined;
+  if (tabId) {
+    tab = tabs.find((t) => t.id === tabId);
+    if (!tab) {
+      throw new Error(`找不到 id 为 ${tabId} 的标签页`);
+    }
+  } else {
+    const index = tabIndex ?? 0;
+    if (index >= tabs.length) {
+      throw new Error(`标签页索引 ${index} 超出范围，共有 ${tabs.length} 个标签页`);
+    }
+    tab = tabs[index];
+  }
+
+  // 同一标签页只附加一次；已断开的会话重新连接并保留其缓存
+  let session = findSessionByTarget(browserType, protocol, host, port, tab.id);
+  if (session?.connected && session.ws) {
+    setCurrentSession(session.id);
+    return { session, text: `标签页已附加为会话 ${session.id}` };
+  }
+  const isNew = !session;
+  if (session?.stored) {
+    // 历史会话（上次运行时的同一标签页）：继续使用它，之前的记录从持久化存储读取
+    session.stored = false;
+    session.trimmed = true;
+    registerEventHandlers(session);
+  } else if (session) {
+    clearTimeout(session.reconnectTimer);
+    session.reconnectTimer = undefined;
+  } else {
+    session = createSession(browserType, host, port, tab.id, protocol);
+    registerEventHandlers(session);
+  }
+
+  try {
+    await connectTab(session, tab);
+    session.autoReconnect = true;
+    session.reconnectAttempts = 0;
+    setCurrentSession(session.id);
+    const protocolName = protocol === 'bidi' ? 'WebDriver BiDi' : 'CDP';
+    return { session, text: `已通过 ${protocolName} 连接到 ${browserName} (${tab.title} - ${tab.url})，会话 ID: ${session.id}` };
+  } catch (error) {
+    disconnectSession(session);
+    if (isNew) {
+      removeSession(session.id);
+    }
+    throw error;
+  }
+}
+
+// 断开会话连接，缓存保留以便继续查询
+export function disconnectSession(session: BrowserSession) {
+  session.autoReconnect = false;
+  session.reconnectAttempts = 0;
+  clearTimeout(session.reconnectTimer);
+  session.reconnectTimer = undefined;
+
+  if (session.protocol === 'bidi') {
+    void detachBidiContext(session);
+    return;
+  }
+  if (session.ws) {
+    session.ws.close();
+    session.ws = null;
+  }
+  session.connected = false;
+  rejectPendingCommands(session, '连接已断开');
+  clearPendingMarks(session);
+}
+
+// 断开所有会话
+export function disconnectAll() {
+  for (const session of sessions.values()) {
+    disconnectSession(session);
+  }
+}
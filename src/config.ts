@@ -0,0 +1,135 @@
+import { readFileSync } from 'fs';
+import { delimiter } from 'path';
+
+// evaluate_javascript 的执行策略
+export type EvaluatePolicy = 'allow' | 'readonly' | 'deny';
+const EVALUATE_POLICIES: EvaluatePolicy[] = ['allow', 'readonly', 'deny'];
+
+// 运行时配置：默认值 <- 配置文件（BROWSER_LOGGER_CONFIG 指定的 JSON 文件）<- 环境变量
+export interface Config {
+  // 捕获 console 参数时通过 Runtime.getProperties 展开对象的深度，0 表示只使用预览
+  consoleExpandDepth: number;
+  // 是否启用 source map 还原堆栈位置（需要启用 Debugger 域）
+  sourceMaps: boolean;
+  // 本地构建目录，优先在这些目录中查找 .map 文件
+  sourceMapDirs: string[];
+  // 是否自动附加子目标（跨域 iframe、Worker、Service Worker），捕获其中的日志和网络请求
+  childTargets: boolean;
+  // WebSocket 帧和 SSE 消息保存的最大长度（字符），超出部分截断
+  realtimePayloadLimit: number;
+  // 是否在写入缓存和持久化存储前对请求头、Cookie、请求体、响应体和日志中的敏感信息脱敏
+  redact: boolean;
+  // 额外需要脱敏的请求/响应头名称（不区分大小写）
+  redactHeaders: string[];
+  // JSON 内容中需要脱敏的字段路径，如 user.password、items[*].token
+  redactJsonPaths: string[];
+  // 需要脱敏的正则表达式，匹配到的内容替换为脱敏标记；只能在配置文件中设置
+  redactPatterns: string[];
+  // evaluate_javascript 的执行策略：allow 允许，readonly 只允许无副作用的代码（仅 CDP），deny 禁止
+  evaluate: EvaluatePolicy;
+  // 允许执行 evaluate_javascript 的页面来源（如 http://localhost:3000、*.example.com），留空表示不限制
+  evaluateOrigins: string[];
+  // evaluate_javascript 的执行超时（毫秒），0 表示不限制
+  evaluateTimeout: number;
+  // connect_browser 和 get_browser_tabs 允许连接的主机，留空表示不限制
+  allowedHosts: string[];
+  // 审计日志文件（JSONL），记录每次 evaluate_javascript 的代码、标签页 URL 和结果；留空时写入 storeDir 下的 audit.jsonl
+  auditLog?: string;
+  // 连接意外断开后自动重连的最大次数，0 表示不重连
+  reconnectAttempts: number;
+  // 持久化存储目录，设置后日志和网络请求追加写入该目录下的 JSONL 文件，服务器重启后仍可查询
+  storeDir?: string;
+  // 持久化存储的保留策略：最长保留天数、最多保留的会话数、总大小上限（字节）
+  storeMaxAgeDays: number;
+  storeMaxSessions: number;
+  storeMaxBytes: number;
+  // launch_browser 使用的 Chrome/Chromium 可执行文件路径，留空时查找本机安装的 Chrome
+  chromePath?: string;
+}
+
+const DEFAULT_CONFIG: Config = {
+  consoleExpandDepth: 0,
+  sourceMaps: true,
+  sourceMapDirs: [],
+  childTargets: true,
+  realtimePayloadLimit: 4096,
+  redact: true,
+  redactHeaders: [],
+  redactJsonPaths: [],
+  redactPatterns: [],
+  evaluate: 'allow',
+  evaluateOrigins: [],
+  evaluateTimeout: 5000,
+  allowedHosts: [],
+  reconnectAttempts: 10,
+  storeMaxAgeDays: 7,
+  storeMaxSessions: 100,
+  storeMaxBytes: 200 * 1024 * 1024,
+};
+
+// 读取配置文件，文件不存在或格式错误时输出警告并忽略
+function loadConfigFile(): Partial<Config> {
+  const path = process.env.BROWSER_LOGGER_CONFIG;
+  if (!path) return {};
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    console.error(`[MCP] 读取配置文件 ${path} 失败:`, error instanceof Error ? error.message : error);
+    return {};
+  }
+}
+
+function readNumberEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function readBooleanEnv(name: string): boolean | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+  return !['0', 'false', 'off', 'no'].includes(value.toLowerCase());
+}
+
+// 列表型环境变量默认使用系统路径分隔符（Windows 为 ;，其他为 :），URL 等含冒号的列表使用逗号
+function readListEnv(name: string, separator: string = delimiter): string[] | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+  return value.split(separator).filter(Boolean);
+}
+
+function loadConfig(): Config {
+  const config: Config = { ...DEFAULT_CONFIG, ...loadConfigFile() };
+
+  config.consoleExpandDepth = readNumberEnv('BROWSER_LOGGER_EXPAND_DEPTH') ?? config.consoleExpandDepth;
+  config.sourceMaps = readBooleanEnv('BROWSER_LOGGER_SOURCE_MAPS') ?? config.sourceMaps;
+  config.sourceMapDirs = readListEnv('BROWSER_LOGGER_SOURCE_MAP_DIRS') ?? config.sourceMapDirs;
+  config.childTargets = readBooleanEnv('BROWSER_LOGGER_CHILD_TARGETS') ?? config.childTargets;
+  config.realtimePayloadLimit = readNumberEnv('BROWSER_LOGGER_REALTIME_PAYLOAD_LIMIT') ?? config.realtimePayloadLimit;
+  config.redact = readBooleanEnv('BROWSER_LOGGER_REDACT') ?? config.redact;
+  config.redactHeaders = readListEnv('BROWSER_LOGGER_REDACT_HEADERS') ?? config.redactHeaders;
+  config.redactJsonPaths = readListEnv('BROWSER_LOGGER_REDACT_JSON_PATHS') ?? config.redactJsonPaths;
+  config.evaluate = (process.env.BROWSER_LOGGER_EVALUATE as EvaluatePolicy) || config.evaluate;
+  config.evaluateOrigins = readListEnv('BROWSER_LOGGER_EVALUATE_ORIGINS', ',') ?? config.evaluateOrigins;
+  config.evaluateTimeout = readNumberEnv('BROWSER_LOGGER_EVALUATE_TIMEOUT') ?? config.evaluateTimeout;
+  config.allowedHosts = readListEnv('BROWSER_LOGGER_ALLOWED_HOSTS', ',') ?? config.allowedHosts;
+  config.auditLog = process.env.BROWSER_LOGGER_AUDIT_LOG || config.auditLog;
+  config.reconnectAttempts = readNumberEnv('BROWSER_LOGGER_RECONNECT_ATTEMPTS') ?? config.reconnectAttempts;
+  config.storeDir = process.env.BROWSER_LOGGER_STORE_DIR || config.storeDir;
+  config.storeMaxAgeDays = readNumberEnv('BROWSER_LOGGER_STORE_MAX_AGE_DAYS') ?? config.storeMaxAgeDays;
+  config.storeMaxSessions = readNumberEnv('BROWSER_LOGGER_STORE_MAX_SESSIONS') ?? config.storeMaxSessions;
+  config.storeMaxBytes = readNumberEnv('BROWSER_LOGGER_STORE_MAX_BYTES') ?? config.storeMaxBytes;
+  config.chromePath = process.env.BROWSER_LOGGER_CHROME_PATH || config.chromePath;
+
+  // 无法识别的执行策略按禁止处理，避免拼写错误意外放开限制
+  if (!EVALUATE_POLICIES.includes(config.evaluate)) {
+    console.error(`[MCP] 无效的 evaluate 策略 ${config.evaluate}，已按 deny 处理（可选值: ${EVALUATE_POLICIES.join(', ')}）`);
+    config.evaluate = 'deny';
+  }
+
+  return config;
+}
+
+export const config = loadConfig();
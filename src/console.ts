@@ -0,0 +1,192 @@
+import type { Protocol } from 'devtools-protocol';
+import { config } from './config.js';
+import { subscribe } from './protocol.js';
+import { redactContent } from './redact.js';
+import { describeRemoteObject, expandRemoteObject, formatConsoleArgs } from './remote-object.js';
+import { addMessage, currentNavigation, sessions, targetConnection } from './session.js';
+import { resolvePosition, resolveStackFrames, toStackFrames } from './sourcemap.js';
+import { BrowserSession, ChildTarget, ConsoleMessage, ProtocolConnection, StackFrame } from './types.js';
+
+// 注册控制台相关的 CDP 事件处理器；指定 child 时订阅子目标的事件，消息写入页面会话的缓存
+export function registerConsoleHandlers(session: BrowserSession, child?: ChildTarget) {
+  const connection = child ?? session;
+  subscribe(connection, 'Runtime.consoleAPICalled', (params) => {
+    handleConsoleAPICalled(session, params, child).catch((error) => {
+      console.error(`[MCP] 会话 ${session.id} 处理控制台消息失败:`, error);
+    });
+  });
+  subscribe(connection, 'Log.entryAdded', (params) => handleLogEntryAdded(session, params, child));
+  subscribe(connection, 'Runtime.exceptionThrown', (params) => handleExceptionThrown(session, params, child));
+}
+
+// 子目标的 scriptId 与页面的不在同一命名空间，去掉后只按 URL 查找 source map
+function toTargetFrames(frames: StackFrame[] | undefined, child?: ChildTarget): StackFrame[] | undefined {
+  if (child) {
+    frames?.forEach((frame) => { frame.scriptId = undefined; });
+  }
+  return frames;
+}
+
+// 将 console API 类型映射为日志级别
+function toConsoleLevel(type: string): ConsoleMessage['level'] {
+  switch (type) {
+    case 'error':
+    case 'assert':
+      return 'error';
+    case 'warning':
+      return 'warning';
+    case 'info':
+      return 'info';
+    case 'debug':
+    case 'verbose':
+      return 'debug';
+    default:
+      return 'log';
+  }
+}
+
+// 需要保留完整调用栈的 console API 类型
+const STACK_TRACE_TYPES = new Set(['error', 'trace', 'assert']);
+
+// 通过 source map 还原消息位置和调用栈；失败时保留生成代码中的位置
+export async function resolveMessageSource(session: BrowserSession, message: ConsoleMessage, scriptId?: string) {
+  if (!config.sourceMaps) return;
+  try {
+    message.original = await resolvePosition(session, { scriptId, url: message.url, lineNumber: message.lineNumber, columnNumber: message.columnNumber });
+    if (message.stackTrace) {
+      await resolveStackFrames(session, message.stackTrace);
+    }
+  } catch (error) {
+    console.error(`[MCP] 会话 ${session.id} 还原 source map 失败:`, error);
+  }
+}
+
+// 渲染 console 参数；depth > 0 时展开对象
+export function renderConsoleArgs(session: ProtocolConnection, args: Protocol.Runtime.RemoteObject[], depth: number): Promise<string> {
+  return formatConsoleArgs(args, (arg) => {
+    if (arg.type === 'object' && depth > 0) {
+      return expandRemoteObject(session, arg, depth);
+    }
+    return describeRemoteObject(arg);
+  });
+}
+
+// 处理控制台 API 调用
+async function handleConsoleAPICalled(session: BrowserSession, params: Protocol.Runtime.ConsoleAPICalledEvent, child?: ChildTarget) {
+  const frames = toTargetFrames(toStackFrames(params.stackTrace), child);
+  const top = frames?.[0];
+  // 渲染参数是异步的，先记下事件到达时所属的页面加载
+  const navigationId = currentNavigation(session)?.id;
+
+  const message = addMessage(session, {
+    sessionId: session.id,
+    level: toConsoleLevel(params.type),
+    source: 'console-api',
+    text: await renderConsoleArgs(session, params.args, 0),
+    timestamp: params.timestamp || Date.now(),
+    navigationId,
+    target: child?.target,
+    url: top?.url || undefined,
+    lineNumber: top?.lineNumber,
+    columnNumber: top?.columnNumber,
+    stackTrace: STACK_TRACE_TYPES.has(params.type) ? frames : undefined,
+    args: params.args,
+  });
+
+  await resolveMessageSource(session, message, top?.scriptId);
+
+  // 按配置展开对象：先以预览入库保证顺序，展开完成后更新文本
+  const depth = config.consoleExpandDepth;
+  if (depth > 0 && params.args.some((arg) => arg.objectId)) {
+    try {
+      message.text = redactContent(await renderConsoleArgs(child ?? session, params.args, depth));
+    } catch {
+      // 对象可能已被释放，保留预览文本
+    }
+  }
+}
+
+// 处理日志条目
+function handleLogEntryAdded(session: BrowserSession, params: Protocol.Log.EntryAddedEvent, child?: ChildTarget) {
+  const entry = params.entry;
+
+  const message = addMessage(session, {
+    sessionId: session.id,
+    level: toConsoleLevel(entry.level),
+    source: 'browser-log',
+    text: entry.text,
+    timestamp: entry.timestamp || Date.now(),
+    target: child?.target,
+    url: entry.url,
+    lineNumber: entry.lineNumber,
+    stackTrace: entry.level === 'error' ? toTargetFrames(toStackFrames(entry.stackTrace), child) : undefined,
+  });
+
+  void resolveMessageSource(session, message);
+}
+
+// 去掉错误描述中的 "    at ..." 堆栈行，结构化堆栈会单独显示
+function stripStack(text: string): string {
+  const index = text.search(/\n\s+at /);
+  return index === -1 ? text : text.slice(0, index);
+}
+
+// 处理 JavaScript 异常
+function handleExceptionThrown(session: BrowserSession, params: Protocol.Runtime.ExceptionThrownEvent, child?: ChildTarget) {
+  const details = params.exceptionDetails;
+  const text = details.exception ? describeRemoteObject(details.exception) : details.text || '未捕获的异常';
+  const stackTrace = toTargetFrames(toStackFrames(details.stackTrace), child);
+
+  const message = addMessage(session, {
+    sessionId: session.id,
+    level: 'error',
+    source: 'javascript-exception',
+    text: stackTrace ? stripStack(text) : text,
+    timestamp: params.timestamp || Date.now(),
+    target: child?.target,
+    url: details.url,
+    lineNumber: details.lineNumber,
+    columnNumber: details.columnNumber,
+    stackTrace,
+  });
+
+  void resolveMessageSource(session, message, child ? undefined : details.scriptId);
+}
+
+// 按消息 ID 展开已记录的对象参数；对象组在页面刷新或导航后会被释放
+export async function expandConsoleMessage(messageId: number, depth: number, argIndex?: number): Promise<string> {
+  let message: ConsoleMessage | undefined;
+  for (const session of sessions.values()) {
+    message = session.messages.find((m) => m.id === messageId);
+    if (message) break;
+  }
+  if (!message) {
+    throw new Error(`找不到日志 #${messageId}`);
+  }
+  if (!message.args || message.args.length === 0) {
+    throw new Error(`日志 #${messageId} 没有可展开的参数`);
+  }
+
+  const session = sessions.get(message.sessionId);
+  if (!session?.connected) {
+    throw new Error(`日志 #${messageId} 所属的会话 ${message.sessionId} 未连接`);
+  }
+  const connection = targetConnection(session, message.target);
+
+  const indexes = argIndex !== undefined ? [argIndex] : message.args.map((_, index) => index);
+  const parts: string[] = [];
+  for (const index of indexes) {
+    const arg = message.args[index];
+    if (!arg) {
+      throw new Error(`参数索引 ${index} 超出范围，共有 ${message.args.length} 个参数`);
+    }
+    try {
+      parts.push(`[${index}] ${redactContent(await expandRemoteObject(connection, arg, depth))}`);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      parts.push(`[${index}] 无法展开（对象可能已被释放，页面刷新后需重新记录）: ${reason}`);
+    }
+  }
+
+  return parts.join('\n');
+}
@@ -0,0 +1,331 @@
+import { writeFile } from 'fs/promises';
+import { eachMapping, TraceMap } from '@jridgewell/trace-mapping';
+import type { Protocol } from 'devtools-protocol';
+import { WebSocket } from 'ws';
+import { formatSize } from './format.js';
+import { sendCommand, subscribe } from './protocol.js';
+import { findSourceMap } from './sourcemap.js';
+import { BrowserSession } from './types.js';
+
+export const DEFAULT_COVERAGE_LIMIT = 20;
+
+// 已执行的区间 [start, end)，按字符偏移
+type Range = [number, number];
+
+interface CoverageState {
+  ws: WebSocket | null;
+  startedAt: number;
+  styleSheets: Map<string, Protocol.CSS.CSSStyleSheetHeader>;
+  unsubscribe: () => void;
+}
+
+// 一个脚本或样式表的覆盖率
+interface CoverageEntry {
+  type: 'js' | 'css';
+  id: string; // scriptId 或 styleSheetId
+  url: string;
+  sourceMapURL?: string;
+  total: number;
+  used: number;
+  ranges: Range[];
+}
+
+// 映射到源码文件的覆盖率
+interface OriginalCoverage {
+  source: string;
+  generated: string[];
+  total: number;
+  used: number;
+}
+
+// 正在收集覆盖率的会话；连接重建后浏览器端的收集状态随之丢失
+const coverage = new Map<BrowserSession, CoverageState>();
+
+function requireCdp(session: BrowserSession) {
+  if (session.protocol !== 'cdp') {
+    throw new Error(`会话 ${session.id} 未通过 CDP 连接，不支持覆盖率收集`);
+  }
+}
+
+// 开始收集 JS（V8 块覆盖率）和 CSS（规则使用情况）覆盖率
+export async function startCoverage(session: BrowserSession): Promise<string> {
+  requireCdp(session);
+  const existing = coverage.get(session);
+  if (existing && existing.ws === session.ws) {
+    throw new Error(`会话 ${session.id} 正在收集覆盖率，请先调用 stop_coverage`);
+  }
+  existing?.unsubscribe();
+  coverage.delete(session);
+
+  // CSS.enable 会为已有的样式表补发 styleSheetAdded，需先订阅
+  const styleSheets = new Map<string, Protocol.CSS.CSSStyleSheetHeader>();
+  const unsubscribe = subscribe(session, 'CSS.styleSheetAdded', ({ header }) => {
+    styleSheets.set(header.styleSheetId, header);
+  });
+
+  try {
+    await sendCommand(session, 'Profiler.enable');
+    await sendCommand(session, 'Profiler.startPreciseCoverage', { callCount: false, detailed: true });
+    await sendCommand(session, 'DOM.enable');
+    await sendCommand(session, 'CSS.enable');
+    await sendCommand(session, 'CSS.startRuleUsageTracking');
+  } catch (error) {
+    unsubscribe();
+    throw error;
+  }
+
+  coverage.set(session, { ws: session.ws, startedAt: Date.now(), styleSheets, unsubscribe });
+  return `会话 ${session.id} 开始收集 JS 和 CSS 覆盖率，完成操作后调用 stop_coverage 获取报告`;
+}
+
+// V8 块覆盖率的区间相互嵌套，内层区间的计数覆盖外层；展开为互不重叠的已执行区间
+function toUsedRanges(nested: Protocol.Profiler.CoverageRange[]): Range[] {
+  const points: Array<{ offset: number; end: boolean; range: Protocol.Profiler.CoverageRange }> = [];
+  for (const range of nested) {
+    points.push({ offset: range.startOffset, end: false, range });
+    points.push({ offset: range.endOffset, end: true, range });
+  }
+  points.sort((a, b) => {
+    if (a.offset !== b.offset) return a.offset - b.offset;
+    if (a.end !== b.end) return a.end ? -1 : 1;
+    // 同一位置开始时外层（较长的）区间先入栈，同一位置结束时内层区间先出栈
+    const aLength = a.range.endOffset - a.range.startOffset;
+    const bLength = b.range.endOffset - b.range.startOffset;
+    return a.end ? aLength - bLength : bLength - aLength;
+  });
+
+  const result: Range[] = [];
+  const stack: Protocol.Profiler.CoverageRange[] = [];
+  let last = 0;
+  for (const point of points) {
+    const top = stack[stack.length - 1];
+    if (top && top.count > 0 && last < point.offset) {
+      const previous = result[result.length - 1];
+      if (previous && previous[1] === last) {
+        previous[1] = point.offset;
+      } else {
+        result.push([last, point.offset]);
+      }
+    }
+    last = point.offset;
+    if (point.end) {
+      stack.pop();
+    } else {
+      stack.push(point.range);
+    }
+  }
+  return result;
+}
+
+// 合并可能重叠的区间
+function mergeRanges(ranges: Range[]): Range[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const result: Range[] = [];
+  for (const [start, end] of sorted) {
+    const previous = result[result.length - 1];
+    if (previous && start <= previous[1]) {
+      previous[1] = Math.max(previous[1], end);
+    } else {
+      result.push([start, end]);
+    }
+  }
+  return result;
+}
+
+function sumRanges(ranges: Range[]): number {
+  return ranges.reduce((sum, [start, end]) => sum + end - start, 0);
+}
+
+// 统计 [start, end) 中已执行的字符数；ranges 有序且互不重叠
+function countUsed(ranges: Range[], start: number, end: number): number {
+  let low = 0;
+  let high = ranges.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (ranges[mid][1] <= start) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  let used = 0;
+  for (let i = low; i < ranges.length && ranges[i][0] < end; i++) {
+    used += Math.min(ranges[i][1], end) - Math.max(ranges[i][0], start);
+  }
+  return used;
+}
+
+// 按 source map 将生成代码的覆盖率分摊到源码文件：每个映射段覆盖到下一个映射段为止
+function mapToOriginal(text: string, map: TraceMap, ranges: Range[], result: Map<string, OriginalCoverage>, generated: string) {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) lineStarts.push(i + 1);
+  }
+
+  const segments: Array<{ offset: number; source: string | null }> = [];
+  eachMapping(map, (mapping) => {
+    const lineStart = lineStarts[mapping.generatedLine - 1];
+    if (lineStart !== undefined) {
+      segments.push({ offset: lineStart + mapping.generatedColumn, source: mapping.source });
+    }
+  });
+  segments.sort((a, b) => a.offset - b.offset);
+
+  for (let i = 0; i < segments.length; i++) {
+    const { offset, source } = segments[i];
+    const end = Math.min(segments[i + 1]?.offset ?? text.length, text.length);
+    if (!source || end <= offset) continue;
+
+    let entry = result.get(source);
+    if (!entry) {
+      entry = { source, generated: [], total: 0, used: 0 };
+      result.set(source, entry);
+    }
+    if (!entry.generated.includes(generated)) {
+      entry.generated.push(generated);
+    }
+    entry.total += end - offset;
+    entry.used += countUsed(ranges, offset, end);
+  }
+}
+
+// 读取有 source map 的脚本和样式表的内容并映射到源码；单个文件失败时跳过
+async function mapEntries(session: BrowserSession, entries: CoverageEntry[]): Promise<OriginalCoverage[]> {
+  const result = new Map<string, OriginalCoverage>();
+  for (const entry of entries) {
+    try {
+      const map = await findSourceMap(session, { url: entry.url, sourceMapURL: entry.sourceMapURL });
+      if (!map) continue;
+      const text = entry.type === 'js'
+        ? (await sendCommand(session, 'Debugger.getScriptSource', { scriptId: entry.id })).scriptSource
+        : (await sendCommand(session, 'CSS.getStyleSheetText', { styleSheetId: entry.id })).text;
+      mapToOriginal(text, map, entry.ranges, result, entry.url);
+    } catch {
+      // 脚本已被回收或 source map 无法解析
+    }
+  }
+  return [...result.values()].sort((a, b) => (b.total - b.used) - (a.total - a.used));
+}
+
+function formatEntry(label: string, url: string, total: number, used: number): string {
+  const unused = total - used;
+  const percent = total > 0 ? ((unused / total) * 100).toFixed(1) : '0.0';
+  return `    [${label}] 未使用 ${formatSize(unused)} / ${formatSize(total)} (${percent}%) ${url}`;
+}
+
+function formatTotal(label: string, entries: CoverageEntry[]): string {
+  const total = entries.reduce((sum, entry) => sum + entry.total, 0);
+  const used = entries.reduce((sum, entry) => sum + entry.used, 0);
+  const percent = total > 0 ? (((total - used) / total) * 100).toFixed(1) : '0.0';
+  return `${label}: ${entries.length} 个文件，共 ${formatSize(total)}，已使用 ${formatSize(used)}，未使用 ${formatSize(total - used)}（${percent}%）`;
+}
+
+// 停止收集并返回按未使用大小排序的报告；指定 path 时导出原始覆盖率数据（有 source map 时附带源码文件的统计）
+export async function stopCoverage(session: BrowserSession, limit: number, path?: string): Promise<string> {
+  requireCdp(session);
+  const state = coverage.get(session);
+  if (!state) {
+    throw new Error(`会话 ${session.id} 没有在收集覆盖率，请先调用 start_coverage`);
+  }
+  coverage.delete(session);
+  state.unsubscribe();
+  if (state.ws !== session.ws) {
+    throw new Error('收集期间连接已重新建立，覆盖率数据已丢失，请重新调用 start_coverage');
+  }
+
+  let scripts: Protocol.Profiler.ScriptCoverage[];
+  let ruleUsage: Protocol.CSS.RuleUsage[];
+  const entries: CoverageEntry[] = [];
+  let originals: OriginalCoverage[] = [];
+  try {
+    ({ result: scripts } = await sendCommand(session, 'Profiler.takePreciseCoverage'));
+    ({ ruleUsage } = await sendCommand(session, 'CSS.stopRuleUsageTracking'));
+
+    // 第一个函数是脚本的顶层代码，其区间覆盖整个脚本
+    for (const script of scripts) {
+      if (!script.url) continue;
+      const ranges = toUsedRanges(script.functions.flatMap((fn) => fn.ranges));
+      entries.push({
+        type: 'js',
+        id: script.scriptId,
+        url: script.url,
+        sourceMapURL: session.scripts.get(script.scriptId)?.sourceMapURL,
+        total: script.functions[0]?.ranges[0]?.endOffset ?? 0,
+        used: sumRanges(ranges),
+        ranges,
+      });
+    }
+
+    for (const header of state.styleSheets.values()) {
+      if (header.length === 0) continue;
+      const ranges = mergeRanges(ruleUsage
+        .filter((rule) => rule.used && rule.styleSheetId === header.styleSheetId)
+        .map((rule): Range => [rule.startOffset, rule.endOffset]));
+      entries.push({
+        type: 'css',
+        id: header.styleSheetId,
+        url: header.isInline ? `${header.sourceURL} (内联样式)` : header.sourceURL || '(构造的样式表)',
+        sourceMapURL: header.sourceMapURL || undefined,
+        total: header.length,
+        used: sumRanges(ranges),
+        ranges,
+      });
+    }
+
+    // 样式表内容只能在 CSS 域关闭前读取
+    if (path) {
+      originals = await mapEntries(session, entries);
+    }
+  } finally {
+    await sendCommand(session, 'Profiler.stopPreciseCoverage').catch(() => {});
+    await sendCommand(session, 'Profiler.disable').catch(() => {});
+    await sendCommand(session, 'CSS.disable').catch(() => {});
+    await sendCommand(session, 'DOM.disable').catch(() => {});
+  }
+
+  entries.sort((a, b) => (b.total - b.used) - (a.total - a.used));
+  const seconds = ((Date.now() - state.startedAt) / 1000).toFixed(1);
+  const lines = [
+    `覆盖率（收集 ${seconds} 秒）:`,
+    formatTotal('JS', entries.filter((entry) => entry.type === 'js')),
+    formatTotal('CSS', entries.filter((entry) => entry.type === 'css')),
+  ];
+
+  if (entries.length > 0) {
+    const shown = entries.slice(0, limit);
+    lines.push('', `按未使用大小排序（前 ${shown.length} 个，共 ${entries.length} 个）:`);
+    for (const entry of shown) {
+      lines.push(formatEntry(entry.type === 'js' ? 'JS ' : 'CSS', entry.url, entry.total, entry.used));
+    }
+  }
+
+  if (path) {
+    const data = {
+      startedAt: new Date(state.startedAt).toISOString(),
+      stoppedAt: new Date().toISOString(),
+      scripts: scripts.filter((script) => script.url),
+      styleSheets: entries
+        .filter((entry) => entry.type === 'css')
+        .map((entry) => ({
+          styleSheetId: entry.id,
+          url: entry.url,
+          total: entry.total,
+          used: entry.used,
+          ruleUsage: ruleUsage.filter((rule) => rule.styleSheetId === entry.id),
+        })),
+      originalFiles: originals,
+    };
+    await writeFile(path, JSON.stringify(data, null, 2));
+
+    lines.push('', `原始覆盖率数据已导出到 ${path}`);
+    if (originals.length > 0) {
+      lines.push(`已按 source map 映射到 ${originals.length} 个源码文件，未使用最多的:`);
+      for (const original of originals.slice(0, limit)) {
+        lines.push(formatEntry('SRC', original.source, original.total, original.used));
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,308 @@
+import { sendCommand } from './protocol.js';
+import { BrowserSession, EmulationState } from './types.js';
+
+type NetworkConditions = NonNullable<EmulationState['network']>;
+type Viewport = NonNullable<EmulationState['viewport']>;
+
+// 网络预设，取值与 Chrome DevTools 的节流预设一致
+export const NETWORK_PRESETS: Record<string, Omit<NetworkConditions, 'preset'>> = {
+  'offline': { offline: true, latency: 0, downloadThroughput: 0, uploadThroughput: 0 },
+  'slow-3g': { offline: false, latency: 2000, downloadThroughput: 50000, uploadThroughput: 50000 },
+  'fast-3g': { offline: false, latency: 562.5, downloadThroughput: 180000, uploadThroughput: 84375 },
+  'fast-4g': { offline: false, latency: 165, downloadThroughput: 1012500, uploadThroughput: 168750 },
+};
+
+const IPHONE_UA = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const ANDROID_UA = 'Mozilla/5.0 (Linux; Android 14; Pixel 7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36';
+const IPAD_UA = 'Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+// 设备预设：视口尺寸和 User Agent
+export const DEVICE_PRESETS: Record<string, Omit<Viewport, 'device'> & { userAgent?: string }> = {
+  'iphone-14': { width: 390, height: 844, deviceScaleFactor: 3, mobile: true, userAgent: IPHONE_UA },
+  'pixel-7': { width: 412, height: 915, deviceScaleFactor: 2.625, mobile: true, userAgent: ANDROID_UA },
+  'ipad': { width: 820, height: 1180, deviceScaleFactor: 2, mobile: true, userAgent: IPAD_UA },
+  'laptop': { width: 1366, height: 768, deviceScaleFactor: 1, mobile: false },
+  'desktop': { width: 1920, height: 1080, deviceScaleFactor: 1, mobile: false },
+};
+
+// 仿真设置；未指定的项保持不变，"none" 或 1 表示恢复默认
+export interface EmulationInput {
+  network?: string;
+  latency?: number;
+  downloadKbps?: number;
+  uploadKbps?: number;
+  cpuThrottling?: number;
+  device?: string;
+  width?: number;
+  height?: number;
+  deviceScaleFactor?: number;
+  mobile?: boolean;
+  userAgent?: string;
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+  timezone?: string;
+  locale?: string;
+}
+
+function requireCdp(session: BrowserSession) {
+  if (session.protocol !== 'cdp') {
+    throw new Error(`会话 ${session.id} 未通过 CDP 连接，不支持仿真`);
+  }
+}
+
+// 各项仿真的应用函数，值为 undefined 时恢复浏览器默认值
+async function applyNetwork(session: BrowserSession, network?: NetworkConditions) {
+  await sendCommand(session, 'Network.emulateNetworkConditions', network
+    ? {
+      offline: network.offline,
+      latency: network.latency,
+      downloadThroughput: network.downloadThroughput,
+      uploadThroughput: network.uploadThroughput,
+    }
+    : { offline: false, latency: 0, downloadThroughput: -1, uploadThroughput: -1 });
+}
+
+async function applyCpuThrottling(session: BrowserSession, rate?: number) {
+  await sendCommand(session, 'Emulation.setCPUThrottlingRate', { rate: rate ?? 1 });
+}
+
+async function applyViewport(session: BrowserSession, viewport?: Viewport) {
+  if (viewport) {
+    await sendCommand(session, 'Emulation.setDeviceMetricsOverride', {
+      width: viewport.width,
+      height: viewport.height,
+      deviceScaleFactor: viewport.deviceScaleFactor,
+      mobile: viewport.mobile,
+    });
+  } else {
+    await sendCommand(session, 'Emulation.clearDeviceMetricsOverride');
+  }
+  await sendCommand(session, 'Emulation.setTouchEmulationEnabled', { enabled: viewport?.mobile ?? false });
+}
+
+async function applyUserAgent(session: BrowserSession, userAgent?: string, locale?: string) {
+  // 空字符串恢复默认 User Agent
+  await sendCommand(session, 'Emulation.setUserAgentOverride', { userAgent: userAgent ?? '', acceptLanguage: locale });
+}
+
+async function applyGeolocation(session: BrowserSession, geolocation?: EmulationState['geolocation']) {
+  if (geolocation) {
+    await sendCommand(session, 'Emulation.setGeolocationOverride', geolocation);
+  } else {
+    await sendCommand(session, 'Emulation.clearGeolocationOverride');
+  }
+}
+
+async function applyTimezone(session: BrowserSession, timezone?: string) {
+  await sendCommand(session, 'Emulation.setTimezoneOverride', { timezoneId: timezone ?? '' });
+}
+
+async function applyLocale(session: BrowserSession, locale?: string) {
+  await sendCommand(session, 'Emulation.setLocaleOverride', locale ? { locale } : {});
+}
+
+// 按会话当前的仿真配置重新应用（重连后调用）
+export async function applyEmulation(session: BrowserSession) {
+  const state = session.emulation;
+  if (state.network) await applyNetwork(session, state.network);
+  if (state.cpuThrottling) await applyCpuThrottling(session, state.cpuThrottling);
+  if (state.viewport) await applyViewport(session, state.viewport);
+  if (state.userAgent || state.locale) await applyUserAgent(session, state.userAgent, state.locale);
+  if (state.geolocation) await applyGeolocation(session, state.geolocation);
+  if (state.timezone) await applyTimezone(session, state.timezone);
+  if (state.locale) await applyLocale(session, state.locale);
+}
+
+// 恢复所有仿真项的默认值
+export async function resetEmulation(session: BrowserSession) {
+  requireCdp(session);
+  await applyNetwork(session);
+  await applyCpuThrottling(session);
+  await applyViewport(session);
+  await applyUserAgent(session);
+  await applyGeolocation(session);
+  await applyTimezone(session);
+  await applyLocale(session);
+  session.emulation = {};
+  session.emulationProfile = undefined;
+}
+
+// 未指定预设时，自定义参数在当前网络配置的基础上修改
+function toNetworkConditions(input: EmulationInput, current?: NetworkConditions): NetworkConditions | undefined {
+  const custom = input.latency !== undefined || input.downloadKbps !== undefined || input.uploadKbps !== undefined;
+  if (input.network === 'none' && !custom) return undefined;
+
+  let preset: Omit<NetworkConditions, 'preset'> | undefined = input.network === 'none' ? undefined : current;
+  if (input.network && input.network !== 'none') {
+    preset = NETWORK_PRESETS[input.network];
+    if (!preset) {
+      throw new Error(`未知的网络预设: ${input.network}（可用: none、${Object.keys(NETWORK_PRESETS).join('、')}）`);
+    }
+  }
+  // kbps 换算为字节/秒
+  const toThroughput = (kbps: number | undefined, fallback: number) => (kbps !== undefined ? (kbps * 1000) / 8 : fallback);
+  return {
+    preset: custom ? 'custom' : input.network ?? current?.preset ?? 'custom',
+    offline: preset?.offline ?? false,
+    latency: input.latency ?? preset?.latency ?? 0,
+    downloadThroughput: toThroughput(input.downloadKbps, preset?.downloadThroughput ?? -1),
+    uploadThroughput: toThroughput(input.uploadKbps, preset?.uploadThroughput ?? -1),
+  };
+}
+
+// 未指定设备预设时，尺寸、像素比和移动端设置在当前视口的基础上修改
+function toViewport(input: EmulationInput, current?: Viewport): { viewport?: Viewport; userAgent?: string } {
+  if (input.device === 'none') return {};
+
+  const preset = input.device ? DEVICE_PRESETS[input.device] : undefined;
+  if (input.device && !preset) {
+    throw new Error(`未知的设备预设: ${input.device}（可用: none、${Object.keys(DEVICE_PRESETS).join('、')}）`);
+  }
+  const base = preset ?? current;
+  const width = input.width ?? base?.width;
+  const height = input.height ?? base?.height;
+  if (width === undefined || height === undefined) {
+    throw new Error(input.width === undefined && input.height === undefined
+      ? '当前未启用视口仿真，deviceScaleFactor 和 mobile 需要与 device 或 width、height 一起指定'
+      : '自定义视口需要同时指定 width 和 height');
+  }
+
+  const custom = !preset || input.width !== undefined || input.height !== undefined
+    || input.deviceScaleFactor !== undefined || input.mobile !== undefined;
+  return {
+    viewport: {
+      device: custom ? 'custom' : input.device ?? 'custom',
+      width,
+      height,
+      deviceScaleFactor: input.deviceScaleFactor ?? base?.deviceScaleFactor ?? 1,
+      mobile: input.mobile ?? base?.mobile ?? false,
+    },
+    userAgent: preset?.userAgent,
+  };
+}
+
+// 更新仿真配置：只修改传入的项，其余保持不变。
+// 先校验参数并生成新配置，全部应用成功后才保存；应用失败时尽量恢复已修改的项，避免重连后重放错误的配置
+export async function updateEmulation(session: BrowserSession, input: EmulationInput) {
+  requireCdp(session);
+  const previous = session.emulation;
+  const state: EmulationState = { ...previous };
+  const changes: Array<(target: EmulationState) => Promise<void>> = [];
+
+  if (input.network !== undefined || input.latency !== undefined || input.downloadKbps !== undefined || input.uploadKbps !== undefined) {
+    state.network = toNetworkConditions(input, previous.network);
+    changes.push((target) => applyNetwork(session, target.network));
+  }
+
+  if (input.cpuThrottling !== undefined) {
+    if (input.cpuThrottling < 1) {
+      throw new Error('cpuThrottling 必须大于等于 1（1 表示不降速）');
+    }
+    state.cpuThrottling = input.cpuThrottling > 1 ? input.cpuThrottling : undefined;
+    changes.push((target) => applyCpuThrottling(session, target.cpuThrottling));
+  }
+
+  let deviceUserAgent: string | undefined;
+  if (input.device !== undefined || input.width !== undefined || input.height !== undefined
+    || input.deviceScaleFactor !== undefined || input.mobile !== undefined) {
+    const { viewport, userAgent } = toViewport(input, previous.viewport);
+    state.viewport = viewport;
+    deviceUserAgent = userAgent;
+    changes.push((target) => applyViewport(session, target.viewport));
+  }
+
+  if (input.locale !== undefined) {
+    state.locale = input.locale || undefined;
+    changes.push((target) => applyLocale(session, target.locale));
+  }
+
+  // 设备预设自带 User Agent，显式传入的 userAgent 优先；语言变化时同步 Accept-Language
+  if (input.userAgent !== undefined || deviceUserAgent || input.locale !== undefined) {
+    if (input.userAgent !== undefined) {
+      state.userAgent = input.userAgent || undefined;
+    } else if (deviceUserAgent) {
+      state.userAgent = deviceUserAgent;
+    }
+    changes.push((target) => applyUserAgent(session, target.userAgent, target.locale));
+  }
+
+  if (input.latitude !== undefined || input.longitude !== undefined) {
+    if (input.latitude === undefined || input.longitude === undefined) {
+      throw new Error('地理位置需要同时指定 latitude 和 longitude');
+    }
+    state.geolocation = { latitude: input.latitude, longitude: input.longitude, accuracy: input.accuracy ?? 100 };
+    changes.push((target) => applyGeolocation(session, target.geolocation));
+  }
+
+  if (input.timezone !== undefined) {
+    state.timezone = input.timezone || undefined;
+    changes.push((target) => applyTimezone(session, target.timezone));
+  }
+
+  try {
+    for (const apply of changes) {
+      await apply(state);
+    }
+  } catch (error) {
+    // 恢复失败时忽略，保留原始错误
+    for (const apply of changes) {
+      await apply(previous).catch(() => {});
+    }
+    throw error;
+  }
+
+  session.emulation = state;
+  session.emulationProfile = describeEmulation(state);
+}
+
+// 仿真配置摘要，如 "slow-3g, CPU 4x, iphone-14"
+export function describeEmulation(state: EmulationState): string | undefined {
+  const parts: string[] = [];
+  if (state.network) {
+    parts.push(state.network.preset !== 'custom'
+      ? state.network.preset
+      : `网络 ${state.network.latency}ms/${formatThroughput(state.network.downloadThroughput)}`);
+  }
+  if (state.cpuThrottling) parts.push(`CPU ${state.cpuThrottling}x`);
+  if (state.viewport) {
+    parts.push(state.viewport.device !== 'custom'
+      ? state.viewport.device
+      : `${state.viewport.width}x${state.viewport.height}${state.viewport.mobile ? ' mobile' : ''}`);
+  }
+  if (state.userAgent && !Object.values(DEVICE_PRESETS).some((device) => device.userAgent === state.userAgent)) {
+    parts.push('自定义 UA');
+  }
+  if (state.geolocation) parts.push(`位置 ${state.geolocation.latitude},${state.geolocation.longitude}`);
+  if (state.timezone) parts.push(state.timezone);
+  if (state.locale) parts.push(state.locale);
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+function formatThroughput(bytesPerSecond: number): string {
+  return bytesPerSecond < 0 ? '不限速' : `${Math.round((bytesPerSecond * 8) / 1000)}kbps`;
+}
+
+// 仿真配置详情
+export function formatEmulation(state: EmulationState): string {
+  const lines: string[] = [];
+  if (state.network) {
+    const network = state.network;
+    lines.push(network.offline
+      ? '网络: 离线'
+      : `网络: ${network.preset}（延迟 ${network.latency}ms，下行 ${formatThroughput(network.downloadThroughput)}，上行 ${formatThroughput(network.uploadThroughput)}）`);
+  }
+  if (state.cpuThrottling) lines.push(`CPU: 降速 ${state.cpuThrottling} 倍`);
+  if (state.viewport) {
+    const viewport = state.viewport;
+    lines.push(`视口: ${viewport.device}（${viewport.width}x${viewport.height}，DPR ${viewport.deviceScaleFactor}${viewport.mobile ? '，移动端' : ''}）`);
+  }
+  if (state.userAgent) lines.push(`User Agent: ${state.userAgent}`);
+  if (state.geolocation) {
+    const { latitude, longitude, accuracy } = state.geolocation;
+    lines.push(`地理位置: ${latitude}, ${longitude}（精度 ${accuracy}m）`);
+  }
+  if (state.timezone) lines.push(`时区: ${state.timezone}`);
+  if (state.locale) lines.push(`语言: ${state.locale}`);
+  return lines.length > 0 ? lines.join('\n') : '未启用仿真（使用浏览器默认设置）';
+}
@@ -0,0 +1,201 @@
+import { formatErrorGroup } from './format.js';
+import { describeSession, onCapture } from './session.js';
+import { loadConsoleHistory, loadNetworkHistory } from './store.js';
+import { BrowserSession, ConsoleMessage, ErrorGroup, NetworkRequest } from './types.js';
+
+// get_error_summary 每类错误默认返回的分组数
+export const DEFAULT_ERROR_GROUP_LIMIT = 10;
+
+// 每个分组最多记录的 URL 数
+const MAX_GROUP_URLS = 5;
+
+const SECTIONS: { kind: ErrorGroup['kind']; title: string }[] = [
+  { kind: 'exception', title: '未捕获的异常' },
+  { kind: 'console', title: '控制台错误' },
+  { kind: 'network', title: '失败的网络请求' },
+];
+
+// 捕获时累计错误分组：页面循环报错时缓存会被相同的日志占满，分组仍保留首次出现的样本
+onCapture((event) => {
+  if (event.kind === 'console' && event.entry.level === 'error') {
+    recordConsoleError(event.session, event.session.errorGroups, event.entry);
+  } else if (event.kind === 'network-finished' && isFailedRequest(event.entry)) {
+    recordNetworkError(event.session, event.session.errorGroups, event.entry);
+  }
+});
+
+// 失败的请求：网络错误或 4xx/5xx
+export function isFailedRequest(request: NetworkRequest): boolean {
+  return Boolean(request.failed) || (request.status ?? 0) >= 400;
+}
+
+// 归一化错误消息：只取第一行，去掉 URL 参数，数字、UUID、十六进制 ID 等易变部分替换为占位符
+export function normalizeMessage(text: string): string {
+  return text.split('\n')[0]
+    .replace(/(https?:\/\/[^\s?#'"]+)[?#][^\s'"]*/g, '$1')
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>')
+    .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, '<hex>')
+    .replace(/\d+/g, '<n>')
+    .slice(0, 300);
+}
+
+// 归一化请求 URL：去掉查询参数，路径中的数字和长 ID 段替换为 :id
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname
+      .split('/')
+      .map((segment) => (/^\d+$/.test(segment) || /^[0-9a-f-]{16,}$/i.test(segment) ? ':id' : segment))
+      .join('/');
+    return `${parsed.origin}${path}`;
+  } catch {
+    return url.split(/[?#]/)[0];
+  }
+}
+
+// 栈顶位置（生成代码中的位置），没有堆栈时使用日志的位置
+function topLocation(message: ConsoleMessage): string {
+  const top = message.stackTrace?.[0];
+  if (top) {
+    return `${top.url.split(/[?#]/)[0]}:${top.lineNumber}:${top.columnNumber}`;
+  }
+  return message.url ? `${message.url.split(/[?#]/)[0]}:${message.lineNumber ?? ''}:${message.columnNumber ?? ''}` : '';
+}
+
+// 日志所属页面加载的 URL
+function pageUrl(session: BrowserSession, navigationId?: number): string {
+  return session.navigations.find((navigation) => navigation.id === navigationId)?.url ?? session.url;
+}
+
+// 累计一次错误；分组数超过会话缓存上限时丢弃最久未再出现的分组
+function recordError(
+  session: BrowserSession,
+  groups: Map<string, ErrorGroup>,
+  fingerprint: string,
+  timestamp: number,
+  url: string,
+  create: () => ErrorGroup,
+) {
+  let group = groups.get(fingerprint);
+  if (group) {
+    group.count++;
+    group.firstSeen = Math.min(group.firstSeen, timestamp);
+    group.lastSeen = Math.max(group.lastSeen, timestamp);
+    // 移到末尾，保持按最近出现的顺序排列
+    groups.delete(fingerprint);
+  } else {
+    group = create();
+  }
+  groups.set(fingerprint, group);
+
+  if (url && !group.urls.includes(url) && group.urls.length < MAX_GROUP_URLS) {
+    group.urls.push(url);
+  }
+
+  if (groups.size > session.maxMessages) {
+    const oldest = groups.keys().next().value;
+    if (oldest !== undefined) {
+      groups.delete(oldest);
+    }
+  }
+}
+
+function recordConsoleError(session: BrowserSession, groups: Map<string, ErrorGroup>, message: ConsoleMessage) {
+  const kind = message.source === 'javascript-exception' ? 'exception' : 'console';
+  const fingerprint = `${kind}|${normalizeMessage(message.text)}|${topLocation(message)}`;
+  recordError(session, groups, fingerprint, message.timestamp, pageUrl(session, message.navigationId), () => ({
+    fingerprint,
+    kind,
+    sessionId: session.id,
+    count: 1,
+    firstSeen: message.timestamp,
+    lastSeen: message.timestamp,
+    urls: [],
+    message,
+  }));
+}
+
+function recordNetworkError(session: BrowserSession, groups: Map<string, ErrorGroup>, request: NetworkRequest) {
+  const outcome = request.failed ? request.errorText || request.blockedReason || 'failed' : String(request.status);
+  const fingerprint = `network|${request.method}|${normalizeUrl(request.url)}|${outcome}`;
+  recordError(session, groups, fingerprint, request.timestamp, request.url, () => ({
+    fingerprint,
+    kind: 'network',
+    sessionId: session.id,
+    count: 1,
+    firstSeen: request.timestamp,
+    lastSeen: request.timestamp,
+    urls: [],
+    request,
+  }));
+}
+
+// 获取会话的错误分组：历史会话（服务器重启前）从持久化存储中的记录重新计算
+async function loadErrorGroups(targets: BrowserSession[]): Promise<ErrorGroup[]> {
+  const stored = targets.filter((session) => session.stored);
+  const consoleHistory = (await loadConsoleHistory(stored, () => ({
+    order: 'asc',
+    matches: (message) => message.level === 'error',
+  }))).entries;
+  const networkHistory = (await loadNetworkHistory(stored, () => ({
+    order: 'asc',
+    matches: (request) => Boolean(request.finished) && isFailedRequest(request),
+  }))).entries;
+
+  const groups: ErrorGroup[] = [];
+  for (const session of targets) {
+    if (!session.stored) {
+      groups.push(...session.errorGroups.values());
+      continue;
+    }
+
+    const rebuilt = new Map<string, ErrorGroup>();
+    const messages = consoleHistory.get(session.id) ?? [];
+    const requests = networkHistory.get(session.id) ?? [];
+    for (const message of messages) {
+      recordConsoleError(session, rebuilt, message);
+    }
+    for (const request of requests) {
+      recordNetworkError(session, rebuilt, request);
+    }
+    groups.push(...rebuilt.values());
+  }
+  return groups;
+}
+
+// 错误摘要：按类别列出错误分组（出现次数多的在前），并指出最早出现的错误
+export async function getErrorSummary(targets: BrowserSession[], limit = DEFAULT_ERROR_GROUP_LIMIT): Promise<string> {
+  const groups = await loadErrorGroups(targets);
+  const showSession = targets.length > 1;
+  const header = targets.length === 1 ? `会话: ${describeSession(targets[0])}\n` : '';
+
+  if (groups.length === 0) {
+    return `${header}暂无错误：没有控制台错误、未捕获的异常或失败的网络请求`;
+  }
+
+  const counts = SECTIONS.map(({ kind, title }) => {
+    const items = groups.filter((group) => group.kind === kind);
+    const total = items.reduce((sum, group) => sum + group.count, 0);
+    return `${title} ${items.length} 组（共 ${total} 次）`;
+  });
+
+  const first = groups.reduce((earliest, group) => (group.firstSeen < earliest.firstSeen ? group : earliest));
+  const firstTitle = SECTIONS.find((section) => section.kind === first.kind)?.title ?? first.kind;
+  const lines = [
+    `${header}错误摘要: ${counts.join('，')}`,
+    `最早出现的错误（${firstTitle}，${new Date(first.firstSeen).toLocaleTimeString('zh-CN')}）: ${formatErrorGroup(first, showSession).split('\n')[0]}`,
+  ];
+
+  for (const { kind, title } of SECTIONS) {
+    const items = groups
+      .filter((group) => group.kind === kind)
+      .sort((a, b) => b.count - a.count || a.firstSeen - b.firstSeen);
+    if (items.length === 0) continue;
+
+    const shown = items.slice(0, limit);
+    const more = items.length > shown.length ? `\n\n… 还有 ${items.length - shown.length} 组未显示` : '';
+    lines.push(`${title}（${items.length} 组）:\n\n${shown.map((group) => formatErrorGroup(group, showSession)).join('\n\n')}${more}`);
+  }
+
+  return lines.join('\n\n');
+}
@@ -0,0 +1,352 @@
+import { getTimingBreakdown } from './network.js';
+import { Page } from './query.js';
+import { ConsoleMessage, ErrorGroup, NetworkRequest, OriginalPosition, RealtimeConnection, RealtimeMessage, ResponseBody, StackFrame } from './types.js';
+
+// 堆栈最多显示的帧数
+const MAX_STACK_FRAMES = 20;
+
+// 格式化位置（输出时行列号从 1 开始，与 DevTools 一致）
+function formatLocation(url: string, lineNumber?: number, columnNumber?: number): string {
+  let text = url;
+  if (lineNumber !== undefined) {
+    text += `:${lineNumber + 1}`;
+    if (columnNumber !== undefined) {
+      text += `:${columnNumber + 1}`;
+    }
+  }
+  return text;
+}
+
+function formatOriginal(original: OriginalPosition): string {
+  return formatLocation(original.source, original.lineNumber, original.columnNumber);
+}
+
+// 格式化栈帧：有 source map 时显示源码位置和函数名
+export function formatStackFrame(frame: StackFrame): string {
+  const name = frame.original?.name || frame.functionName || '<anonymous>';
+  const location = frame.original
+    ? formatOriginal(frame.original)
+    : formatLocation(frame.url || '<unknown>', frame.lineNumber, frame.columnNumber);
+  return `at ${name} (${location})`;
+}
+
+// 格式化日志消息；showSession 为 true 时标注来源会话
+export function formatMessage(message: ConsoleMessage, showSession = false): string {
+  const time = new Date(message.timestamp).toLocaleTimeString('zh-CN');
+  const level = message.level.toUpperCase().padEnd(5);
+  const source = message.source.padEnd(20);
+  const prefix = showSession ? `[${message.sessionId}] ` : '';
+
+  let text = `${prefix}#${message.id} [${time}] [${level}] [${source}] ${message.text}`;
+
+  if (message.url) {
+    const generated = formatLocation(message.url, message.lineNumber, message.columnNumber);
+    text += message.original
+      ? `\n    位置: ${formatOriginal(message.original)} (${generated})`
+      : `\n    位置: ${generated}`;
+  }
+
+  if (message.target) {
+    text += `\n    目标: ${message.target.type} ${message.target.url}`;
+  }
+
+  if (message.emulation) {
+    text += `\n    仿真: ${message.emulation}`;
+  }
+
+  if (message.stackTrace && message.stackTrace.length > 0) {
+    const frames = message.stackTrace.slice(0, MAX_STACK_FRAMES).map((frame) => `\n        ${formatStackFrame(frame)}`);
+    const more = message.stackTrace.length - frames.length;
+    text += `\n    堆栈:${frames.join('')}`;
+    if (more > 0) {
+      text += `\n        … 还有 ${more} 帧`;
+    }
+  }
+
+  return text;
+}
+
+// 格式化网络请求；showSession 为 true 时标注来源会话
+export function formatNetworkRequest(request: NetworkRequest, showSession = false): string {
+  const time = new Date(request.timestamp).toLocaleTimeString('zh-CN');
+  const status = request.failed ? 'ERR' : request.status ? String(request.status).padEnd(3) : 'PND';
+  const method = request.method.padEnd(6);
+  const prefix = showSession ? `[${request.sessionId}] ` : '';
+
+  let text = `${prefix}[${time}] [${status}] [${method}] ${request.url}`;
+
+  if (request.type) {
+    text += ` (${request.type})`;
+  }
+
+  if (request.timing?.duration) {
+    text += ` - ${request.timing.duration.toFixed(0)}ms`;
+  }
+
+  if (request.errorText) {
+    text += ` - ${request.errorText}`;
+  }
+
+  if (request.target) {
+    text += ` [${request.target.type}]`;
+  }
+
+  if (request.emulation) {
+    text += ` [仿真: ${request.emulation}]`;
+  }
+
+  if (request.interceptRule) {
+    text += request.mocked ? ` [模拟: ${request.interceptRule}]` : ` [拦截: ${request.interceptRule}]`;
+  }
+
+  text += ` #${request.requestId}`;
+
+  return text;
+}
+
+// WebSocket 帧类型名称
+const OPCODE_NAMES: Record<number, string> = {
+  0: '分片',
+  1: '文本',
+  2: '二进制',
+  8: '关闭',
+  9: 'ping',
+  10: 'pong',
+};
+
+const DIRECTION_NAMES: Record<RealtimeMessage['direction'], string> = {
+  sent: '↑ 发送',
+  received: '↓ 接收',
+  error: '✕ 错误',
+};
+
+// 格式化 WebSocket 帧或 SSE 消息；showSession 为 true 时标注来源会话
+export function formatRealtimeMessage(message: RealtimeMessage, showSession = false): string {
+  const time = new Date(message.timestamp).toLocaleTimeString('zh-CN');
+  const prefix = showSession ? `[${message.sessionId}] ` : '';
+  const kind = message.kind === 'sse' ? 'SSE' : 'WS';
+
+  const tags: string[] = [];
+  if (message.opcode !== undefined) {
+    tags.push(OPCODE_NAMES[message.opcode] ?? `opcode ${message.opcode}`);
+  }
+  if (message.eventName) {
+    tags.push(`event: ${message.eventName}`);
+  }
+  if (message.eventId) {
+    tags.push(`id: ${message.eventId}`);
+  }
+  if (message.target) {
+    tags.push(message.target.type);
+  }
+  const tag = tags.length > 0 ? ` [${tags.join(', ')}]` : '';
+
+  let text = `${prefix}[${time}] [${kind} ${DIRECTION_NAMES[message.direction]}]${tag} ${message.url} #${message.connectionId}`;
+  const encoding = message.opcode === 2 ? 'base64, ' : '';
+  const truncated = message.truncated
+    ? `（${encoding}已截断，共 ${message.payloadLength} 字符）`
+    : encoding ? '（base64）' : '';
+  text += `
+    ${message.payload}${truncated}`;
+  return text;
+}
+
+// 错误摘要中样本堆栈显示的帧数
+const SUMMARY_STACK_FRAMES = 5;
+
+// 网络错误的状态描述
+function describeRequestFailure(request: NetworkRequest): string {
+  if (request.failed) {
+    return `失败: ${request.errorText || request.blockedReason || '未知错误'}`;
+  }
+  return `${request.status}${request.statusText ? ` ${request.statusText}` : ''}`;
+}
+
+// 格式化错误分组：次数、首次/最近出现时间、受影响的 URL，以及样本的位置和堆栈；showSession 为 true 时标注来源会话
+export function formatErrorGroup(group: ErrorGroup, showSession = false): string {
+  const prefix = showSession ? `[${group.sessionId}] ` : '';
+  const first = new Date(group.firstSeen).toLocaleTimeString('zh-CN');
+  const last = new Date(group.lastSeen).toLocaleTimeString('zh-CN');
+  const lines: string[] = [];
+
+  if (group.request) {
+    const request = group.request;
+    lines.push(`${prefix}[${group.count} 次] ${request.method} ${request.url} → ${describeRequestFailure(request)}`);
+    lines.push(`    时间: 首次 ${first}，最近 ${last}（样本请求 ${request.requestId}）`);
+    if (group.urls.length > 1) {
+      lines.push(`    请求: ${group.urls.join(', ')}`);
+    }
+    return lines.join('\n');
+  }
+
+  const message = group.message;
+  if (!message) {
+    // 分组既没有样本日志也没有样本请求时只输出指纹
+    lines.push(`${prefix}[${group.count} 次] ${group.fingerprint}`);
+    lines.push(`    时间: 首次 ${first}，最近 ${last}`);
+    return lines.join('\n');
+  }
+  lines.push(`${prefix}[${group.count} 次] ${message.text.split('\n')[0]}`);
+  const top = message.stackTrace?.[0];
+  if (top) {
+    lines.push(`    位置: ${formatStackFrame(top).replace(/^at /, '')}`);
+  } else if (message.url) {
+    const generated = formatLocation(message.url, message.lineNumber, message.columnNumber);
+    lines.push(message.original ? `    位置: ${formatOriginal(message.original)} (${generated})` : `    位置: ${generated}`);
+  }
+  lines.push(`    时间: 首次 ${first}，最近 ${last}（样本日志 #${message.id}）`);
+  if (group.urls.length > 0) {
+    lines.push(`    页面: ${group.urls.join(', ')}`);
+  }
+  if (message.stackTrace && message.stackTrace.length > 1) {
+    const frames = message.stackTrace.slice(0, SUMMARY_STACK_FRAMES).map((frame) => `\n        ${formatStackFrame(frame)}`);
+    const more = message.stackTrace.length - frames.length;
+    lines.push(`    堆栈:${frames.join('')}${more > 0 ? `\n        … 还有 ${more} 帧` : ''}`);
+  }
+  return lines.join('\n');
+}
+
+// 格式化 WebSocket / SSE 连接；showSession 为 true 时标注来源会话
+export function formatRealtimeConnection(connection: RealtimeConnection, showSession = false): string {
+  const time = new Date(connection.createdAt).toLocaleTimeString('zh-CN');
+  const prefix = showSession ? `[${connection.sessionId}] ` : '';
+  const kind = connection.kind === 'sse' ? 'SSE' : 'WS';
+  const state = connection.closedAt
+    ? `已关闭于 ${new Date(connection.closedAt).toLocaleTimeString('zh-CN')}`
+    : '打开';
+  const status = connection.status !== undefined ? `, ${connection.status}` : '';
+  const target = connection.target ? ` [${connection.target.type}]` : '';
+  return `${prefix}#${connection.requestId} [${kind}]${target} ${connection.url}（${time} 建立${status}, ${state}）`;
+}
+
+// 格式化分页提示
+export function formatPageFooter<T>(page: Page<T>): string {
+  if (!page.nextCursor) {
+    return '';
+  }
+  return `\n\n还有更多记录，下一页 cursor: ${page.nextCursor}`;
+}
+
+// 格式化字节数
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+// 格式化请求头
+function formatHeaders(headers?: Record<string, string>): string {
+  if (!headers || Object.keys(headers).length === 0) {
+    return '    (无)';
+  }
+  // CDP 用换行符合并同名响应头（如 Set-Cookie），逐行展开
+  return Object.entries(headers)
+    .flatMap(([name, value]) => String(value).split('\n').map((v) => `    ${name}: ${v}`))
+    .join('\n');
+}
+
+// 格式化网络请求详情
+export function formatNetworkRequestDetail(
+  request: NetworkRequest,
+  postData?: string,
+  body?: ResponseBody,
+  bodyError?: string,
+): string {
+  const lines: string[] = [];
+  const time = new Date(request.timestamp).toLocaleString('zh-CN');
+
+  lines.push(`${request.method} ${request.url}`);
+  lines.push(`请求 ID: ${request.requestId} (会话 ${request.sessionId})`);
+  lines.push(`时间: ${time}`);
+  if (request.redirectedFrom) {
+    lines.push(`重定向自: ${request.redirectedFrom}`);
+  }
+  if (request.target) {
+    lines.push(`来源目标: ${request.target.type} ${request.target.url}`);
+  }
+  if (request.emulation) {
+    lines.push(`仿真: ${request.emulation}`);
+  }
+  if (request.interceptRule) {
+    const effect = request.mocked ? '响应为模拟结果，未到达服务器' : '请求已被修改或延迟';
+    lines.push(`拦截规则: ${request.interceptRule}（${effect}）`);
+  }
+  if (request.type) {
+    lines.push(`资源类型: ${request.type}`);
+  }
+
+  if (request.failed) {
+    const reason = [request.errorText, request.blockedReason, request.canceled ? '已取消' : ''].filter(Boolean).join(', ');
+    lines.push(`状态: 失败 (${reason})`);
+  } else if (request.status !== undefined) {
+    lines.push(`状态: ${request.status} ${request.statusText ?? ''}`.trimEnd());
+  } else {
+    lines.push('状态: 等待响应');
+  }
+
+  if (request.mimeType) lines.push(`MIME 类型: ${request.mimeType}`);
+  if (request.protocol) lines.push(`协议: ${request.protocol}`);
+  if (request.remoteAddress) lines.push(`远程地址: ${request.remoteAddress}`);
+  if (request.fromCache) lines.push('来自缓存: 是');
+
+  if (request.encodedDataLength !== undefined || request.decodedBodyLength !== undefined) {
+    const encoded = request.encodedDataLength !== undefined ? formatSize(request.encodedDataLength) : '-';
+    const decoded = request.decodedBodyLength !== undefined ? formatSize(request.decodedBodyLength) : '-';
+    lines.push(`大小: 传输 ${encoded} / 解码后 ${decoded}`);
+  }
+
+  const breakdown = getTimingBreakdown(request);
+  if (request.timing?.duration !== undefined || breakdown) {
+    lines.push('');
+    lines.push('耗时:');
+    if (breakdown) {
+      const phases: Array<[string, number | undefined]> = [
+        ['排队', breakdown.queued],
+        ['阻塞', breakdown.stalled],
+        ['DNS 查询', breakdown.dns],
+        ['建立连接', breakdown.connect],
+        ['TLS 握手', breakdown.tls],
+        ['发送请求', breakdown.send],
+        ['等待响应 (TTFB)', breakdown.ttfb],
+        ['内容下载', breakdown.download],
+      ];
+      for (const [label, value] of phases) {
+        if (value !== undefined) {
+          lines.push(`    ${label}: ${value.toFixed(1)}ms`);
+        }
+      }
+    }
+    if (request.timing?.duration !== undefined) {
+      lines.push(`    总计: ${request.timing.duration.toFixed(1)}ms`);
+    }
+  }
+
+  lines.push('');
+  lines.push('请求头:');
+  lines.push(formatHeaders(request.requestHeaders));
+
+  if (postData !== undefined) {
+    lines.push('');
+    lines.push('请求体:');
+    lines.push(postData);
+  }
+
+  if (request.responseHeaders) {
+    lines.push('');
+    lines.push('响应头:');
+    lines.push(formatHeaders(request.responseHeaders));
+  }
+
+  if (body) {
+    lines.push('');
+    const encoding = body.base64Encoded ? '，base64 编码' : '';
+    const truncated = body.truncated ? '，已截断' : '';
+    lines.push(`响应体 (${formatSize(body.size)}${encoding}${truncated}):`);
+    lines.push(body.text);
+  } else if (bodyError) {
+    lines.push('');
+    lines.push(`响应体: 无法获取 (${bodyError})`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,411 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { basename, dirname, resolve } from 'path';
+import { DEFAULT_MAX_BODY_SIZE, getResponseBody, getTimingBreakdown, isTextMimeType } from './network.js';
+import { addNetworkRequest, createSession, notifyRequestFinished } from './session.js';
+import { BrowserSession, Navigation, NetworkRequest, ResponseBody } from './types.js';
+
+// HAR 1.2 结构（只声明本项目读写的字段）
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+interface HarPage {
+  startedDateTime: string;
+  id: string;
+  title: string;
+  pageTimings: { onContentLoad?: number; onLoad?: number };
+}
+
+interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text?: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string; encoding?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _transferSize?: number;
+    _error?: string | null;
+  };
+  cache: Record<string, unknown>;
+  timings: {
+    blocked?: number;
+    dns?: number;
+    connect?: number;
+    send: number;
+    wait: number;
+    receive: number;
+    ssl?: number;
+  };
+  serverIPAddress?: string;
+  _requestId?: string;
+  _resourceType?: string;
+}
+
+interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    pages?: HarPage[];
+    entries: HarEntry[];
+  };
+}
+
+export interface HarExportOptions {
+  includeBodies: boolean;
+  maxBodySize: number;
+}
+
+// 按页面加载分组会话的请求：每次导航为一个 HAR 页面，页面加载记录已被丢弃（或没有导航记录）的请求归入以会话 ID 为名的页面
+function toHarPages(session: BrowserSession): { page: HarPage; requests: NetworkRequest[] }[] {
+  const groups = new Map<string, { navigation?: Navigation; requests: NetworkRequest[] }>();
+  for (const request of session.networkRequests) {
+    const navigation = session.navigations.find((item) => item.id === request.navigationId);
+    const id = navigation ? `${session.id}-${navigation.id}` : session.id;
+    let group = groups.get(id);
+    if (!group) {
+      group = { navigation, requests: [] };
+      groups.set(id, group);
+    }
+    group.requests.push(request);
+  }
+
+  return [...groups].map(([id, { navigation, requests }]) => {
+    // 主文档请求早于导航提交，页面从最早的请求开始；pageTimings 为相对页面开始的毫秒数，-1 表示未知
+    const startedAt = Math.min(navigation?.timestamp ?? Infinity, ...requests.map((request) => request.timestamp));
+    const offset = (time?: number) => (time !== undefined ? time - startedAt : -1);
+    return {
+      page: {
+        startedDateTime: new Date(startedAt).toISOString(),
+        id,
+        title: navigation?.url ?? (session.title || session.url),
+        pageTimings: { onContentLoad: offset(navigation?.contentLoadedAt), onLoad: offset(navigation?.loadedAt) },
+      },
+      requests,
+    };
+  });
+}
+
+// 导出网络请求为 HAR 文件，返回导出的条目数
+export async function exportHar(targets: BrowserSession[], path: string, options: HarExportOptions): Promise<number> {
+  const pages: HarPage[] = [];
+  const entries: HarEntry[] = [];
+
+  for (const session of targets) {
+    for (const { page, requests } of toHarPages(session)) {
+      pages.push(page);
+      for (const request of requests) {
+        const body = options.includeBodies ? await captureBody(session, request, options.maxBodySize) : undefined;
+        entries.push(toHarEntry(request, page.id, body));
+      }
+    }
+  }
+
+  pages.sort((a, b) => Date.parse(a.startedDateTime) - Date.parse(b.startedDateTime));
+
+  entries.sort((a, b) => Date.parse(a.startedDateTime) - Date.parse(b.startedDateTime));
+
+  const har: Har = {
+    log: {
+      version: '1.2',
+      creator: { name: 'mcp-browser-logger', version: '1.0.0' },
+      pages,
+      entries,
+    },
+  };
+
+  const filePath = resolve(path);
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(har, null, 2), 'utf-8');
+  return entries.length;
+}
+
+// 检查 HAR 条目是否可以导入：需要请求方法、URL、有效的开始时间和耗时
+function isValidEntry(entry: unknown): entry is HarEntry {
+  const value = entry as Partial<HarEntry> | null;
+  return typeof value === 'object' && value !== null
+    && typeof value.request?.method === 'string'
+    && typeof value.request.url === 'string'
+    && typeof value.startedDateTime === 'string'
+    && Number.isFinite(Date.parse(value.startedDateTime))
+    && typeof value.time === 'number'
+    && Number.isFinite(value.time);
+}
+
+// 导入 HAR 文件：未指定会话时创建一个离线会话，返回会话、导入的条目数和跳过的无效条目数
+export async function importHar(path: string, session?: BrowserSession): Promise<{ session: BrowserSession; count: number; skipped: number }> {
+  const filePath = resolve(path);
+  let har: Har;
+  try {
+    har = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`无法读取 HAR 文件 ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(har?.log?.entries)) {
+    throw new Error('HAR 文件格式无效：缺少 log.entries');
+  }
+
+  const target = session ?? createSession(null, '', 0, filePath);
+  if (!session) {
+    target.title = `HAR: ${basename(filePath)}`;
+    target.url = har.log.pages?.[0]?.title ?? filePath;
+  }
+
+  let count = 0;
+  (har.log.entries as unknown[]).forEach((entry, index) => {
+    if (isValidEntry(entry)) {
+      // 导入的请求均已结束，同样通知监听器，失败的请求计入错误分组
+      const request = fromHarEntry(target, entry, index);
+      addNetworkRequest(target, request);
+      notifyRequestFinished(target, request);
+      count++;
+    }
+  });
+
+  return { session: target, count, skipped: har.log.entries.length - count };
+}
+
+// 获取要写入 HAR 的响应体：优先使用已保存的，其次从浏览器获取文本响应
+async function captureBody(session: BrowserSession, request: NetworkRequest, maxSize: number): Promise<ResponseBody | undefined> {
+  if (request.responseBody) {
+    return request.responseBody;
+  }
+  if (!session.connected || session.protocol !== 'cdp' || !request.finished || request.failed) {
+    return undefined;
+  }
+  try {
+    return await getResponseBody(session, request, maxSize);
+  } catch {
+    // 响应体可能已被浏览器释放
+    return undefined;
+  }
+}
+
+function toNameValues(headers?: Record<string, string>): HarNameValue[] {
+  if (!headers) return [];
+  return Object.entries(headers).flatMap(([name, value]) => {
+    // CDP 用换行符合并同名响应头（如 Set-Cookie）
+    return String(value).split('\n').map((v) => ({ name, value: v }));
+  });
+}
+
+function fromNameValues(values?: HarNameValue[]): Record<string, string> | undefined {
+  if (!Array.isArray(values)) return undefined;
+  const headers: Record<string, string> = {};
+  for (const { name, value } of values.filter((item) => typeof item?.name === 'string')) {
+    headers[name] = headers[name] !== undefined ? `${headers[name]}\n${value}` : value;
+  }
+  return headers;
+}
+
+function toHttpVersion(protocol?: string): string {
+  switch (protocol) {
+    case 'h2':
+      return 'HTTP/2.0';
+    case 'h3':
+      return 'HTTP/3';
+    case undefined:
+      return '';
+    default:
+      return protocol.toUpperCase();
+  }
+}
+
+function fromHttpVersion(httpVersion?: string): string | undefined {
+  switch (httpVersion) {
+    case 'HTTP/2.0':
+      return 'h2';
+    case 'HTTP/3':
+      return 'h3';
+    case undefined:
+    case '':
+      return undefined;
+    default:
+      return httpVersion.toLowerCase();
+  }
+}
+
+function findHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+function toHarEntry(request: NetworkRequest, pageref: string, body?: ResponseBody): HarEntry {
+  const breakdown = getTimingBreakdown(request);
+  const httpVersion = toHttpVersion(request.protocol);
+  const orZero = (value?: number) => (value !== undefined && value > 0 ? value : 0);
+  const orMissing = (value?: number) => (value !== undefined && value >= 0 ? value : -1);
+
+  let queryString: HarNameValue[] = [];
+  try {
+    queryString = [...new URL(request.url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    // data: 等非标准 URL 没有查询参数
+  }
+
+  const entry: HarEntry = {
+    pageref,
+    startedDateTime: new Date(request.timestamp).toISOString(),
+    time: request.timing?.duration ?? 0,
+    request: {
+      method: request.method,
+      url: request.url,
+      httpVersion,
+      cookies: [],
+      headers: toNameValues(request.requestHeaders),
+      queryString,
+      headersSize: -1,
+      bodySize: request.postData !== undefined ? Buffer.byteLength(request.postData, 'utf-8') : 0,
+    },
+    response: {
+      status: request.failed ? 0 : request.status ?? 0,
+      statusText: request.statusText ?? '',
+      httpVersion,
+      cookies: [],
+      headers: toNameValues(request.responseHeaders),
+      content: {
+        size: request.decodedBodyLength ?? body?.size ?? 0,
+        mimeType: request.mimeType ?? 'x-unknown',
+      },
+      redirectURL: findHeader(request.responseHeaders, 'location') ?? '',
+      headersSize: -1,
+      bodySize: request.encodedDataLength ?? -1,
+      _transferSize: request.encodedDataLength,
+      _error: request.errorText ?? null,
+    },
+    cache: {},
+    timings: {
+      blocked: orMissing(breakdown && orZero(breakdown.queued) + orZero(breakdown.stalled)),
+      dns: orMissing(breakdown?.dns),
+      connect: orMissing(breakdown?.connect),
+      ssl: orMissing(breakdown?.tls),
+      send: orZero(breakdown?.send),
+      wait: orZero(breakdown?.ttfb),
+      receive: orZero(breakdown?.download),
+    },
+    _requestId: request.requestId,
+    _resourceType: request.type,
+  };
+
+  if (request.postData !== undefined) {
+    entry.request.postData = {
+      mimeType: findHeader(request.requestHeaders, 'content-type') ?? '',
+      text: request.postData,
+    };
+  }
+  if (body) {
+    entry.response.content.text = body.text;
+    if (body.base64Encoded) {
+      entry.response.content.encoding = 'base64';
+    }
+  }
+  if (request.remoteAddress) {
+    entry.serverIPAddress = request.remoteAddress.replace(/:\d*$/, '').replace(/^\[|\]$/g, '');
+  }
+
+  return entry;
+}
+
+function fromHarEntry(session: BrowserSession, entry: HarEntry, index: number): NetworkRequest {
+  const timestamp = Date.parse(entry.startedDateTime);
+  const startTime = timestamp / 1000;
+  const timings = entry.timings ?? { send: 0, wait: 0, receive: 0 };
+  const content = entry.response?.content;
+  const status = entry.response?.status ?? 0;
+  const errorText = entry.response?._error || undefined;
+
+  // 按 HAR 各阶段耗时重建 ResourceTiming，以便耗时分解照常工作
+  const phase = (value?: number) => (value !== undefined && value >= 0 ? value : 0);
+  const dnsEnd = phase(timings.dns);
+  const connectEnd = dnsEnd + phase(timings.connect);
+  const sendEnd = connectEnd + phase(timings.send);
+  const receiveHeadersEnd = sendEnd + phase(timings.wait);
+  const hasPhase = (value?: number) => value !== undefined && value >= 0;
+
+  let body: ResponseBody | undefined;
+  if (content?.text !== undefined) {
+    const base64Encoded = content.encoding === 'base64';
+    body = {
+      text: content.text,
+      base64Encoded,
+      size: content.size >= 0 ? content.size : Buffer.byteLength(content.text, base64Encoded ? 'base64' : 'utf-8'),
+      truncated: false,
+    };
+    if (base64Encoded && isTextMimeType(content.mimeType)) {
+      body.text = Buffer.from(content.text, 'base64').toString('utf-8');
+      body.base64Encoded = false;
+    }
+    if (body.text.length > DEFAULT_MAX_BODY_SIZE) {
+      body.text = body.text.slice(0, DEFAULT_MAX_BODY_SIZE);
+      body.truncated = true;
+    }
+  }
+
+  return {
+    sessionId: session.id,
+    requestId: entry._requestId ?? `har-${index}`,
+    method: entry.request.method,
+    url: entry.request.url,
+    status: status || undefined,
+    statusText: entry.response?.statusText || undefined,
+    type: entry._resourceType,
+    mimeType: content?.mimeType,
+    protocol: fromHttpVersion(entry.response?.httpVersion),
+    timestamp,
+    requestHeaders: fromNameValues(entry.request.headers),
+    responseHeaders: fromNameValues(entry.response?.headers),
+    postData: entry.request.postData?.text,
+    encodedDataLength: entry.response?._transferSize ?? (entry.response?.bodySize >= 0 ? entry.response.bodySize : undefined),
+    decodedBodyLength: content && content.size >= 0 ? content.size : undefined,
+    remoteAddress: entry.serverIPAddress,
+    finished: true,
+    failed: status === 0 ? true : undefined,
+    errorText: status === 0 ? errorText ?? '请求未完成' : undefined,
+    responseBody: body,
+    timing: {
+      startTime,
+      endTime: startTime + entry.time / 1000,
+      duration: entry.time,
+      resourceTiming: {
+        requestTime: startTime + phase(timings.blocked) / 1000,
+        proxyStart: -1,
+        proxyEnd: -1,
+        dnsStart: hasPhase(timings.dns) ? 0 : -1,
+        dnsEnd: hasPhase(timings.dns) ? dnsEnd : -1,
+        connectStart: hasPhase(timings.connect) ? dnsEnd : -1,
+        connectEnd: hasPhase(timings.connect) ? connectEnd : -1,
+        sslStart: hasPhase(timings.ssl) ? connectEnd - phase(timings.ssl) : -1,
+        sslEnd: hasPhase(timings.ssl) ? connectEnd : -1,
+        workerStart: -1,
+        workerReady: -1,
+        workerFetchStart: -1,
+        workerRespondWithSettled: -1,
+        sendStart: connectEnd,
+        sendEnd,
+        pushStart: 0,
+        pushEnd: 0,
+        receiveHeadersStart: receiveHeadersEnd,
+        receiveHeadersEnd,
+      },
+    },
+  };
+}
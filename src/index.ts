@@ -3,7 +3,7 @@
 /**
  * MCP Browser Logger
  *
- * 一个 MCP 服务器，用于通过 Chrome DevTools Protocol 收集浏览器控制台日志和网络请求
+ * 一个 MCP 服务器，用于通过 Chrome DevTools Protocol 或 WebDriver BiDi 收集浏览器控制台日志和网络请求
  *
  * 使用方法：
  * 1. 启动 Chrome/Edge 时添加调试端口：chrome.exe --remote-debugging-port=9222
@@ -18,67 +18,89 @@ import {
   ListToolsRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { WebSocket } from 'ws';
-import { URL } from 'url';
-
-// 浏览器日志存储
-interface ConsoleMessage {
-  level: 'log' | 'error' | 'warning' | 'info' | 'debug';
-  source: string;
-  text: string;
-  timestamp: number;
-  url?: string;
-  lineNumber?: number;
-  columnNumber?: number;
-  stackTrace?: string;
-  args?: Array<unknown>;
-}
+import { connectToBrowser, defaultProtocol, disconnectAll, disconnectSession, getTabs } from './browser.js';
+import { expandConsoleMessage } from './console.js';
+import { DEFAULT_COVERAGE_LIMIT, startCoverage, stopCoverage } from './coverage.js';
+import { DEVICE_PRESETS, EmulationInput, formatEmulation, NETWORK_PRESETS, resetEmulation, updateEmulation } from './emulation.js';
+import { DEFAULT_ERROR_GROUP_LIMIT, getErrorSummary } from './errors.js';
+import {
+  formatMessage,
+  formatNetworkRequest,
+  formatNetworkRequestDetail,
+  formatPageFooter,
+  formatRealtimeConnection,
+  formatRealtimeMessage,
+} from './format.js';
+import { exportHar, importHar } from './har.js';
+import { addInterceptRule, formatInterceptRule, InterceptRuleInput, removeInterceptRule } from './intercept.js';
+import { DEFAULT_MAX_BODY_SIZE, findRequest, getRequestPostData, getResponseBody } from './network.js';
+import { closeLaunchedBrowser, findLaunchedBrowser, launchBrowser, LaunchedBrowser, launchedBrowsers } from './launcher.js';
+import { captureScreenshot, click, DEFAULT_NAVIGATION_TIMEOUT, navigate, pressKey, reload, typeText, WaitUntil } from './page.js';
+import { DEFAULT_TRACE_DURATION, getPerformanceMetrics, recordTrace } from './performance.js';
+import { checkHost, evaluateWithPolicy, readUserAgent, runPageAction } from './policy.js';
+import {
+  consoleHistoryWindow,
+  networkHistoryWindow,
+  parseConsoleQuery,
+  parseNetworkQuery,
+  parseRealtimeQuery,
+  queryConsoleMessages,
+  queryNetworkRequests,
+  queryRealtimeConnections,
+  queryRealtimeMessages,
+} from './query.js';
+import { redactContent, redactCookieValue, redactNamedValue, redactUrl } from './redact.js';
+import { registerResources } from './resources.js';
+import { currentNavigation, describeSession, findSessionByTarget, getSession, resolveSessions, sessions } from './session.js';
+import {
+  clearIndexedDb,
+  CookieFilter,
+  CookieInput,
+  DEFAULT_RECORD_PAGE_SIZE,
+  deleteCookies,
+  getCookies,
+  getIndexedDbRecords,
+  getWebStorage,
+  listIndexedDb,
+  removeWebStorageItem,
+  setCookie,
+  setWebStorageItem,
+  WebStorageType,
+} from './storage.js';
+import { clearStoredEntries, describeStoredSession, findStoredRequest, initStore, loadConsoleHistory, loadNetworkHistory } from './store.js';
+import { describeChildTargets } from './targets.js';
+import { BrowserType, InterceptRule, ProtocolType, ResponseBody } from './types.js';
+import { DEFAULT_WAIT_TIMEOUT, waitForConsoleMessage, waitForRequest } from './wait.js';
+
+// 会话参数：用于查询类工具
+const SESSION_PROPERTY = {
+  type: 'string',
+  description: '会话 ID（如 s1），"all" 或留空表示所有会话。使用 list_sessions 查看所有会话',
+};
 
-interface NetworkRequest {
-  requestId: string;
-  method: string;
-  url: string;
-  status?: number;
-  type?: string;
-  mimeType?: string;
-  timestamp: number;
-  requestHeaders?: Record<string, string>;
-  responseHeaders?: Record<string, string>;
-  postData?: string;
-  timing?: {
-    requestTime: number;
-    responseTime: number;
-    duration: number;
-  };
-}
+const TARGET_PROPERTY = {
+  type: 'string',
+  description: '按来源目标类型过滤，逗号分隔：page（顶层页面）、iframe、worker、service_worker、shared_worker',
+};
 
-interface BrowserConnection {
-  ws: WebSocket | null;
-  connected: boolean;
-  messages: ConsoleMessage[];
-  networkRequests: NetworkRequest[];
-  nextMessageId: number;
-  maxMessages: number;
-  browserType: 'chrome' | 'firefox' | null;
-  currentTab: string | null;
-}
+const TARGET_URL_PROPERTY = {
+  type: 'string',
+  description: '子目标（iframe、Worker 等）URL 包含的子串',
+};
 
-const browser: BrowserConnection = {
-  ws: null,
-  connected: false,
-  messages: [],
-  networkRequests: [],
-  nextMessageId: 1,
-  maxMessages: 1000, // 最多保存 1000 条消息
-  browserType: null,
-  currentTab: null,
+// Web Storage 类型参数
+const WEB_STORAGE_PROPERTY = {
+  type: 'string',
+  description: 'local: localStorage；session: sessionStorage',
+  enum: ['local', 'session'],
+  default: 'local',
 };
 
 // 工具定义
 const TOOLS: Tool[] = [
   {
     name: 'connect_browser',
-    description: '连接到浏览器的 DevTools Protocol。支持 Chrome 和 Firefox。\n\nChrome 启动方式:\nWindows: chrome.exe --remote-debugging-port=9222\nmacOS: /Applications/Google\\ Chrome.app/Contents/MacOS/Google\\ Chrome --remote-debugging-port=9222\nLinux: google-chrome --remote-debugging-port=9222\n\nFirefox 启动方式:\nWindows: firefox.exe --start-debugger-server 6000\nmacOS: /Applications/Firefox.app/Contents/MacOS/firefox --start-debugger-server 6000\nLinux: firefox --start-debugger-server 6000',
+    description: '连接到浏览器的调试协议。支持 Chrome（CDP 或 WebDriver BiDi）和 Firefox（WebDriver BiDi）。\n\nChrome 启动方式:\nWindows: chrome.exe --remote-debugging-port=9222\nmacOS: /Applications/Google\\ Chrome.app/Contents/MacOS/Google\\ Chrome --remote-debugging-port=9222\nLinux: google-chrome --remote-debugging-port=9222\n\nFirefox 启动方式:\nWindows: firefox.exe --remote-debugging-port 9222\nmacOS: /Applications/Firefox.app/Contents/MacOS/firefox --remote-debugging-port 9222\nLinux: firefox --remote-debugging-port 9222\n\nBiDi 连接到 ws://host:port/session；Chrome 使用 BiDi 时需要连接到提供该端点的 BiDi 服务（如 chromium-bidi）',
     inputSchema: {
       type: 'object',
       properties: {
@@ -88,6 +110,11 @@ const TOOLS: Tool[] = [
           enum: ['chrome', 'firefox'],
           default: 'chrome',
         },
+        protocol: {
+          type: 'string',
+          description: '调试协议后端：cdp（Chrome DevTools Protocol）或 bidi（WebDriver BiDi）。留空时 Chrome 使用 cdp，Firefox 使用 bidi',
+          enum: ['cdp', 'bidi'],
+        },
         host: {
           type: 'string',
           description: '浏览器调试主机地址',
@@ -95,19 +122,23 @@ const TOOLS: Tool[] = [
         },
         port: {
           type: 'number',
-          description: '浏览器调试端口（Chrome 默认 9222，Firefox 默认 6000）',
+          description: '浏览器调试端口',
           default: 9222,
         },
         tabIndex: {
           type: 'number',
           description: '要连接的标签页索引（从 0 开始，留空则连接第一个标签页）。使用 get_browser_tabs 查看所有可用标签页',
         },
+        tabId: {
+          type: 'string',
+          description: '要连接的标签页 ID（优先于 tabIndex，标签页增减时索引会变化，ID 不会）',
+        },
       },
     },
   },
   {
     name: 'get_browser_tabs',
-    description: '列出浏览器中所有可用的标签页，用于选择要连接的标签页',
+    description: '列出浏览器中所有可用的标签页，用于选择要连接的标签页。已附加的标签页会标注其会话 ID',
     inputSchema: {
       type: 'object',
       properties: {
@@ -117,6 +148,11 @@ const TOOLS: Tool[] = [
           enum: ['chrome', 'firefox'],
           default: 'chrome',
         },
+        protocol: {
+          type: 'string',
+          description: '调试协议后端：cdp（Chrome DevTools Protocol）或 bidi（WebDriver BiDi）。留空时 Chrome 使用 cdp，Firefox 使用 bidi',
+          enum: ['cdp', 'bidi'],
+        },
         host: {
           type: 'string',
           description: '浏览器调试主机地址',
@@ -124,15 +160,68 @@ const TOOLS: Tool[] = [
         },
         port: {
           type: 'number',
-          description: '浏览器调试端口（Chrome 默认 9222，Firefox 默认 6000）',
+          description: '浏览器调试端口',
           default: 9222,
         },
       },
     },
   },
+  {
+    name: 'launch_browser',
+    description: '启动本地 Chrome/Chromium（使用独立的临时配置目录）并自动连接，无需手动添加 --remote-debugging-port。适用于 CI 和无桌面的 Linux 环境',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        executablePath: {
+          type: 'string',
+          description: '浏览器可执行文件路径，留空时使用 BROWSER_LOGGER_CHROME_PATH 环境变量，否则查找本机安装的 Chrome',
+        },
+        headless: {
+          type: 'boolean',
+          description: '是否以无头模式启动',
+          default: true,
+        },
+        url: {
+          type: 'string',
+          description: '启动后打开的页面 URL（连接后再导航，可捕获页面加载期间的日志）',
+        },
+        args: {
+          type: 'array',
+          items: { type: 'string' },
+          description: '额外的浏览器启动参数，如 ["--window-size=1280,800", "--lang=zh-CN"]',
+        },
+      },
+    },
+  },
+  {
+    name: 'close_browser',
+    description: '关闭由 launch_browser 启动的浏览器并删除其临时配置目录。会话日志仍可查询',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: '该浏览器上任一会话的 ID，"all" 表示关闭所有已启动的浏览器；只启动了一个浏览器时可留空',
+        },
+      },
+    },
+  },
   {
     name: 'disconnect_browser',
-    description: '断开与浏览器的连接',
+    description: '断开与浏览器的连接。断开后会话的日志仍可查询，直到被清空',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: '要断开的会话 ID，"all" 或留空表示断开所有会话',
+        },
+      },
+    },
+  },
+  {
+    name: 'list_sessions',
+    description: '列出所有会话（每个已附加的标签页一个会话）及其连接状态和缓存数量',
     inputSchema: {
       type: 'object',
       properties: {},
@@ -140,16 +229,50 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'get_console_logs',
-    description: '获取浏览器控制台日志',
+    description: '获取浏览器控制台日志。支持按级别、来源、文本/正则、脚本 URL 和时间窗口过滤；每条日志带有 #ID，传入 afterId 可只获取该 ID 之后的新日志',
     inputSchema: {
       type: 'object',
       properties: {
         level: {
           type: 'string',
-          description: '过滤日志级别 (log, error, warning, info, debug)，留空获取所有',
-          enum: ['log', 'error', 'warning', 'info', 'debug', 'all'],
+          description: '过滤日志级别 (log, error, warning, info, debug)，可用逗号分隔多个级别，如 error,warning；留空或 all 获取所有',
           default: 'all',
         },
+        source: {
+          type: 'string',
+          description: '过滤日志来源，逗号分隔 (console-api, browser-log, javascript-exception 等)',
+        },
+        text: {
+          type: 'string',
+          description: '日志文本包含的子串（不区分大小写）',
+        },
+        textRegex: {
+          type: 'string',
+          description: '日志文本匹配的正则表达式（不区分大小写）',
+        },
+        url: {
+          type: 'string',
+          description: '脚本 URL 包含的子串',
+        },
+        target: TARGET_PROPERTY,
+        targetUrl: TARGET_URL_PROPERTY,
+        since: {
+          type: ['number', 'string'],
+          description: '起始时间（毫秒时间戳或 ISO 日期字符串）',
+        },
+        until: {
+          type: ['number', 'string'],
+          description: '结束时间（毫秒时间戳或 ISO 日期字符串）',
+        },
+        sinceNavigation: {
+          type: 'string',
+          description: '设为 "last" 只返回最近一次页面加载（导航或刷新）之后的日志',
+          enum: ['last'],
+        },
+        afterId: {
+          type: 'number',
+          description: '只返回 ID 大于该值的日志（按时间顺序），用于轮询新日志；留空则返回最近的日志',
+        },
         limit: {
           type: 'number',
           description: '返回的日志数量限制',
@@ -160,12 +283,36 @@ const TOOLS: Tool[] = [
           description: '获取后是否清空日志',
           default: false,
         },
+        sessionId: SESSION_PROPERTY,
+      },
+    },
+  },
+  {
+    name: 'expand_console_object',
+    description: '按日志 ID 展开 console 输出的对象参数（通过 Runtime.getProperties）。页面刷新或导航后对象会被释放，无法再展开',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        messageId: {
+          type: 'number',
+          description: '日志 ID（get_console_logs 输出中的 #ID）',
+        },
+        argIndex: {
+          type: 'number',
+          description: '要展开的参数索引（从 0 开始），留空展开所有参数',
+        },
+        depth: {
+          type: 'number',
+          description: '展开深度',
+          default: 2,
+        },
       },
+      required: ['messageId'],
     },
   },
   {
     name: 'get_network_requests',
-    description: '获取浏览器网络请求记录',
+    description: '获取浏览器网络请求记录。支持按 URL、类型、状态码、MIME 类型、耗时和时间窗口过滤，按时间/耗时/大小排序，并通过 cursor 分页遍历全部记录',
     inputSchema: {
       type: 'object',
       properties: {
@@ -174,9 +321,69 @@ const TOOLS: Tool[] = [
           description: '过滤请求方法 (GET, POST, PUT, DELETE 等)，留空获取所有',
           default: '',
         },
+        url: {
+          type: 'string',
+          description: 'URL 包含的子串（不区分大小写）',
+        },
+        urlRegex: {
+          type: 'string',
+          description: 'URL 匹配的正则表达式（不区分大小写）',
+        },
+        type: {
+          type: 'string',
+          description: '资源类型，逗号分隔 (Document, XHR, Fetch, Script, Stylesheet, Image, Font, Media, WebSocket, Other 等)',
+        },
+        status: {
+          type: 'string',
+          description: '状态码过滤，如 404、4xx、400-499，或逗号分隔的组合 4xx,5xx',
+        },
+        failedOnly: {
+          type: 'boolean',
+          description: '只返回失败的请求（网络错误、被阻止、被取消）',
+          default: false,
+        },
+        mimeType: {
+          type: 'string',
+          description: 'MIME 类型包含的子串，如 json、image/',
+        },
+        minDuration: {
+          type: 'number',
+          description: '最小耗时（毫秒）',
+        },
+        target: TARGET_PROPERTY,
+        targetUrl: TARGET_URL_PROPERTY,
+        since: {
+          type: ['number', 'string'],
+          description: '起始时间（毫秒时间戳或 ISO 日期字符串）',
+        },
+        until: {
+          type: ['number', 'string'],
+          description: '结束时间（毫秒时间戳或 ISO 日期字符串）',
+        },
+        sinceNavigation: {
+          type: 'string',
+          description: '设为 "last" 只返回最近一次页面加载（导航或刷新）之后的请求',
+          enum: ['last'],
+        },
+        sortBy: {
+          type: 'string',
+          description: '排序字段',
+          enum: ['time', 'duration', 'size'],
+          default: 'time',
+        },
+        order: {
+          type: 'string',
+          description: '排序方向，默认倒序（最新/最慢/最大的在前）',
+          enum: ['asc', 'desc'],
+          default: 'desc',
+        },
+        cursor: {
+          type: 'string',
+          description: '分页游标，传入上一页返回的 cursor 获取下一页',
+        },
         limit: {
           type: 'number',
-          description: '返回的请求数量限制',
+          description: '每页返回的请求数量',
           default: 50,
         },
         clear: {
@@ -184,436 +391,914 @@ const TOOLS: Tool[] = [
           description: '获取后是否清空记录',
           default: false,
         },
+        sessionId: SESSION_PROPERTY,
       },
     },
   },
   {
-    name: 'clear_logs',
-    description: '清空所有缓存的日志和网络请求记录',
+    name: 'get_websocket_messages',
+    description: '获取 WebSocket 帧和 Server-Sent Events 消息（仅 CDP），按时间顺序返回最近的消息，并列出相关连接。支持按连接类型、方向、URL、连接 ID、内容和时间窗口过滤；内容超过上限时截断',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        kind: {
+          type: 'string',
+          description: '连接类型，留空表示全部',
+          enum: ['websocket', 'sse'],
+        },
+        direction: {
+          type: 'string',
+          description: '方向：sent（页面发送）、received（页面接收）、error（帧错误），留空表示全部',
+          enum: ['sent', 'received', 'error'],
+        },
+        url: {
+          type: 'string',
+          description: '连接 URL 包含的子串',
+        },
+        connectionId: {
+          type: 'string',
+          description: '连接 ID（输出中的 #ID）',
+        },
+        text: {
+          type: 'string',
+          description: '消息内容包含的子串（不区分大小写）',
+        },
+        textRegex: {
+          type: 'string',
+          description: '消息内容匹配的正则表达式（不区分大小写）',
+        },
+        since: {
+          type: ['number', 'string'],
+          description: '起始时间（毫秒时间戳或 ISO 日期字符串）',
+        },
+        until: {
+          type: ['number', 'string'],
+          description: '结束时间（毫秒时间戳或 ISO 日期字符串）',
+        },
+        sinceNavigation: {
+          type: 'string',
+          description: '设为 "last" 只返回最近一次页面加载之后的消息',
+          enum: ['last'],
+        },
+        limit: {
+          type: 'number',
+          description: '返回的消息数量限制',
+          default: 50,
+        },
+        sessionId: SESSION_PROPERTY,
+      },
     },
   },
   {
-    name: 'evaluate_javascript',
-    description: '在浏览器中执行 JavaScript 代码并返回结果',
+    name: 'get_network_request_detail',
+    description: '获取单个网络请求的详细信息：请求/响应头、请求体、响应体、大小、失败原因以及 DNS/连接/TLS/TTFB/下载耗时分解。requestId 见 get_network_requests 输出中的 #ID',
     inputSchema: {
       type: 'object',
       properties: {
-        code: {
+        requestId: {
           type: 'string',
-          description: '要执行的 JavaScript 代码',
+          description: '请求 ID',
         },
-        context: {
+        includeBody: {
+          type: 'boolean',
+          description: '是否获取响应体',
+          default: true,
+        },
+        maxBodySize: {
+          type: 'number',
+          description: '响应体最大返回长度（字符），超出部分截断',
+          default: DEFAULT_MAX_BODY_SIZE,
+        },
+        sessionId: SESSION_PROPERTY,
+      },
+      required: ['requestId'],
+    },
+  },
+  {
+    name: 'get_error_summary',
+    description: '页面健康报告：将控制台错误、未捕获的异常和失败的网络请求（网络错误或 4xx/5xx）按指纹合并为分组，列出每组的次数、首次/最近出现时间、受影响的 URL 和样本堆栈，并指出最早出现的错误。分组在捕获时累计，不受日志缓存上限影响',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'number',
+          description: '每类错误最多返回的分组数（按出现次数排序）',
+          default: DEFAULT_ERROR_GROUP_LIMIT,
+        },
+        sessionId: SESSION_PROPERTY,
+      },
+    },
+  },
+  {
+    name: 'add_intercept_rule',
+    description: '添加请求拦截规则（CDP Fetch 域，仅 CDP）：拦截为失败、返回模拟响应、延迟或改写请求头，用于测试接口报错或变慢时前端的表现。同时作用于跨域 iframe、Worker 等子目标发出的请求。命中的请求在日志中标记为 [模拟] 或 [拦截]',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        urlPattern: {
           type: 'string',
-          description: '执行上下文 (console, page, 留空表示默认)',
-          default: '',
+          description: 'URL 通配符模式，* 匹配任意字符，? 匹配单个字符（如 "*/api/users*"）',
+          minLength: 1,
+        },
+        method: {
+          type: 'string',
+          description: '只匹配该 HTTP 方法',
+        },
+        action: {
+          type: 'string',
+          description: 'block: 拦截为失败；mock: 返回模拟响应，不发往服务器；continue: 放行（配合 delay、requestHeaders 使用）',
+          enum: ['block', 'mock', 'continue'],
+        },
+        status: {
+          type: 'number',
+          description: '模拟响应的状态码（mock）',
+          default: 200,
+        },
+        headers: {
+          type: 'object',
+          description: '模拟响应的响应头（mock），如 {"Content-Type": "application/json"}',
+          additionalProperties: { type: 'string' },
+        },
+        body: {
+          type: 'string',
+          description: '模拟响应的响应体（mock）',
+        },
+        delay: {
+          type: 'number',
+          description: '处理请求前的延迟（毫秒），适用于所有 action',
+        },
+        requestHeaders: {
+          type: 'object',
+          description: '放行时覆盖或添加的请求头（continue）',
+          additionalProperties: { type: 'string' },
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
         },
       },
-      required: ['code'],
+      required: ['urlPattern', 'action'],
     },
   },
   {
-    name: 'get_browser_info',
-    description: '获取浏览器信息（User Agent、版本等）',
+    name: 'list_intercept_rules',
+    description: '列出会话的请求拦截规则及命中次数',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
     },
   },
-];
-
-// Firefox 辅助函数：获取标签页列表
-async function getFirefoxTabs(host: string, port: number): Promise<Array<{ actor: string; title: string; url: string }>> {
-  const response = await fetch(`http://${host}:${port}/json/list`);
-  if (!response.ok) {
-    throw new Error(`无法连接到 Firefox 调试端口 ${port}`);
-  }
-  const data = await response.json();
-  return data;
-}
-
-// Firefox 辅助函数：连接到标签页
-async function connectToFirefoxTab(host: string, port: number, tabIndex: number): Promise<string> {
-  const tabs = await getFirefoxTabs(host, port);
-  if (!tabs || tabs.length === 0) {
-    throw new Error('Firefox 中没有打开的标签页');
-  }
-  if (tabIndex >= tabs.length) {
-    throw new Error(`标签页索引 ${tabIndex} 超出范围，共有 ${tabs.length} 个标签页`);
-  }
-
-  const tab = tabs[tabIndex];
-  const wsUrl = `ws://${host}:${port}${tab.actor}`;
-  browser.currentTab = tab.actor;
-
-  return new Promise((resolve, reject) => {
-    browser.ws = new WebSocket(wsUrl);
-
-    browser.ws.on('open', async () => {
-      browser.connected = true;
-
-      // Firefox 需要通过 WebSocket 发送消息来启用功能
-      // 发送初始消息以开始接收事件
-      await sendFirefoxCommand('consoleAPICall', {});
-      await sendFirefoxCommand('pageError', {});
-
-      resolve(`已连接到 Firefox (${tab.title} - ${tab.url})`);
-    });
-
-    setupWebSocketHandlers(resolve, reject);
-  });
-}
-
-// Chrome 辅助函数：获取标签页列表
-async function getChromeTabs(host: string, port: number): Promise<Array<{ id: string; title: string; url: string; webSocketDebuggerUrl: string }>> {
-  const response = await fetch(`http://${host}:${port}/json`);
-  if (!response.ok) {
-    throw new Error(`无法连接到 Chrome 调试端口 ${port}`);
-  }
-  const tabs = await response.json();
-  return tabs;
-}
-
-// Chrome 辅助函数：连接到标签页
-async function connectToChromeTab(host: string, port: number, tabIndex?: number): Promise<string> {
-  const tabs = await getChromeTabs(host, port);
-  if (!tabs || tabs.length === 0) {
-    throw new Error('Chrome 中没有打开的标签页');
-  }
-  if (tabIndex !== undefined && tabIndex >= tabs.length) {
-    throw new Error(`标签页索引 ${tabIndex} 超出范围，共有 ${tabs.length} 个标签页`);
-  }
-
-  const index = tabIndex ?? 0;
-  const tab = tabs[index];
-
-  if (!tab.webSocketDebuggerUrl) {
-    throw new Error('无法获取标签页的 WebSocket 调试 URL');
-  }
-
-  browser.currentTab = tab.id;
-
-  return new Promise((resolve, reject) => {
-    browser.ws = new WebSocket(tab.webSocketDebuggerUrl);
-
-    browser.ws.on('open', async () => {
-      browser.connected = true;
-
-      // 启用必要的 CDP 域
-      await sendCommand('Runtime.enable');
-      await sendCommand('Log.enable');
-      await sendCommand('Network.enable');
-      await sendCommand('Console.enable');
-
-      resolve(`已连接到 Chrome (${tab.title} - ${tab.url})`);
-    });
-
-    setupWebSocketHandlers(resolve, reject);
-  });
-}
-
-// 设置 WebSocket 消息处理器
-function setupWebSocketHandlers(resolve: (value: string) => void, reject: (reason?: Error) => void) {
-  if (!browser.ws) return;
-
-  browser.ws.on('message', (data: Buffer) => {
-    try {
-      const message = JSON.parse(data.toString());
-
-      // Chrome CDP 事件处理
-      if (browser.browserType === 'chrome') {
-        if (message.method === 'Runtime.consoleAPICalled') {
-          handleConsoleAPICalled(message.params);
-        } else if (message.method === 'Log.entryAdded') {
-          handleLogEntryAdded(message.params);
-        } else if (message.method === 'Network.requestWillBeSent') {
-          handleNetworkRequest(message.params);
-        } else if (message.method === 'Network.responseReceived') {
-          handleNetworkResponse(message.params);
-        } else if (message.method === 'Runtime.exceptionThrown') {
-          handleExceptionThrown(message.params);
-        }
-      }
-      // Firefox 调试协议事件处理
-      else if (browser.browserType === 'firefox') {
-        if (message.type === 'consoleAPICall') {
-          handleFirefoxConsoleAPI(message);
-        } else if (message.type === 'pageError') {
-          handleFirefoxPageError(message);
-        }
-      }
-    } catch (error) {
-      console.error('[MCP] 处理消息失败:', error);
-    }
-  });
-
-  browser.ws.on('error', (error) => {
-    browser.connected = false;
-    reject(new Error(`WebSocket 连接错误: ${error}`));
-  });
-
-  browser.ws.on('close', () => {
-    browser.connected = false;
-    browser.ws = null;
-  });
-}
-
-// 主连接函数
-async function connectToBrowser(browserType: 'chrome' | 'firefox', host: string, port: number, tabIndex?: number): Promise<string> {
-  if (browser.connected && browser.ws) {
-    return `已经连接到 ${browserType}`;
-  }
-
-  browser.browserType = browserType;
-
-  try {
-    if (browserType === 'firefox') {
-      const index = tabIndex ?? 0;
-      return await connectToFirefoxTab(host, port, index);
-    } else {
-      return await connectToChromeTab(host, port, tabIndex);
-    }
-  } catch (error) {
-    browser.connected = false;
-    browser.ws = null;
-    browser.browserType = null;
-    browser.currentTab = null;
-    throw error;
-  }
-}
-
-// 发送 CDP 命令
-function sendCommand(method: string, params?: Record<string, unknown>): Promise<unknown> {
-  return new Promise((resolve, reject) => {
-    if (!browser.ws || !browser.connected) {
-      reject(new Error('浏览器未连接'));
-      return;
-    }
-
-    const id = browser.nextMessageId++;
-    const message = { id, method, params };
-
-    browser.ws.once('message', (data: Buffer) => {
-      try {
-        const response = JSON.parse(data.toString());
-        if (response.id === id) {
-          if (response.error) {
-            reject(new Error(`CDP 错误: ${response.error.message}`));
-          } else {
-            resolve(response.result);
-          }
-        }
-      } catch (error) {
-        reject(error);
-      }
-    });
-
-    browser.ws.send(JSON.stringify(message));
-  });
-}
-
-// 发送 Firefox 调试命令
-function sendFirefoxCommand(type: string, message: Record<string, unknown>): Promise<unknown> {
-  return new Promise((resolve, reject) => {
-    if (!browser.ws || !browser.connected) {
-      reject(new Error('浏览器未连接'));
-      return;
-    }
-
-    const packet = {
-      to: browser.currentTab,
-      type,
-      message,
-    };
-
-    // Firefox 协议是单向的，不等待响应
-    browser.ws.send(JSON.stringify(packet));
-    resolve(undefined);
-  });
-}
-
-// 处理 Firefox 控制台 API
-function handleFirefoxConsoleAPI(data: { message: { level: string; arguments: Array<unknown> } }) {
-  const level = data.message.level as ConsoleMessage['level'];
-  const args = data.message.arguments;
-
-  const message: ConsoleMessage = {
-    level,
-    source: 'firefox-console',
-    text: args.map(arg => String(arg)).join(' '),
-    timestamp: Date.now(),
-    args: args as Array<unknown>,
-  };
-
-  addMessage(message);
-}
-
-// 处理 Firefox 页面错误
-function handleFirefoxPageError(data: { pageError: { errorMessage: string; sourceName?: string; lineNumber?: number } }) {
-  const error = data.pageError;
-
-  const message: ConsoleMessage = {
-    level: 'error',
-    source: 'firefox-error',
-    text: error.errorMessage,
-    timestamp: Date.now(),
-    url: error.sourceName,
-    lineNumber: error.lineNumber,
-  };
-
-  addMessage(message);
-}
-
-// 处理控制台 API 调用
-function handleConsoleAPICalled(params: { type: string; args: Array<{ type: string; value: string }> }) {
-  const level = params.type as ConsoleMessage['level'];
-  const args = params.args.map((arg) => {
-    if (arg.type === 'string' || arg.type === 'number' || arg.type === 'boolean') {
-      return arg.value;
-    }
-    return JSON.stringify(arg);
-  });
-
-  const message: ConsoleMessage = {
-    level,
-    source: 'console-api',
-    text: args.join(' '),
-    timestamp: Date.now(),
-    args: params.args,
-  };
-
-  addMessage(message);
-}
-
-// 处理日志条目
-function handleLogEntryAdded(params: { entry: { level: string; url?: string; lineNumber?: number; text: string } }) {
-  const entry = params.entry;
-
-  const message: ConsoleMessage = {
-    level: entry.level as ConsoleMessage['level'],
-    source: 'browser-log',
-    text: entry.text,
-    timestamp: Date.now(),
-    url: entry.url,
-    lineNumber: entry.lineNumber,
-  };
-
-  addMessage(message);
-}
-
-// 处理网络请求
-function handleNetworkRequest(params: { requestId: string; request: { method: string; url: string; headers?: Record<string, string>; postData?: string }; timestamp: number; type?: string }) {
-  const request: NetworkRequest = {
-    requestId: params.requestId,
-    method: params.request.method,
-    url: params.request.url,
-    type: params.type,
-    timestamp: params.timestamp || Date.now(),
-    requestHeaders: params.request.headers,
-    postData: params.request.postData,
-  };
-
-  addNetworkRequest(request);
-}
-
-// 处理网络响应
-function handleNetworkResponse(params: { requestId: string; response: { status: number; mimeType: string; headers: Record<string, string> }; timestamp: number }) {
-  const existingRequest = browser.networkRequests.find((r) => r.requestId === params.requestId);
-  if (existingRequest) {
-    existingRequest.status = params.response.status;
-    existingRequest.mimeType = params.response.mimeType;
-    existingRequest.responseHeaders = params.response.headers;
-    existingRequest.timing = {
-      requestTime: existingRequest.timing?.requestTime || existingRequest.timestamp,
-      responseTime: params.timestamp,
-      duration: params.timestamp - existingRequest.timestamp,
-    };
-  }
-}
-
-// 处理 JavaScript 异常
-function handleExceptionThrown(params: { exceptionDetails: { exception?: { description?: string }; url?: string; lineNumber?: number; columnNumber?: number; stackTrace?: string } }) {
-  const details = params.exceptionDetails;
-
-  const message: ConsoleMessage = {
-    level: 'error',
-    source: 'javascript-exception',
-    text: details.exception?.description || '未捕获的异常',
-    timestamp: Date.now(),
-    url: details.url,
-    lineNumber: details.lineNumber,
-    columnNumber: details.columnNumber,
-    stackTrace: details.stackTrace,
-  };
-
-  addMessage(message);
-}
-
-// 添加消息到缓存
-function addMessage(message: ConsoleMessage) {
-  browser.messages.push(message);
-
-  // 限制缓存大小
-  if (browser.messages.length > browser.maxMessages) {
-    browser.messages.shift();
-  }
-}
-
-// 添加网络请求到缓存
-function addNetworkRequest(request: NetworkRequest) {
-  browser.networkRequests.push(request);
-
-  // 限制缓存大小
-  if (browser.networkRequests.length > browser.maxMessages) {
-    browser.networkRequests.shift();
-  }
-}
-
-// 格式化日志消息
-function formatMessage(message: ConsoleMessage): string {
-  const time = new Date(message.timestamp).toLocaleTimeString('zh-CN');
-  const level = message.level.toUpperCase().padEnd(5);
-  const source = message.source.padEnd(20);
-
-  let text = `[${time}] [${level}] [${source}] ${message.text}`;
-
-  if (message.url) {
-    text += `\n    位置: ${message.url}`;
-    if (message.lineNumber !== undefined) {
-      text += `:${message.lineNumber}`;
-      if (message.columnNumber !== undefined) {
-        text += `:${message.columnNumber}`;
-      }
-    }
-  }
-
-  if (message.stackTrace) {
-    text += `\n    堆栈: ${message.stackTrace}`;
-  }
-
-  return text;
-}
-
-// 格式化网络请求
-function formatNetworkRequest(request: NetworkRequest): string {
-  const time = new Date(request.timestamp).toLocaleTimeString('zh-CN');
-  const status = request.status ? String(request.status).padEnd(3) : 'PND';
-  const method = request.method.padEnd(6);
-
-  let text = `[${time}] [${status}] [${method}] ${request.url}`;
-
-  if (request.type) {
-    text += ` (${request.type})`;
-  }
-
-  if (request.timing?.duration) {
-    text += ` - ${request.timing.duration.toFixed(0)}ms`;
-  }
-
-  return text;
-}
+  {
+    name: 'remove_intercept_rule',
+    description: '移除请求拦截规则',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ruleId: {
+          type: 'string',
+          description: '规则 ID（如 i1），"all" 移除全部',
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+      required: ['ruleId'],
+    },
+  },
+  {
+    name: 'emulate',
+    description: '设置网络节流/离线、CPU 降速、视口/设备、User Agent、地理位置、时区和语言仿真（仅 CDP），用于复现只在慢网络或移动端出现的问题。只修改传入的项；不传任何设置时返回当前仿真状态。之后捕获的日志和请求会记录当时生效的仿真配置',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        network: {
+          type: 'string',
+          description: '网络预设，none 恢复默认',
+          enum: ['none', ...Object.keys(NETWORK_PRESETS)],
+        },
+        latency: {
+          type: 'number',
+          description: '自定义网络延迟（毫秒），覆盖预设值',
+        },
+        downloadKbps: {
+          type: 'number',
+          description: '自定义下行带宽（kbps），覆盖预设值',
+        },
+        uploadKbps: {
+          type: 'number',
+          description: '自定义上行带宽（kbps），覆盖预设值',
+        },
+        cpuThrottling: {
+          type: 'number',
+          description: 'CPU 降速倍数（如 4 表示慢 4 倍），1 恢复默认',
+        },
+        device: {
+          type: 'string',
+          description: '设备预设（视口尺寸、像素比、触摸和 User Agent），none 恢复默认',
+          enum: ['none', ...Object.keys(DEVICE_PRESETS)],
+        },
+        width: {
+          type: 'number',
+          description: '视口宽度（CSS 像素），覆盖设备预设',
+        },
+        height: {
+          type: 'number',
+          description: '视口高度（CSS 像素），覆盖设备预设',
+        },
+        deviceScaleFactor: {
+          type: 'number',
+          description: '设备像素比；未指定 device、width、height 时修改当前视口',
+        },
+        mobile: {
+          type: 'boolean',
+          description: '是否按移动端渲染并启用触摸；未指定 device、width、height 时修改当前视口',
+        },
+        userAgent: {
+          type: 'string',
+          description: 'User Agent，空字符串恢复默认',
+        },
+        latitude: {
+          type: 'number',
+          description: '纬度（需同时指定 longitude）',
+        },
+        longitude: {
+          type: 'number',
+          description: '经度',
+        },
+        accuracy: {
+          type: 'number',
+          description: '定位精度（米）',
+          default: 100,
+        },
+        timezone: {
+          type: 'string',
+          description: 'IANA 时区（如 Asia/Shanghai），空字符串恢复默认',
+        },
+        locale: {
+          type: 'string',
+          description: '语言区域（如 en-US），同时设置 Accept-Language，空字符串恢复默认',
+        },
+        reset: {
+          type: 'boolean',
+          description: '先恢复所有仿真项的默认值，再应用本次传入的设置',
+          default: false,
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_performance_metrics',
+    description: '获取页面性能指标（仅 CDP）：Core Web Vitals（LCP、CLS、INP、FID、FCP、TTFB）、长任务，以及 JS 堆、DOM 节点数、布局/样式计算次数和脚本耗时等运行时指标。首次调用时注入 PerformanceObserver 收集脚本',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+    },
+  },
+  {
+    name: 'record_trace',
+    description: '录制性能 trace（仅 CDP）：录制指定秒数后保存为 JSON 文件（可在 DevTools 性能面板中加载），并返回最长任务及其中耗时最多的脚本',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        duration: {
+          type: 'number',
+          description: '录制时长（秒），最长 60',
+          default: DEFAULT_TRACE_DURATION,
+        },
+        path: {
+          type: 'string',
+          description: 'trace 文件保存路径，留空保存到临时目录',
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+    },
+  },
+  {
+    name: 'start_coverage',
+    description: '开始收集 JS 和 CSS 代码覆盖率（仅 CDP），用于查找一段操作流程中未使用的代码；完成操作后调用 stop_coverage',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+    },
+  },
+  {
+    name: 'stop_coverage',
+    description: '停止收集覆盖率，返回每个脚本和样式表的已使用/未使用大小，按未使用大小排序；可导出原始覆盖率 JSON，有 source map 时附带按源码文件的统计',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'number',
+          description: '最多列出的文件数',
+          default: DEFAULT_COVERAGE_LIMIT,
+        },
+        path: {
+          type: 'string',
+          description: '导出原始覆盖率 JSON 的文件路径，留空不导出',
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_cookies',
+    description: '列出当前页面（含 iframe）可见的 Cookie 及其域名、路径、过期时间和 HttpOnly/Secure/SameSite 属性，包括脚本无法读取的 HttpOnly Cookie（仅 CDP）。启用脱敏时不显示 Cookie 的值',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Cookie 名称（精确匹配）',
+        },
+        domain: {
+          type: 'string',
+          description: '域名包含的子串',
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+    },
+  },
+  {
+    name: 'set_cookie',
+    description: '设置 Cookie（仅 CDP）。未指定 url 和 domain 时作用于当前页面',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Cookie 名称',
+        },
+        value: {
+          type: 'string',
+          description: 'Cookie 值',
+        },
+        url: {
+          type: 'string',
+          description: 'Cookie 所属的 URL，默认为当前页面',
+        },
+        domain: {
+          type: 'string',
+          description: 'Cookie 域名，如 .example.com',
+        },
+        path: {
+          type: 'string',
+          description: 'Cookie 路径',
+        },
+        secure: {
+          type: 'boolean',
+          description: '是否只在 HTTPS 下发送',
+        },
+        httpOnly: {
+          type: 'boolean',
+          description: '是否禁止脚本读取',
+        },
+        sameSite: {
+          type: 'string',
+          description: 'SameSite 属性',
+          enum: ['Strict', 'Lax', 'None'],
+        },
+        expires: {
+          type: 'number',
+          description: '过期时间（秒级 Unix 时间戳），留空为会话 Cookie',
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+      required: ['name', 'value'],
+    },
+  },
+  {
+    name: 'delete_cookies',
+    description: '删除当前页面可见的 Cookie（仅 CDP）。不指定任何条件时删除全部',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          description: 'Cookie 名称（精确匹配）',
+        },
+        domain: {
+          type: 'string',
+          description: '域名包含的子串',
+        },
+        path: {
+          type: 'string',
+          description: 'Cookie 路径（精确匹配）',
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_web_storage',
+    description: '查看当前页面来源的 localStorage 或 sessionStorage（仅 CDP）：不指定 key 时列出所有键和值的预览，指定 key 时返回完整值',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        storage: WEB_STORAGE_PROPERTY,
+        key: {
+          type: 'string',
+          description: '要读取的键',
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+    },
+  },
+  {
+    name: 'set_web_storage_item',
+    description: '设置当前页面来源的 localStorage 或 sessionStorage 中的键（仅 CDP）',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        storage: WEB_STORAGE_PROPERTY,
+        key: {
+          type: 'string',
+          description: '键',
+        },
+        value: {
+          type: 'string',
+          description: '值',
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+      required: ['key', 'value'],
+    },
+  },
+  {
+    name: 'remove_web_storage_item',
+    description: '删除当前页面来源的 localStorage 或 sessionStorage 中的键（仅 CDP）。不指定 key 时清空整个存储',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        storage: WEB_STORAGE_PROPERTY,
+        key: {
+          type: 'string',
+          description: '要删除的键',
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+    },
+  },
+  {
+    name: 'list_indexeddb',
+    description: '列出当前页面来源的 IndexedDB 数据库、对象存储（键路径、自增、记录数）和索引（仅 CDP）',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_indexeddb_records',
+    description: '分页读取 IndexedDB 对象存储中的记录（仅 CDP），可按索引顺序读取',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        database: {
+          type: 'string',
+          description: '数据库名称',
+        },
+        store: {
+          type: 'string',
+          description: '对象存储名称',
+        },
+        index: {
+          type: 'string',
+          description: '索引名称，留空按主键顺序读取',
+        },
+        skip: {
+          type: 'number',
+          description: '跳过的记录数，用于翻页',
+          default: 0,
+        },
+        limit: {
+          type: 'number',
+          description: '返回的记录数（最多 100）',
+          default: DEFAULT_RECORD_PAGE_SIZE,
+        },
+        depth: {
+          type: 'number',
+          description: '记录值的展开深度',
+          default: 2,
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+      required: ['database', 'store'],
+    },
+  },
+  {
+    name: 'clear_indexeddb',
+    description: '清空 IndexedDB 对象存储中的所有记录；不指定 store 时删除整个数据库（仅 CDP）',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        database: {
+          type: 'string',
+          description: '数据库名称',
+        },
+        store: {
+          type: 'string',
+          description: '对象存储名称',
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+      required: ['database'],
+    },
+  },
+  {
+    name: 'wait_for_console',
+    description: '等待匹配的控制台日志出现并返回该日志（例如点击按钮后等待报错）。超时未出现时返回错误',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        level: {
+          type: 'string',
+          description: '日志级别，多个用逗号分隔（如 "error" 或 "error,warning"）',
+        },
+        source: {
+          type: 'string',
+          description: '日志来源，多个用逗号分隔（如 console-api、javascript-exception）',
+        },
+        text: {
+          type: 'string',
+          description: '日志文本包含的子串（不区分大小写）',
+        },
+        textRegex: {
+          type: 'string',
+          description: '日志文本匹配的正则表达式（不区分大小写）',
+        },
+        url: {
+          type: 'string',
+          description: '脚本 URL 包含的子串',
+        },
+        target: TARGET_PROPERTY,
+        targetUrl: TARGET_URL_PROPERTY,
+        since: {
+          type: ['number', 'string'],
+          description: '同时匹配该时间之后已捕获的日志（毫秒时间戳或 ISO 日期字符串），避免操作后日志在调用前已到达而错过；留空只等待新日志',
+        },
+        timeout: {
+          type: 'number',
+          description: '最长等待时间（毫秒），最大 300000',
+          default: DEFAULT_WAIT_TIMEOUT,
+        },
+        sessionId: SESSION_PROPERTY,
+      },
+    },
+  },
+  {
+    name: 'wait_for_request',
+    description: '等待匹配的网络请求完成（成功或失败）并返回该请求（例如点击按钮后等待 API 返回）。超时未出现时返回错误',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        method: {
+          type: 'string',
+          description: 'HTTP 方法（如 GET、POST）',
+        },
+        url: {
+          type: 'string',
+          description: 'URL 包含的子串（不区分大小写）',
+        },
+        urlRegex: {
+          type: 'string',
+          description: 'URL 匹配的正则表达式（不区分大小写）',
+        },
+        type: {
+          type: 'string',
+          description: '资源类型，多个用逗号分隔（如 xhr,fetch）',
+        },
+        status: {
+          type: 'string',
+          description: '状态码过滤：404、4xx、400-499，或逗号分隔的组合（如 4xx,5xx）',
+        },
+        failedOnly: {
+          type: 'boolean',
+          description: '只匹配失败的请求（网络错误、被拦截、已取消等）',
+          default: false,
+        },
+        target: TARGET_PROPERTY,
+        targetUrl: TARGET_URL_PROPERTY,
+        since: {
+          type: ['number', 'string'],
+          description: '同时匹配该时间之后已完成的请求（毫秒时间戳或 ISO 日期字符串）；留空只等待新完成的请求',
+        },
+        timeout: {
+          type: 'number',
+          description: '最长等待时间（毫秒），最大 300000',
+          default: DEFAULT_WAIT_TIMEOUT,
+        },
+        sessionId: SESSION_PROPERTY,
+      },
+    },
+  },
+  {
+    name: 'export_har',
+    description: '将捕获的网络请求导出为 HAR 1.2 文件（含请求/响应头、耗时，以及可获取到的响应体），每个会话作为一个页面',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'HAR 文件保存路径',
+        },
+        includeBodies: {
+          type: 'boolean',
+          description: '是否包含响应体（从浏览器获取文本响应，会话需保持连接）',
+          default: true,
+        },
+        maxBodySize: {
+          type: 'number',
+          description: '单个响应体最大长度（字符），超出部分截断',
+          default: DEFAULT_MAX_BODY_SIZE,
+        },
+        sessionId: SESSION_PROPERTY,
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'import_har',
+    description: '从 HAR 文件导入网络请求到缓存，导入后可使用 get_network_requests 等工具查询',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'HAR 文件路径',
+        },
+        sessionId: {
+          type: 'string',
+          description: '导入到的会话 ID，留空则创建一个新的离线会话',
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'clear_logs',
+    description: '清空缓存的日志、网络请求记录、WebSocket/SSE 消息、已关闭的 WebSocket/SSE 连接和错误分组；仍打开的连接保留',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: SESSION_PROPERTY,
+      },
+    },
+  },
+  {
+    name: 'evaluate_javascript',
+    description: '在浏览器中执行 JavaScript 代码并返回结果。受配置的安全策略限制（evaluate、evaluateOrigins、evaluateTimeout），每次执行都会写入审计日志（如已配置）',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        code: {
+          type: 'string',
+          description: '要执行的 JavaScript 代码',
+        },
+        context: {
+          type: 'string',
+          description: '执行上下文 (console, page, 留空表示默认)',
+          default: '',
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话（最近连接的会话），"all" 表示在所有已连接的会话中执行',
+        },
+      },
+      required: ['code'],
+    },
+  },
+  {
+    name: 'get_browser_info',
+    description: '获取浏览器信息（User Agent、版本等）',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+    },
+  },
+  {
+    name: 'navigate',
+    description: '在标签页中打开 URL 并等待加载完成，加载期间的日志和请求照常捕获（仅 CDP）',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        url: {
+          type: 'string',
+          description: '目标 URL',
+        },
+        waitUntil: {
+          type: 'string',
+          description: '等待条件：load（load 事件）、networkidle（load 后网络空闲 500ms）、none（不等待）',
+          enum: ['load', 'networkidle', 'none'],
+          default: 'load',
+        },
+        timeout: {
+          type: 'number',
+          description: '最长等待时间（毫秒）',
+          default: DEFAULT_NAVIGATION_TIMEOUT,
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+      required: ['url'],
+    },
+  },
+  {
+    name: 'reload',
+    description: '刷新页面并等待加载完成（仅 CDP）',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ignoreCache: {
+          type: 'boolean',
+          description: '是否忽略缓存（相当于强制刷新）',
+          default: false,
+        },
+        waitUntil: {
+          type: 'string',
+          description: '等待条件：load（load 事件）、networkidle（load 后网络空闲 500ms）、none（不等待）',
+          enum: ['load', 'networkidle', 'none'],
+          default: 'load',
+        },
+        timeout: {
+          type: 'number',
+          description: '最长等待时间（毫秒）',
+          default: DEFAULT_NAVIGATION_TIMEOUT,
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+    },
+  },
+  {
+    name: 'capture_screenshot',
+    description: '截取页面截图，返回图片（仅 CDP）。默认截取可见区域，可截取整个页面或单个元素',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        selector: {
+          type: 'string',
+          description: '只截取匹配该 CSS 选择器的第一个元素',
+        },
+        fullPage: {
+          type: 'boolean',
+          description: '截取整个页面（包括滚动区域）',
+          default: false,
+        },
+        format: {
+          type: 'string',
+          description: '图片格式',
+          enum: ['png', 'jpeg'],
+          default: 'png',
+        },
+        quality: {
+          type: 'number',
+          description: 'JPEG 质量（0-100）',
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+    },
+  },
+  {
+    name: 'click',
+    description: '点击匹配 CSS 选择器的元素（滚动到可见区域后点击其中心，通过 Input.dispatchMouseEvent 模拟真实鼠标事件，仅 CDP）',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        selector: {
+          type: 'string',
+          description: 'CSS 选择器',
+        },
+        button: {
+          type: 'string',
+          description: '鼠标按键',
+          enum: ['left', 'right', 'middle'],
+          default: 'left',
+        },
+        clickCount: {
+          type: 'number',
+          description: '点击次数（2 为双击）',
+          default: 1,
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+      required: ['selector'],
+    },
+  },
+  {
+    name: 'type',
+    description: '逐字符输入文本（通过 Input.dispatchKeyEvent，仅 CDP）。指定 selector 时先点击聚焦该元素，否则输入到当前焦点元素',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: {
+          type: 'string',
+          description: '要输入的文本，换行符按 Enter 处理',
+        },
+        selector: {
+          type: 'string',
+          description: '输入框的 CSS 选择器',
+        },
+        clear: {
+          type: 'boolean',
+          description: '输入前清空原有内容（需指定 selector）',
+          default: false,
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+      required: ['text'],
+    },
+  },
+  {
+    name: 'press_key',
+    description: '按下并释放一个按键（仅 CDP），支持组合键',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        key: {
+          type: 'string',
+          description: '按键：单个字符或 Enter、Tab、Escape、Backspace、Delete、Space、ArrowUp/Down/Left/Right、Home、End、PageUp、PageDown；组合键用 + 连接修饰键（Control、Alt、Shift、Meta），如 "Control+A"',
+        },
+        sessionId: {
+          type: 'string',
+          description: '会话 ID，留空表示当前会话',
+        },
+      },
+      required: ['key'],
+    },
+  },
+];
 
 // 主函数
 async function main() {
@@ -625,6 +1310,7 @@ async function main() {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true },
       },
     }
   );
@@ -634,35 +1320,38 @@ async function main() {
     return { tools: TOOLS };
   });
 
+  // 日志和网络请求以资源形式提供，支持订阅更新
+  registerResources(server);
+
   // 处理工具调用
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
 
     try {
       switch (name) {
         case 'connect_browser': {
-          const browserType = (args?.browserType as 'chrome' | 'firefox') || 'chrome';
+          const browserType = (args?.browserType as BrowserType) || 'chrome';
+          const protocol = (args?.protocol as ProtocolType) || defaultProtocol(browserType);
           const host = (args?.host as string) || 'localhost';
-          const port = (args?.port as number) || (browserType === 'firefox' ? 6000 : 9222);
+          const port = (args?.port as number) || 9222;
           const tabIndex = args?.tabIndex as number | undefined;
-          const result = await connectToBrowser(browserType, host, port, tabIndex);
+          const tabId = args?.tabId as string | undefined;
+          checkHost(host);
+          const { text } = await connectToBrowser(browserType, protocol, host, port, tabIndex, tabId);
           return {
-            content: [{ type: 'text', text: result }],
+            content: [{ type: 'text', text }],
           };
         }
 
         case 'get_browser_tabs': {
-          const browserType = (args?.browserType as 'chrome' | 'firefox') || 'chrome';
+          const browserType = (args?.browserType as BrowserType) || 'chrome';
+          const protocol = (args?.protocol as ProtocolType) || defaultProtocol(browserType);
           const host = (args?.host as string) || 'localhost';
-          const port = (args?.port as number) || (browserType === 'firefox' ? 6000 : 9222);
+          const port = (args?.port as number) || 9222;
+          checkHost(host);
 
           try {
-            let tabs: Array<Record<string, string>>;
-            if (browserType === 'firefox') {
-              tabs = await getFirefoxTabs(host, port);
-            } else {
-              tabs = await getChromeTabs(host, port);
-            }
+            const tabs = await getTabs(browserType, protocol, host, port);
 
             if (tabs.length === 0) {
               return {
@@ -671,7 +1360,9 @@ async function main() {
             }
 
             const text = tabs.map((tab, index) => {
-              return `[${index}] ${tab.title}\n    URL: ${tab.url}`;
+              const session = findSessionByTarget(browserType, protocol, host, port, tab.id);
+              const attached = session?.connected ? ` (已附加: ${session.id})` : '';
+              return `[${index}] ${tab.title}${attached}\n    ID: ${tab.id}\n    URL: ${tab.url}`;
             }).join('\n\n');
 
             return {
@@ -685,120 +1376,673 @@ async function main() {
           }
         }
 
+        case 'launch_browser': {
+          const { launched, session } = await launchBrowser({
+            executablePath: (args?.executablePath as string) || undefined,
+            headless: args?.headless !== false,
+            url: (args?.url as string) || undefined,
+            args: (args?.args as string[]) || [],
+          });
+          return {
+            content: [{ type: 'text', text: `已启动浏览器 ${launched.executablePath}（调试端口 ${launched.port}，配置目录 ${launched.profileDir}），会话 ID: ${session.id}` }],
+          };
+        }
+
+        case 'close_browser': {
+          const sessionId = args?.sessionId as string | undefined;
+          let targets: LaunchedBrowser[];
+          if (sessionId === 'all') {
+            targets = [...launchedBrowsers.values()];
+          } else if (sessionId) {
+            const launched = findLaunchedBrowser(getSession(sessionId));
+            if (!launched) {
+              throw new Error(`会话 ${sessionId} 所在的浏览器不是由 launch_browser 启动的`);
+            }
+            targets = [launched];
+          } else if (launchedBrowsers.size > 1) {
+            throw new Error(`已启动 ${launchedBrowsers.size} 个浏览器，请指定 sessionId 或 "all"`);
+          } else {
+            targets = [...launchedBrowsers.values()];
+          }
+
+          if (targets.length === 0) {
+            return {
+              content: [{ type: 'text', text: '没有由 launch_browser 启动的浏览器' }],
+            };
+          }
+
+          await Promise.all(targets.map(closeLaunchedBrowser));
+          const ports = targets.map((launched) => launched.port).join(', ');
+          return {
+            content: [{ type: 'text', text: `已关闭 ${targets.length} 个浏览器（调试端口 ${ports}）` }],
+          };
+        }
+
         case 'disconnect_browser': {
-          if (browser.ws) {
-            browser.ws.close();
-            browser.ws = null;
+          const sessionId = args?.sessionId as string | undefined;
+          if (!sessionId || sessionId === 'all') {
+            disconnectAll();
+            return {
+              content: [{ type: 'text', text: '已断开所有浏览器连接' }],
+            };
+          }
+
+          disconnectSession(getSession(sessionId));
+          return {
+            content: [{ type: 'text', text: `已断开会话 ${sessionId}` }],
+          };
+        }
+
+        case 'list_sessions': {
+          if (sessions.size === 0) {
+            return {
+              content: [{ type: 'text', text: '暂无会话，请先使用 connect_browser 连接浏览器' }],
+            };
           }
-          browser.connected = false;
-          browser.browserType = null;
-          browser.currentTab = null;
+
+          const text = [...sessions.values()].map((session) => {
+            const stored = describeStoredSession(session);
+            if (stored) {
+              return `${describeSession(session)}\n    ${stored}`;
+            }
+
+            let line = `${describeSession(session)}\n    日志: ${session.messages.length} 条, 网络请求: ${session.networkRequests.length} 条`;
+            const navigation = currentNavigation(session);
+            if (navigation) {
+              const loaded = navigation.loadedAt ? '，已加载' : '';
+              line += `\n    当前页面加载 #${navigation.id}: ${navigation.url}（${new Date(navigation.timestamp).toLocaleTimeString('zh-CN')}${loaded}），共 ${session.navigations.length} 次`;
+            }
+            if (session.children.size > 0) {
+              line += `\n    子目标: ${describeChildTargets(session)}`;
+            }
+            if (session.emulationProfile) {
+              line += `\n    仿真: ${session.emulationProfile}`;
+            }
+            return line;
+          }).join('\n\n');
+
           return {
-            content: [{ type: 'text', text: '已断开浏览器连接' }],
+            content: [{ type: 'text', text: `共 ${sessions.size} 个会话:\n\n${text}` }],
           };
         }
 
         case 'get_console_logs': {
-          const level = (args?.level as string) || 'all';
-          const limit = (args?.limit as number) || 50;
+          const query = parseConsoleQuery(args);
           const clear = (args?.clear as boolean) || false;
+          const targets = resolveSessions(args?.sessionId as string | undefined);
 
-          let messages = browser.messages;
+          const history = await loadConsoleHistory(targets, (session) => consoleHistoryWindow(session, query));
+          const result = queryConsoleMessages(targets, query, history.entries);
+
+          if (clear) {
+            targets.forEach((session) => { session.messages = []; });
+            await clearStoredEntries(targets, 'console');
+          }
 
-          if (level !== 'all') {
-            messages = messages.filter((m) => m.level === level);
+          if (result.items.length === 0) {
+            const text = query.afterId !== undefined ? `暂无新的控制台日志（afterId: ${query.afterId}）` : '暂无控制台日志';
+            return {
+              content: [{ type: 'text', text }],
+            };
           }
 
-          const limited = messages.slice(-limit);
+          const showSession = targets.length > 1;
+          const text = result.items.map((m) => formatMessage(m, showSession)).join('\n\n');
+          const more = result.hasMore ? '，还有更多新日志' : '';
+          const footer = `\n\n最新日志 ID: ${result.lastId}${more}（传入 afterId: ${result.lastId} 获取之后的日志）`;
+          return {
+            content: [{ type: 'text', text: `共${history.partial ? '至少' : ''} ${result.total} 条匹配，返回 ${result.items.length} 条日志:\n\n${text}${footer}` }],
+          };
+        }
+
+        case 'expand_console_object': {
+          const messageId = args?.messageId as number;
+          const argIndex = args?.argIndex as number | undefined;
+          const depth = (args?.depth as number) || 2;
+          const text = await expandConsoleMessage(messageId, depth, argIndex);
+          return {
+            content: [{ type: 'text', text: `日志 #${messageId} 的参数:\n${text}` }],
+          };
+        }
+
+        case 'get_network_requests': {
+          const query = parseNetworkQuery(args);
+          const clear = (args?.clear as boolean) || false;
+          const targets = resolveSessions(args?.sessionId as string | undefined);
+
+          const history = await loadNetworkHistory(targets, (session) => networkHistoryWindow(session, query));
+          const page = queryNetworkRequests(targets, query, history.entries);
+          // 按时间排序时存储中只读取了游标之后的请求，总数不含之前的页
+          const partial = history.partial || (query.cursor !== undefined && query.sortBy === 'time' && history.entries.size > 0);
 
           if (clear) {
-            browser.messages = [];
+            targets.forEach((session) => { session.networkRequests = []; });
+            await clearStoredEntries(targets, 'network');
           }
 
-          if (limited.length === 0) {
+          if (page.items.length === 0) {
             return {
-              content: [{ type: 'text', text: '暂无控制台日志' }],
+              content: [{ type: 'text', text: '暂无网络请求记录' }],
             };
           }
 
-          const text = limited.map(formatMessage).join('\n\n');
+          const showSession = targets.length > 1;
+          const text = page.items.map((r) => formatNetworkRequest(r, showSession)).join('\n');
           return {
-            content: [{ type: 'text', text: `共 ${limited.length} 条日志:\n\n${text}` }],
+            content: [{ type: 'text', text: `共${partial ? '至少' : ''} ${page.total} 条匹配，本页 ${page.items.length} 条网络请求:\n\n${text}${formatPageFooter(page)}` }],
           };
         }
 
-        case 'get_network_requests': {
-          const method = (args?.method as string) || '';
-          const limit = (args?.limit as number) || 50;
-          const clear = (args?.clear as boolean) || false;
+        case 'get_websocket_messages': {
+          const query = parseRealtimeQuery(args);
+          const targets = resolveSessions(args?.sessionId as string | undefined);
+          const page = queryRealtimeMessages(targets, query);
+          const connections = queryRealtimeConnections(targets, query);
+
+          if (connections.length === 0 && page.total === 0) {
+            return {
+              content: [{ type: 'text', text: '暂无 WebSocket 或 SSE 消息' }],
+            };
+          }
 
-          let requests = browser.networkRequests;
+          const showSession = targets.length > 1;
+          const lines = [`连接 (${connections.length}):`, ...connections.map((c) => `  ${formatRealtimeConnection(c, showSession)}`)];
+          lines.push('', `共 ${page.total} 条匹配，返回 ${page.items.length} 条消息:`);
+          if (page.items.length > 0) {
+            lines.push('', page.items.map((m) => formatRealtimeMessage(m, showSession)).join('\n\n'));
+          }
+          return {
+            content: [{ type: 'text', text: lines.join('\n') }],
+          };
+        }
 
-          if (method) {
-            requests = requests.filter((r) => r.method.toUpperCase() === method.toUpperCase());
+        case 'get_network_request_detail': {
+          const requestId = args?.requestId as string;
+          const includeBody = args?.includeBody !== false;
+          const maxBodySize = (args?.maxBodySize as number) || DEFAULT_MAX_BODY_SIZE;
+          const targets = resolveSessions(args?.sessionId as string | undefined);
+
+          let session = targets.find((s) => findRequest(s, requestId));
+          let networkRequest = session && findRequest(session, requestId);
+          // 内存中没有时查找持久化存储
+          for (const target of session ? [] : targets) {
+            networkRequest = await findStoredRequest(target, requestId);
+            if (networkRequest) {
+              session = target;
+              break;
+            }
+          }
+          if (!session || !networkRequest) {
+            throw new Error(`找不到请求 ${requestId}`);
           }
 
-          const limited = requests.slice(-limit);
+          let postData = networkRequest.postData;
+          let body: ResponseBody | undefined = networkRequest.responseBody;
+          let bodyError: string | undefined;
 
-          if (clear) {
-            browser.networkRequests = [];
+          if (body) {
+            // 已保存响应体（如从 HAR 导入），无需再从浏览器获取
+          } else if (!session.connected || session.protocol !== 'cdp') {
+            bodyError = '会话未通过 CDP 连接，无法获取响应体';
+          } else {
+            postData = await getRequestPostData(session, networkRequest).catch(() => postData);
+
+            if (includeBody) {
+              if (networkRequest.failed) {
+                bodyError = '请求失败';
+              } else if (!networkRequest.finished) {
+                bodyError = '请求尚未完成';
+              } else {
+                try {
+                  body = await getResponseBody(session, networkRequest, maxBodySize);
+                } catch (error) {
+                  bodyError = error instanceof Error ? error.message : String(error);
+                }
+              }
+            }
+          }
+
+          const text = formatNetworkRequestDetail(networkRequest, postData, body, includeBody ? bodyError : undefined);
+          return {
+            content: [{ type: 'text', text }],
+          };
+        }
+
+        case 'get_error_summary': {
+          const limit = (args?.limit as number) || DEFAULT_ERROR_GROUP_LIMIT;
+          const targets = resolveSessions(args?.sessionId as string | undefined);
+          const text = await getErrorSummary(targets, limit);
+          return {
+            content: [{ type: 'text', text }],
+          };
+        }
+
+        case 'add_intercept_rule': {
+          const action = args?.action as InterceptRule['action'];
+          if (!['block', 'mock', 'continue'].includes(action)) {
+            throw new Error(`无效的 action: ${action}`);
           }
+          const urlPattern = args?.urlPattern;
+          if (typeof urlPattern !== 'string' || !urlPattern.trim()) {
+            throw new Error('urlPattern 不能为空（如 "*/api/users*"）');
+          }
+          const session = getSession(args?.sessionId as string | undefined);
+          const input: InterceptRuleInput = {
+            urlPattern,
+            method: (args?.method as string) || undefined,
+            action,
+            status: args?.status as number | undefined,
+            headers: args?.headers as Record<string, string> | undefined,
+            body: args?.body as string | undefined,
+            delay: args?.delay as number | undefined,
+            requestHeaders: args?.requestHeaders as Record<string, string> | undefined,
+          };
+
+          const detail = `${action} ${input.method ?? '*'} ${redactUrl(input.urlPattern)}`;
+          const rule = await runPageAction(session, 'add_intercept_rule', detail, () => addInterceptRule(session, input));
+          return {
+            content: [{ type: 'text', text: `已为会话 ${session.id} 添加拦截规则 ${formatInterceptRule(rule)}` }],
+          };
+        }
 
-          if (limited.length === 0) {
+        case 'list_intercept_rules': {
+          const session = getSession(args?.sessionId as string | undefined);
+          if (session.interceptRules.length === 0) {
             return {
-              content: [{ type: 'text', text: '暂无网络请求记录' }],
+              content: [{ type: 'text', text: `会话 ${session.id} 没有拦截规则` }],
             };
           }
 
-          const text = limited.map(formatNetworkRequest).join('\n');
+          const text = session.interceptRules.map(formatInterceptRule).join('\n');
+          return {
+            content: [{ type: 'text', text: `会话 ${session.id} 的拦截规则（按顺序匹配）:\n${text}` }],
+          };
+        }
+
+        case 'remove_intercept_rule': {
+          const ruleId = args?.ruleId as string;
+          const session = getSession(args?.sessionId as string | undefined);
+
+          const removed = await runPageAction(session, 'remove_intercept_rule', ruleId, () => removeInterceptRule(session, ruleId));
+          if (removed === 0) {
+            throw new Error(`会话 ${session.id} 中找不到拦截规则 ${ruleId}`);
+          }
+          return {
+            content: [{ type: 'text', text: `已移除会话 ${session.id} 的 ${removed} 条拦截规则` }],
+          };
+        }
+
+        case 'emulate': {
+          const session = getSession(args?.sessionId as string | undefined);
+          const input: EmulationInput = {
+            network: args?.network as string | undefined,
+            latency: args?.latency as number | undefined,
+            downloadKbps: args?.downloadKbps as number | undefined,
+            uploadKbps: args?.uploadKbps as number | undefined,
+            cpuThrottling: args?.cpuThrottling as number | undefined,
+            device: args?.device as string | undefined,
+            width: args?.width as number | undefined,
+            height: args?.height as number | undefined,
+            deviceScaleFactor: args?.deviceScaleFactor as number | undefined,
+            mobile: args?.mobile as boolean | undefined,
+            userAgent: args?.userAgent as string | undefined,
+            latitude: args?.latitude as number | undefined,
+            longitude: args?.longitude as number | undefined,
+            accuracy: args?.accuracy as number | undefined,
+            timezone: args?.timezone as string | undefined,
+            locale: args?.locale as string | undefined,
+          };
+
+          const reset = (args?.reset as boolean) || false;
+          const changed = Object.values(input).some((value) => value !== undefined);
+          if (reset || changed) {
+            const detail = redactContent(JSON.stringify({ reset, ...input }));
+            await runPageAction(session, 'emulate', detail, async () => {
+              if (reset) {
+                await resetEmulation(session);
+              }
+              if (changed) {
+                await updateEmulation(session, input);
+              }
+            });
+          }
+
+          const action = reset || changed ? '已更新' : '当前';
+          return {
+            content: [{ type: 'text', text: `会话 ${session.id} ${action}的仿真配置:\n${formatEmulation(session.emulation)}` }],
+          };
+        }
+
+        case 'get_performance_metrics': {
+          const session = getSession(args?.sessionId as string | undefined);
+          const text = await getPerformanceMetrics(session);
+          return {
+            content: [{ type: 'text', text }],
+          };
+        }
+
+        case 'record_trace': {
+          const duration = (args?.duration as number) || DEFAULT_TRACE_DURATION;
+          const path = (args?.path as string) || undefined;
+          const session = getSession(args?.sessionId as string | undefined);
+
+          const text = await recordTrace(session, duration, path);
+          return {
+            content: [{ type: 'text', text }],
+          };
+        }
+
+        case 'start_coverage': {
+          const session = getSession(args?.sessionId as string | undefined);
+          const text = await startCoverage(session);
+          return {
+            content: [{ type: 'text', text }],
+          };
+        }
+
+        case 'stop_coverage': {
+          const limit = (args?.limit as number) || DEFAULT_COVERAGE_LIMIT;
+          const path = (args?.path as string) || undefined;
+          const session = getSession(args?.sessionId as string | undefined);
+
+          const text = await stopCoverage(session, limit, path);
+          return {
+            content: [{ type: 'text', text }],
+          };
+        }
+
+        case 'get_cookies': {
+          const session = getSession(args?.sessionId as string | undefined);
+          const text = await getCookies(session, {
+            name: (args?.name as string) || undefined,
+            domain: (args?.domain as string) || undefined,
+          });
+          return {
+            content: [{ type: 'text', text }],
+          };
+        }
+
+        case 'set_cookie': {
+          const session = getSession(args?.sessionId as string | undefined);
+          const cookie: CookieInput = {
+            name: args?.name as string,
+            value: args?.value as string,
+            url: (args?.url as string) || undefined,
+            domain: (args?.domain as string) || undefined,
+            path: (args?.path as string) || undefined,
+            secure: args?.secure as boolean | undefined,
+            httpOnly: args?.httpOnly as boolean | undefined,
+            sameSite: args?.sameSite as CookieInput['sameSite'],
+            expires: args?.expires as number | undefined,
+          };
+          const detail = `${cookie.name}=${redactCookieValue(cookie.value)}${cookie.domain ? ` domain=${cookie.domain}` : ''}`;
+          const text = await runPageAction(session, 'set_cookie', detail, () => setCookie(session, cookie));
+          return {
+            content: [{ type: 'text', text }],
+          };
+        }
+
+        case 'delete_cookies': {
+          const session = getSession(args?.sessionId as string | undefined);
+          const filter: CookieFilter = {
+            name: (args?.name as string) || undefined,
+            domain: (args?.domain as string) || undefined,
+            path: (args?.path as string) || undefined,
+          };
+          const text = await runPageAction(session, 'delete_cookies', JSON.stringify(filter), () => deleteCookies(session, filter));
+          return {
+            content: [{ type: 'text', text }],
+          };
+        }
+
+        case 'get_web_storage': {
+          const storage = (args?.storage as WebStorageType) || 'local';
+          const session = getSession(args?.sessionId as string | undefined);
+          const text = await getWebStorage(session, storage, args?.key as string | undefined);
+          return {
+            content: [{ type: 'text', text }],
+          };
+        }
+
+        case 'set_web_storage_item': {
+          const storage = (args?.storage as WebStorageType) || 'local';
+          const session = getSession(args?.sessionId as string | undefined);
+          const key = args?.key as string;
+          const value = args?.value as string;
+          const detail = `${storage} ${key}=${redactNamedValue(key, value)}`;
+          const text = await runPageAction(session, 'set_web_storage_item', detail, () => setWebStorageItem(session, storage, key, value));
+          return {
+            content: [{ type: 'text', text }],
+          };
+        }
+
+        case 'remove_web_storage_item': {
+          const storage = (args?.storage as WebStorageType) || 'local';
+          const session = getSession(args?.sessionId as string | undefined);
+          const key = args?.key as string | undefined;
+          const detail = `${storage} ${key ?? '(全部)'}`;
+          const text = await runPageAction(session, 'remove_web_storage_item', detail, () => removeWebStorageItem(session, storage, key));
+          return {
+            content: [{ type: 'text', text }],
+          };
+        }
+
+        case 'list_indexeddb': {
+          const session = getSession(args?.sessionId as string | undefined);
+          const text = await listIndexedDb(session);
+          return {
+            content: [{ type: 'text', text }],
+          };
+        }
+
+        case 'get_indexeddb_records': {
+          const session = getSession(args?.sessionId as string | undefined);
+          const text = await getIndexedDbRecords(session, {
+            database: args?.database as string,
+            store: args?.store as string,
+            index: (args?.index as string) || undefined,
+            skip: (args?.skip as number) || 0,
+            limit: (args?.limit as number) || DEFAULT_RECORD_PAGE_SIZE,
+            depth: (args?.depth as number) || 2,
+          });
+          return {
+            content: [{ type: 'text', text }],
+          };
+        }
+
+        case 'clear_indexeddb': {
+          const database = args?.database as string;
+          const store = (args?.store as string) || undefined;
+          const session = getSession(args?.sessionId as string | undefined);
+          const detail = store ? `${database}/${store}` : `${database}（整个数据库）`;
+          const text = await runPageAction(session, 'clear_indexeddb', detail, () => clearIndexedDb(session, database, store));
+          return {
+            content: [{ type: 'text', text }],
+          };
+        }
+
+        case 'wait_for_console': {
+          const query = parseConsoleQuery(args);
+          const timeout = (args?.timeout as number) || DEFAULT_WAIT_TIMEOUT;
+          const sessionId = args?.sessionId as string | undefined;
+
+          const message = await waitForConsoleMessage(query, sessionId, timeout, extra.signal);
+          return {
+            content: [{ type: 'text', text: `匹配的日志:\n\n${formatMessage(message, true)}` }],
+          };
+        }
+
+        case 'wait_for_request': {
+          const query = parseNetworkQuery(args);
+          const timeout = (args?.timeout as number) || DEFAULT_WAIT_TIMEOUT;
+          const sessionId = args?.sessionId as string | undefined;
+
+          const networkRequest = await waitForRequest(query, sessionId, timeout, extra.signal);
+          const text = formatNetworkRequestDetail(networkRequest, networkRequest.postData, networkRequest.responseBody);
+          return {
+            content: [{ type: 'text', text: `匹配的请求（响应体使用 get_network_request_detail 获取）:\n\n${text}` }],
+          };
+        }
+
+        case 'export_har': {
+          const path = args?.path as string;
+          const includeBodies = args?.includeBodies !== false;
+          const maxBodySize = (args?.maxBodySize as number) || DEFAULT_MAX_BODY_SIZE;
+          const targets = resolveSessions(args?.sessionId as string | undefined);
+
+          const count = await exportHar(targets, path, { includeBodies, maxBodySize });
+          return {
+            content: [{ type: 'text', text: `已导出 ${count} 条网络请求到 ${path}` }],
+          };
+        }
+
+        case 'import_har': {
+          const path = args?.path as string;
+          const sessionId = args?.sessionId as string | undefined;
+          const { session, count, skipped } = await importHar(path, sessionId ? getSession(sessionId) : undefined);
+          const note = skipped > 0 ? `，跳过 ${skipped} 条无效条目（缺少请求方法、URL，或开始时间、耗时无效）` : '';
           return {
-            content: [{ type: 'text', text: `共 ${limited.length} 条网络请求:\n\n${text}` }],
+            content: [{ type: 'text', text: `已从 ${path} 导入 ${count} 条网络请求到会话 ${session.id}${note}` }],
           };
         }
 
         case 'clear_logs': {
-          browser.messages = [];
-          browser.networkRequests = [];
+          const sessionId = args?.sessionId as string | undefined;
+          const targets = resolveSessions(sessionId);
+          targets.forEach((session) => {
+            session.messages = [];
+            session.networkRequests = [];
+            session.realtimeMessages = [];
+            // 仍打开的 WebSocket/SSE 连接保留，之后的消息继续关联到它们
+            for (const [requestId, connection] of session.realtimeConnections) {
+              if (connection.closedAt !== undefined) {
+                session.realtimeConnections.delete(requestId);
+              }
+            }
+            session.errorGroups.clear();
+          });
+          await clearStoredEntries(targets, 'console');
+          await clearStoredEntries(targets, 'network');
+          const scope = targets.length === 1 && sessionId && sessionId !== 'all' ? `会话 ${sessionId} 的` : '所有';
           return {
-            content: [{ type: 'text', text: '已清空所有日志和网络请求记录' }],
+            content: [{ type: 'text', text: `已清空${scope}日志、网络请求、WebSocket/SSE 消息记录、已关闭的连接和错误分组（仍打开的连接保留）` }],
           };
         }
 
         case 'evaluate_javascript': {
           const code = args?.code as string;
           const context = (args?.context as string) || '';
+          const sessionId = args?.sessionId as string | undefined;
+          const targets = sessionId === 'all'
+            ? [...sessions.values()].filter((session) => session.connected)
+            : [getSession(sessionId)];
 
-          let result;
-          if (context === 'console') {
-            result = await sendCommand('Runtime.evaluate', {
-              expression: code,
-              objectGroup: 'console',
-              includeCommandLineAPI: true,
-            });
-          } else {
-            result = await sendCommand('Runtime.evaluate', {
-              expression: code,
-              returnByValue: true,
-            });
+          if (targets.length === 0) {
+            throw new Error('浏览器未连接');
+          }
+
+          // 在多个会话中执行时，被策略拒绝或执行失败的会话只输出原因，不影响其他会话
+          const outputs: string[] = [];
+          for (const session of targets) {
+            let output: string;
+            try {
+              output = JSON.stringify(await evaluateWithPolicy(session, code, context), null, 2);
+            } catch (error) {
+              if (targets.length === 1) throw error;
+              output = `错误: ${error instanceof Error ? error.message : String(error)}`;
+            }
+            outputs.push(targets.length > 1 ? `[${session.id}] ${session.url}\n${output}` : output);
           }
 
-          const output = JSON.stringify(result, null, 2);
           return {
-            content: [{ type: 'text', text: `执行结果:\n${output}` }],
+            content: [{ type: 'text', text: `执行结果:\n${outputs.join('\n\n')}` }],
           };
         }
 
         case 'get_browser_info': {
-          const result = await sendCommand('Runtime.evaluate', {
-            expression: 'navigator.userAgent',
-            returnByValue: true,
-          });
+          const session = getSession(args?.sessionId as string | undefined);
+          const result = await readUserAgent(session);
 
           return {
             content: [{ type: 'text', text: `浏览器信息:\n${JSON.stringify(result, null, 2)}` }],
           };
         }
 
+        case 'navigate': {
+          const url = args?.url as string;
+          const waitUntil = (args?.waitUntil as WaitUntil) || 'load';
+          const timeout = (args?.timeout as number) || DEFAULT_NAVIGATION_TIMEOUT;
+          const session = getSession(args?.sessionId as string | undefined);
+
+          const elapsed = await runPageAction(session, 'navigate', redactUrl(url), () => navigate(session, url, waitUntil, timeout));
+          return {
+            content: [{ type: 'text', text: `会话 ${session.id} 已导航到 ${url}（${waitUntil}，耗时 ${elapsed}ms）` }],
+          };
+        }
+
+        case 'reload': {
+          const ignoreCache = (args?.ignoreCache as boolean) || false;
+          const waitUntil = (args?.waitUntil as WaitUntil) || 'load';
+          const timeout = (args?.timeout as number) || DEFAULT_NAVIGATION_TIMEOUT;
+          const session = getSession(args?.sessionId as string | undefined);
+
+          const detail = ignoreCache ? 'ignoreCache' : '';
+          const elapsed = await runPageAction(session, 'reload', detail, () => reload(session, ignoreCache, waitUntil, timeout));
+          const mode = ignoreCache ? '（忽略缓存）' : '';
+          return {
+            content: [{ type: 'text', text: `会话 ${session.id} 已刷新${mode}（${waitUntil}，耗时 ${elapsed}ms）` }],
+          };
+        }
+
+        case 'capture_screenshot': {
+          const session = getSession(args?.sessionId as string | undefined);
+          const { data, mimeType } = await captureScreenshot(session, {
+            selector: (args?.selector as string) || undefined,
+            fullPage: (args?.fullPage as boolean) || false,
+            format: (args?.format as 'png' | 'jpeg') || 'png',
+            quality: args?.quality as number | undefined,
+          });
+          return {
+            content: [{ type: 'image', data, mimeType }],
+          };
+        }
+
+        case 'click': {
+          const selector = args?.selector as string;
+          const button = (args?.button as 'left' | 'right' | 'middle') || 'left';
+          const clickCount = (args?.clickCount as number) || 1;
+          const session = getSession(args?.sessionId as string | undefined);
+
+          await runPageAction(session, 'click', selector, () => click(session, selector, button, clickCount));
+          return {
+            content: [{ type: 'text', text: `已点击 ${selector}` }],
+          };
+        }
+
+        case 'type': {
+          const text = args?.text as string;
+          const selector = (args?.selector as string) || undefined;
+          const clear = (args?.clear as boolean) || false;
+          const session = getSession(args?.sessionId as string | undefined);
+
+          // 输入的内容可能是密码，审计日志只记录长度
+          const detail = `${selector ?? '(当前焦点)'} ${text.length} 字符${clear ? '，先清空' : ''}`;
+          await runPageAction(session, 'type', detail, () => typeText(session, text, selector, clear));
+          return {
+            content: [{ type: 'text', text: `已输入 ${text.length} 个字符${selector ? `到 ${selector}` : ''}` }],
+          };
+        }
+
+        case 'press_key': {
+          const key = args?.key as string;
+          const session = getSession(args?.sessionId as string | undefined);
+
+          await runPageAction(session, 'press_key', key, () => pressKey(session, key));
+          return {
+            content: [{ type: 'text', text: `已按下 ${key}` }],
+          };
+        }
+
         default:
           throw new Error(`未知工具: ${name}`);
       }
@@ -810,6 +2054,9 @@ async function main() {
     }
   });
 
+  // 加载持久化存储中的历史会话
+  await initStore();
+
   // 启动服务器
   const transport = new StdioServerTransport();
   await server.connect(transport);
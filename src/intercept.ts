@@ -0,0 +1,206 @@
+import type { Protocol } from 'devtools-protocol';
+import { findRequest } from './network.js';
+import { sendCommand, subscribe } from './protocol.js';
+import { onCapture } from './session.js';
+import { BrowserSession, InterceptRule, ProtocolConnection } from './types.js';
+
+let nextRuleId = 1;
+
+// 拦截时 Network 事件可能晚于 Fetch.requestPaused 到达，先按会话记下，请求加入缓存时再标记；
+// 被拦截的请求可能永远不产生 Network 事件，超过 PENDING_MARK_AGE 的记录视为过期丢弃
+interface PendingMark {
+  rule: InterceptRule;
+  mocked: boolean;
+  time: number;
+}
+
+const PENDING_MARK_AGE = 60 * 1000;
+
+const pendingMarks = new Map<string, Map<string, PendingMark>>(); // sessionId -> networkId -> 标记
+
+onCapture((event) => {
+  if (event.kind !== 'network') return;
+  const marks = pendingMarks.get(event.session.id);
+  const mark = marks?.get(event.entry.requestId);
+  if (!marks || !mark) return;
+  marks.delete(event.entry.requestId);
+  if (marks.size === 0) {
+    pendingMarks.delete(event.session.id);
+  }
+  event.entry.interceptRule = mark.rule.id;
+  event.entry.mocked = mark.mocked;
+});
+
+function addPendingMark(session: BrowserSession, networkId: string, rule: InterceptRule, mocked: boolean) {
+  let marks = pendingMarks.get(session.id);
+  if (!marks) {
+    marks = new Map();
+    pendingMarks.set(session.id, marks);
+  }
+  const now = Date.now();
+  for (const [id, mark] of marks) {
+    if (now - mark.time > PENDING_MARK_AGE) {
+      marks.delete(id);
+    }
+  }
+  marks.set(networkId, { rule, mocked, time: now });
+}
+
+// 连接断开时丢弃会话尚未匹配的标记，重连后的请求 ID 与之前无关
+export function clearPendingMarks(session: BrowserSession) {
+  pendingMarks.delete(session.id);
+}
+
+export type InterceptRuleInput = Omit<InterceptRule, 'id' | 'hits'>;
+
+// 注册 Fetch 事件处理器（CDP）；connection 为子目标时，请求在子目标上暂停，也要在子目标上继续
+export function registerInterceptHandlers(session: BrowserSession, connection: ProtocolConnection = session) {
+  subscribe(connection, 'Fetch.requestPaused', (params) => {
+    handleRequestPaused(session, connection, params).catch((error) => {
+      console.error(`[MCP] 会话 ${session.id} 处理拦截请求失败:`, error);
+      // 保证请求不会一直挂起
+      sendCommand(connection, 'Fetch.continueRequest', { requestId: params.requestId }).catch(() => {});
+    });
+  });
+}
+
+// 将通配符模式转换为正则（与 Fetch 域的 urlPattern 语义一致）
+function patternToRegex(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+function findRule(session: BrowserSession, request: Protocol.Network.Request): InterceptRule | undefined {
+  return session.interceptRules.find((rule) =>
+    (!rule.method || rule.method.toUpperCase() === request.method.toUpperCase()) &&
+    patternToRegex(rule.urlPattern).test(request.url));
+}
+
+function toHeaderEntries(headers: Record<string, string>): Protocol.Fetch.HeaderEntry[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+// 按第一条匹配的规则处理被暂停的请求，没有匹配的规则时原样放行
+async function handleRequestPaused(session: BrowserSession, connection: ProtocolConnection, params: Protocol.Fetch.RequestPausedEvent) {
+  const rule = findRule(session, params.request);
+  if (!rule) {
+    await sendCommand(connection, 'Fetch.continueRequest', { requestId: params.requestId });
+    return;
+  }
+
+  rule.hits++;
+  const mocked = rule.action !== 'continue';
+  if (params.networkId) {
+    const request = findRequest(session, params.networkId);
+    if (request) {
+      request.interceptRule = rule.id;
+      request.mocked = mocked;
+    } else {
+      addPendingMark(session, params.networkId, rule, mocked);
+    }
+  }
+
+  if (rule.delay) {
+    await new Promise((resolve) => setTimeout(resolve, rule.delay));
+  }
+
+  switch (rule.action) {
+    case 'block':
+      await sendCommand(connection, 'Fetch.failRequest', { requestId: params.requestId, errorReason: 'BlockedByClient' });
+      break;
+    case 'mock':
+      await sendCommand(connection, 'Fetch.fulfillRequest', {
+        requestId: params.requestId,
+        responseCode: rule.status ?? 200,
+        responseHeaders: toHeaderEntries(rule.headers ?? {}),
+        body: Buffer.from(rule.body ?? '').toString('base64'),
+      });
+      break;
+    default: {
+      const headers = rule.requestHeaders
+        ? toHeaderEntries({ ...params.request.headers, ...rule.requestHeaders })
+        : undefined;
+      await sendCommand(connection, 'Fetch.continueRequest', { requestId: params.requestId, headers });
+    }
+  }
+}
+
+// 按会话当前的规则启用或关闭页面或子目标的 Fetch 拦截
+export async function applyInterceptRulesTo(session: BrowserSession, connection: ProtocolConnection) {
+  if (session.interceptRules.length === 0) {
+    await sendCommand(connection, 'Fetch.disable');
+    return;
+  }
+  await sendCommand(connection, 'Fetch.enable', {
+    patterns: session.interceptRules.map((rule) => ({ urlPattern: rule.urlPattern, requestStage: 'Request' as const })),
+  });
+}
+
+// 按会话当前的规则启用或关闭 Fetch 拦截（连接和重连后调用）。子目标的请求不经过页面的 Fetch 域，
+// 需要分别启用；部分目标类型不支持 Fetch 域，失败时忽略
+export async function applyInterceptRules(session: BrowserSession) {
+  await applyInterceptRulesTo(session, session);
+  await Promise.all([...session.children.values()]
+    .filter((child) => child.connected)
+    .map((child) => applyInterceptRulesTo(session, child).catch(() => {})));
+}
+
+function requireCdp(session: BrowserSession) {
+  if (session.protocol !== 'cdp') {
+    throw new Error(`会话 ${session.id} 未通过 CDP 连接，不支持请求拦截`);
+  }
+}
+
+// 添加拦截规则；先添加的规则优先匹配
+export async function addInterceptRule(session: BrowserSession, input: InterceptRuleInput): Promise<InterceptRule> {
+  requireCdp(session);
+  if (!input.urlPattern?.trim()) {
+    throw new Error('urlPattern 不能为空（如 "*/api/users*"）');
+  }
+  const rule: InterceptRule = { ...input, id: `i${nextRuleId++}`, hits: 0 };
+  session.interceptRules.push(rule);
+  try {
+    await applyInterceptRules(session);
+  } catch (error) {
+    session.interceptRules.pop();
+    throw error;
+  }
+  return rule;
+}
+
+// 移除拦截规则，ruleId 为 "all" 时移除全部；返回移除的数量
+export async function removeInterceptRule(session: BrowserSession, ruleId: string): Promise<number> {
+  const before = session.interceptRules.length;
+  session.interceptRules = ruleId === 'all'
+    ? []
+    : session.interceptRules.filter((rule) => rule.id !== ruleId);
+
+  const removed = before - session.interceptRules.length;
+  if (removed > 0 && session.connected) {
+    await applyInterceptRules(session);
+  }
+  return removed;
+}
+
+// 格式化拦截规则
+export function formatInterceptRule(rule: InterceptRule): string {
+  const method = rule.method ? `${rule.method.toUpperCase()} ` : '';
+  const parts: string[] = [];
+  switch (rule.action) {
+    case 'block':
+      parts.push('拦截为失败');
+      break;
+    case 'mock':
+      parts.push(`模拟响应 ${rule.status ?? 200}${rule.body ? `（响应体 ${rule.body.length} 字符）` : ''}`);
+      break;
+    default:
+      parts.push('放行');
+  }
+  if (rule.delay) parts.push(`延迟 ${rule.delay}ms`);
+  if (rule.requestHeaders) parts.push(`改写请求头 ${Object.keys(rule.requestHeaders).join(', ')}`);
+
+  return `${rule.id}: ${method}${rule.urlPattern} → ${parts.join('，')}（命中 ${rule.hits} 次）`;
+}
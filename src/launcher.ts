@@ -0,0 +1,149 @@
+import { rmSync } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import puppeteer, { Browser } from 'puppeteer-core';
+import { connectToBrowser, disconnectSession } from './browser.js';
+import { config } from './config.js';
+import { runPageAction } from './policy.js';
+import { sendCommand } from './protocol.js';
+import { redactUrl } from './redact.js';
+import { sessions } from './session.js';
+import { BrowserSession } from './types.js';
+
+// 由服务器启动的浏览器
+export interface LaunchedBrowser {
+  browser: Browser;
+  host: string;
+  port: number;
+  profileDir: string;
+  executablePath: string;
+  closed?: Promise<void>; // 清理完成
+}
+
+export interface LaunchOptions {
+  executablePath?: string;
+  headless: boolean;
+  url?: string;
+  args: string[];
+}
+
+// 已启动的浏览器，按调试端口索引
+export const launchedBrowsers = new Map<number, LaunchedBrowser>();
+
+let exitHandlersRegistered = false;
+
+// 服务器退出时结束已启动的浏览器并删除临时配置目录；退出时只能执行同步操作
+function closeLaunchedBrowsersSync() {
+  for (const launched of launchedBrowsers.values()) {
+    launched.browser.process()?.kill('SIGKILL');
+    try {
+      rmSync(launched.profileDir, { recursive: true, force: true, maxRetries: 3 });
+    } catch (error) {
+      console.error(`[MCP] 删除临时配置目录 ${launched.profileDir} 失败:`, error instanceof Error ? error.message : error);
+    }
+  }
+  launchedBrowsers.clear();
+}
+
+// 首次启动浏览器时注册退出处理。收到终止信号时先清理：宿主注册了自己的处理器时由它决定是否退出，
+// 否则重新发出信号，按默认行为终止进程（与持久化存储的处理一致）
+function registerExitHandlers() {
+  if (exitHandlersRegistered) return;
+  exitHandlersRegistered = true;
+  process.once('exit', closeLaunchedBrowsersSync);
+  for (const signal of ['SIGINT', 'SIGTERM', 'SIGHUP'] as const) {
+    process.once(signal, () => {
+      closeLaunchedBrowsersSync();
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  }
+}
+
+// 启动 Chrome/Chromium：使用独立的临时配置目录，调试端口由系统分配，启动后自动连接第一个标签页
+export async function launchBrowser(options: LaunchOptions): Promise<{ launched: LaunchedBrowser; session: BrowserSession }> {
+  const executablePath = options.executablePath || config.chromePath;
+  const profileDir = await mkdtemp(join(tmpdir(), 'mcp-browser-logger-'));
+
+  let browser: Browser;
+  try {
+    browser = await puppeteer.launch({
+      executablePath,
+      // 未指定路径时查找本机安装的 Chrome 稳定版
+      channel: executablePath ? undefined : 'chrome',
+      headless: options.headless,
+      userDataDir: profileDir,
+      defaultViewport: null,
+      pipe: false,
+      args: ['--remote-debugging-port=0', ...options.args],
+      // 由服务器统一处理终止信号，结束浏览器后删除临时配置目录
+      handleSIGINT: false,
+      handleSIGTERM: false,
+      handleSIGHUP: false,
+    });
+  } catch (error) {
+    await rm(profileDir, { recursive: true, force: true });
+    throw new Error(`启动浏览器失败: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const endpoint = new URL(browser.wsEndpoint());
+  const launched: LaunchedBrowser = {
+    browser,
+    host: endpoint.hostname,
+    port: Number(endpoint.port),
+    profileDir,
+    executablePath: browser.process()?.spawnfile ?? executablePath ?? 'chrome',
+  };
+  launchedBrowsers.set(launched.port, launched);
+  registerExitHandlers();
+
+  // 浏览器被手动关闭或崩溃时同样清理
+  browser.on('disconnected', () => {
+    void cleanup(launched);
+  });
+
+  try {
+    const { session } = await connectToBrowser('chrome', 'cdp', launched.host, launched.port);
+
+    // 先附加再导航，捕获初始页面加载期间的日志和请求；导航同样受安全策略限制
+    const url = options.url;
+    if (url) {
+      await runPageAction(session, 'launch_browser', redactUrl(url), () => sendCommand(session, 'Page.navigate', { url }));
+    }
+    return { launched, session };
+  } catch (error) {
+    await closeLaunchedBrowser(launched);
+    throw error;
+  }
+}
+
+// 断开该浏览器上的会话并删除临时配置目录；会话缓存保留以便继续查询。只执行一次
+function cleanup(launched: LaunchedBrowser): Promise<void> {
+  launched.closed ??= (async () => {
+    launchedBrowsers.delete(launched.port);
+    for (const session of sessions.values()) {
+      if (session.host === launched.host && session.port === launched.port) {
+        disconnectSession(session);
+      }
+    }
+    await rm(launched.profileDir, { recursive: true, force: true, maxRetries: 3 });
+  })();
+  return launched.closed;
+}
+
+// 关闭由服务器启动的浏览器
+export async function closeLaunchedBrowser(launched: LaunchedBrowser) {
+  try {
+    await launched.browser.close();
+  } finally {
+    await cleanup(launched);
+  }
+}
+
+// 查找会话所在的已启动浏览器
+export function findLaunchedBrowser(session: BrowserSession): LaunchedBrowser | undefined {
+  const launched = launchedBrowsers.get(session.port);
+  return launched && launched.host === session.host ? launched : undefined;
+}
@@ -0,0 +1,53 @@
+import type { Protocol } from 'devtools-protocol';
+import { subscribe } from './protocol.js';
+import { addMessage, addNavigation, currentNavigation } from './session.js';
+import { BrowserSession } from './types.js';
+
+// 注册页面导航相关的 CDP 事件处理器（需要启用 Page 和 Inspector 域）
+export function registerNavigationHandlers(session: BrowserSession) {
+  subscribe(session, 'Page.frameNavigated', (params) => handleFrameNavigated(session, params));
+  subscribe(session, 'Page.domContentEventFired', () => markNavigationContentLoaded(session));
+  subscribe(session, 'Page.loadEventFired', () => markNavigationLoaded(session));
+  subscribe(session, 'Inspector.targetCrashed', () => {
+    addMessage(session, {
+      sessionId: session.id,
+      level: 'error',
+      source: 'browser',
+      text: '页面已崩溃',
+      timestamp: Date.now(),
+    });
+  });
+  subscribe(session, 'Inspector.detached', (params) => {
+    console.error(`[MCP] 会话 ${session.id} 被浏览器断开: ${params.reason}`);
+  });
+}
+
+// 记录页面 DOMContentLoaded 事件的时间
+export function markNavigationContentLoaded(session: BrowserSession) {
+  const navigation = currentNavigation(session);
+  if (navigation) {
+    navigation.contentLoadedAt = Date.now();
+  }
+}
+
+// 记录页面 load 事件的时间
+export function markNavigationLoaded(session: BrowserSession) {
+  const navigation = currentNavigation(session);
+  if (navigation) {
+    navigation.loadedAt = Date.now();
+  }
+}
+
+// 顶层 frame 导航提交：开始新的页面加载。
+// 主文档请求在导航提交之前发出，按 loaderId 把它（及其重定向）归入新的页面加载
+function handleFrameNavigated(session: BrowserSession, params: Protocol.Page.FrameNavigatedEvent) {
+  const frame = params.frame;
+  if (frame.parentId) return;
+
+  const navigation = addNavigation(session, frame.url);
+  for (const request of session.networkRequests) {
+    if (request.loaderId === frame.loaderId) {
+      request.navigationId = navigation.id;
+    }
+  }
+}
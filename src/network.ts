@@ -0,0 +1,200 @@
+import type { Protocol } from 'devtools-protocol';
+import { sendCommand, subscribe } from './protocol.js';
+import { redactContent, redactHeaders } from './redact.js';
+import { addNetworkRequest, notifyRequestFinished, targetConnection } from './session.js';
+import { BrowserSession, ChildTarget, NetworkRequest, ResponseBody } from './types.js';
+
+// 响应体默认最大返回长度（字符）
+export const DEFAULT_MAX_BODY_SIZE = 100 * 1024;
+
+// 注册网络相关的 CDP 事件处理器；指定 child 时订阅子目标的事件，请求写入页面会话的缓存
+export function registerNetworkHandlers(session: BrowserSession, child?: ChildTarget) {
+  const connection = child ?? session;
+  subscribe(connection, 'Network.requestWillBeSent', (params) => handleRequestWillBeSent(session, params, child));
+  subscribe(connection, 'Network.responseReceived', (params) => handleResponseReceived(session, params));
+  subscribe(connection, 'Network.dataReceived', (params) => handleDataReceived(session, params));
+  subscribe(connection, 'Network.loadingFinished', (params) => handleLoadingFinished(session, params));
+  subscribe(connection, 'Network.loadingFailed', (params) => handleLoadingFailed(session, params));
+}
+
+// 按 requestId 查找请求；重定向会复用 requestId，取最新的一条
+export function findRequest(session: BrowserSession, requestId: string): NetworkRequest | undefined {
+  for (let i = session.networkRequests.length - 1; i >= 0; i--) {
+    if (session.networkRequests[i].requestId === requestId) {
+      return session.networkRequests[i];
+    }
+  }
+  return undefined;
+}
+
+// 处理网络请求
+function handleRequestWillBeSent(session: BrowserSession, params: Protocol.Network.RequestWillBeSentEvent, child?: ChildTarget) {
+  // 重定向：上一跳以重定向响应结束
+  let redirectedFrom: string | undefined;
+  if (params.redirectResponse) {
+    const previous = findRequest(session, params.requestId);
+    if (previous) {
+      applyResponse(previous, params.redirectResponse, params.timestamp);
+      finishRequest(previous, params.timestamp);
+      redirectedFrom = previous.url;
+    }
+  }
+
+  const request: NetworkRequest = {
+    sessionId: session.id,
+    requestId: params.requestId,
+    loaderId: params.loaderId,
+    method: params.request.method,
+    url: params.request.url,
+    type: params.type,
+    timestamp: params.wallTime ? params.wallTime * 1000 : Date.now(),
+    target: child?.target,
+    requestHeaders: params.request.headers,
+    postData: params.request.postData,
+    hasPostData: params.request.hasPostData,
+    redirectedFrom,
+    timing: {
+      startTime: params.timestamp,
+    },
+  };
+
+  addNetworkRequest(session, request);
+}
+
+// 处理网络响应
+function handleResponseReceived(session: BrowserSession, params: Protocol.Network.ResponseReceivedEvent) {
+  const request = findRequest(session, params.requestId);
+  if (request) {
+    applyResponse(request, params.response, params.timestamp);
+    request.type = params.type;
+  }
+}
+
+// 处理响应数据块，累计解码后的响应体大小
+function handleDataReceived(session: BrowserSession, params: Protocol.Network.DataReceivedEvent) {
+  const request = findRequest(session, params.requestId);
+  if (request) {
+    request.decodedBodyLength = (request.decodedBodyLength ?? 0) + params.dataLength;
+  }
+}
+
+// 处理请求完成
+function handleLoadingFinished(session: BrowserSession, params: Protocol.Network.LoadingFinishedEvent) {
+  const request = findRequest(session, params.requestId);
+  if (request) {
+    request.encodedDataLength = params.encodedDataLength;
+    finishRequest(request, params.timestamp);
+    notifyRequestFinished(session, request);
+  }
+}
+
+// 处理请求失败
+function handleLoadingFailed(session: BrowserSession, params: Protocol.Network.LoadingFailedEvent) {
+  const request = findRequest(session, params.requestId);
+  if (request) {
+    request.failed = true;
+    request.errorText = params.errorText;
+    request.canceled = params.canceled;
+    request.blockedReason = params.blockedReason ?? params.corsErrorStatus?.corsError;
+    request.type = params.type;
+    finishRequest(request, params.timestamp);
+    notifyRequestFinished(session, request);
+  }
+}
+
+// 记录响应信息
+function applyResponse(request: NetworkRequest, response: Protocol.Network.Response, timestamp: number) {
+  request.status = response.status;
+  request.statusText = response.statusText;
+  request.mimeType = response.mimeType;
+  request.protocol = response.protocol;
+  request.responseHeaders = redactHeaders(response.headers);
+  request.fromCache = response.fromDiskCache || response.fromPrefetchCache || response.fromServiceWorker;
+  if (response.remoteIPAddress) {
+    request.remoteAddress = `${response.remoteIPAddress}:${response.remotePort ?? ''}`;
+  }
+  if (request.timing) {
+    request.timing.responseTime = timestamp;
+    request.timing.resourceTiming = response.timing;
+    request.timing.duration = (timestamp - request.timing.startTime) * 1000;
+  }
+}
+
+// 标记请求结束并计算总耗时
+function finishRequest(request: NetworkRequest, timestamp: number) {
+  request.finished = true;
+  if (request.timing) {
+    request.timing.endTime = timestamp;
+    request.timing.duration = (timestamp - request.timing.startTime) * 1000;
+  }
+}
+
+// 获取请求体：大请求体不会随事件发送，需要单独获取
+export async function getRequestPostData(session: BrowserSession, request: NetworkRequest): Promise<string | undefined> {
+  if (request.postData !== undefined || !request.hasPostData) {
+    return request.postData;
+  }
+  const result = await sendCommand(targetConnection(session, request.target), 'Network.getRequestPostData', { requestId: request.requestId });
+  request.postData = redactContent(result.postData);
+  return request.postData;
+}
+
+// 获取响应体，文本内容脱敏后超过 maxSize 时截断；二进制内容保留 base64 编码
+export async function getResponseBody(session: BrowserSession, request: NetworkRequest, maxSize = DEFAULT_MAX_BODY_SIZE): Promise<ResponseBody> {
+  const result = await sendCommand(targetConnection(session, request.target), 'Network.getResponseBody', { requestId: request.requestId });
+
+  let text = result.body;
+  let base64Encoded = result.base64Encoded;
+  let size = text.length;
+
+  if (base64Encoded) {
+    const buffer = Buffer.from(text, 'base64');
+    size = buffer.length;
+    if (isTextMimeType(request.mimeType)) {
+      text = buffer.toString('utf-8');
+      base64Encoded = false;
+    }
+  } else {
+    size = Buffer.byteLength(text, 'utf-8');
+  }
+  if (!base64Encoded) {
+    text = redactContent(text);
+  }
+
+  const truncated = text.length > maxSize;
+  return {
+    text: truncated ? text.slice(0, maxSize) : text,
+    base64Encoded,
+    size,
+    truncated,
+  };
+}
+
+// 判断 MIME 类型是否为文本
+export function isTextMimeType(mimeType?: string): boolean {
+  if (!mimeType) return false;
+  return mimeType.startsWith('text/')
+    || /json|javascript|ecmascript|xml|html|css|svg|x-www-form-urlencoded|graphql/.test(mimeType);
+}
+
+// 计算耗时分解（毫秒），各阶段不存在时为 undefined
+export function getTimingBreakdown(request: NetworkRequest) {
+  const timing = request.timing;
+  const rt = timing?.resourceTiming;
+  if (!timing || !rt) return undefined;
+
+  const phase = (start: number, end: number) => (start >= 0 && end >= 0 ? end - start : undefined);
+  const firstPhaseStart = [rt.dnsStart, rt.connectStart, rt.sendStart].find((t) => t >= 0) ?? rt.sendStart;
+  const queued = (rt.requestTime - timing.startTime) * 1000;
+
+  return {
+    queued: queued > 0 ? queued : undefined,
+    stalled: firstPhaseStart > 0 ? firstPhaseStart : undefined,
+    dns: phase(rt.dnsStart, rt.dnsEnd),
+    connect: phase(rt.connectStart, rt.connectEnd),
+    tls: phase(rt.sslStart, rt.sslEnd),
+    send: phase(rt.sendStart, rt.sendEnd),
+    ttfb: phase(rt.sendEnd, rt.receiveHeadersEnd),
+    download: timing.endTime !== undefined ? (timing.endTime - rt.requestTime) * 1000 - rt.receiveHeadersEnd : undefined,
+  };
+}
@@ -0,0 +1,320 @@
+import type { Protocol } from 'devtools-protocol';
+import { sendCommand, subscribe } from './protocol.js';
+import { onCapture } from './session.js';
+import { BrowserSession } from './types.js';
+
+export type WaitUntil = 'load' | 'networkidle' | 'none';
+
+export const DEFAULT_NAVIGATION_TIMEOUT = 30000;
+// 没有进行中的请求持续该时长视为网络空闲
+const NETWORK_IDLE_TIME = 500;
+
+// 页面控制只支持 CDP（Page、Input 域）
+function requireCdp(session: BrowserSession) {
+  if (session.protocol !== 'cdp') {
+    throw new Error(`会话 ${session.id} 未通过 CDP 连接，不支持页面操作`);
+  }
+}
+
+// 等待页面 load 事件
+function waitForLoad(session: BrowserSession, timeout: number): { promise: Promise<void>; cancel: () => void } {
+  let cancel = () => {};
+  const promise = new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      cancel();
+      reject(new Error(`等待页面加载超时（${timeout}ms）`));
+    }, timeout);
+    const unsubscribe = subscribe(session, 'Page.loadEventFired', () => {
+      cancel();
+      resolve();
+    });
+    cancel = () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  });
+  return { promise, cancel };
+}
+
+// 等待网络空闲：since 之后发出的请求全部结束并持续 NETWORK_IDLE_TIME。EventSource 长连接不计入
+function waitForNetworkIdle(session: BrowserSession, since: number, timeout: number): Promise<void> {
+  const inflight = () => session.networkRequests.some((request) =>
+    !request.finished && request.timestamp >= since && request.type !== 'EventSource');
+
+  return new Promise((resolve, reject) => {
+    let idleTimer: NodeJS.Timeout | undefined;
+    const finish = () => {
+      clearTimeout(idleTimer);
+      clearTimeout(timer);
+      unsubscribe();
+    };
+    const check = () => {
+      clearTimeout(idleTimer);
+      if (!inflight()) {
+        idleTimer = setTimeout(() => {
+          finish();
+          resolve();
+        }, NETWORK_IDLE_TIME);
+      }
+    };
+
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error(`等待网络空闲超时（${timeout}ms）`));
+    }, timeout);
+    const unsubscribe = onCapture((event) => {
+      if (event.session === session && event.kind !== 'console') {
+        check();
+      }
+    });
+    check();
+  });
+}
+
+// 发起导航类命令并按 waitUntil 等待完成，返回耗时（毫秒）
+async function runNavigation(
+  session: BrowserSession,
+  start: () => Promise<boolean>,
+  waitUntil: WaitUntil,
+  timeout: number,
+): Promise<number> {
+  const startedAt = Date.now();
+  // 先订阅再发命令，避免错过很快触发的 load 事件
+  const load = waitForLoad(session, timeout);
+  try {
+    const willLoad = await start();
+    if (waitUntil === 'none' || !willLoad) {
+      load.cancel();
+      return Date.now() - startedAt;
+    }
+    await load.promise;
+  } catch (error) {
+    load.cancel();
+    throw error;
+  }
+
+  if (waitUntil === 'networkidle') {
+    await waitForNetworkIdle(session, startedAt, Math.max(timeout - (Date.now() - startedAt), 0));
+  }
+  return Date.now() - startedAt;
+}
+
+// 导航到指定 URL
+export async function navigate(session: BrowserSession, url: string, waitUntil: WaitUntil, timeout: number): Promise<number> {
+  requireCdp(session);
+  return runNavigation(session, async () => {
+    // Page.navigate 在响应开始后才返回，慢页面可能超过默认的命令超时，改用导航超时
+    const result = await sendCommand(session, 'Page.navigate', { url }, timeout);
+    if (result.errorText) {
+      throw new Error(`导航失败: ${result.errorText}`);
+    }
+    // 同文档导航（如只修改 hash）没有 loaderId，也不会触发 load 事件
+    return Boolean(result.loaderId);
+  }, waitUntil, timeout);
+}
+
+// 刷新页面
+export async function reload(session: BrowserSession, ignoreCache: boolean, waitUntil: WaitUntil, timeout: number): Promise<number> {
+  requireCdp(session);
+  return runNavigation(session, async () => {
+    await sendCommand(session, 'Page.reload', { ignoreCache }, timeout);
+    return true;
+  }, waitUntil, timeout);
+}
+
+// 在页面中执行表达式并返回值，页面抛出异常时报错
+async function evaluateValue<T>(session: BrowserSession, expression: string): Promise<T> {
+  const result = await sendCommand(session, 'Runtime.evaluate', { expression, returnByValue: true, awaitPromise: true });
+  if (result.exceptionDetails) {
+    throw new Error(result.exceptionDetails.exception?.description ?? result.exceptionDetails.text);
+  }
+  return result.result.value as T;
+}
+
+interface ElementBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 将元素滚动到可见区域，返回其在视口（page 为 true 时为整个页面）中的位置
+async function getElementBox(session: BrowserSession, selector: string, page = false): Promise<ElementBox> {
+  const [offsetX, offsetY] = page ? ['window.scrollX', 'window.scrollY'] : ['0', '0'];
+  const box = await evaluateValue<ElementBox | null>(session, `(() => {
+    const element = document.querySelector(${JSON.stringify(selector)});
+    if (!element) return null;
+    element.scrollIntoView({ block: 'center', inline: 'center' });
+    const rect = element.getBoundingClientRect();
+    return { x: rect.x + ${offsetX}, y: rect.y + ${offsetY}, width: rect.width, height: rect.height };
+  })()`);
+
+  if (!box) {
+    throw new Error(`找不到元素: ${selector}`);
+  }
+  if (box.width === 0 || box.height === 0) {
+    throw new Error(`元素不可见: ${selector}`);
+  }
+  return box;
+}
+
+export interface ScreenshotOptions {
+  selector?: string;
+  fullPage: boolean;
+  format: 'png' | 'jpeg';
+  quality?: number;
+}
+
+// 截图，返回 base64 图片数据
+export async function captureScreenshot(session: BrowserSession, options: ScreenshotOptions): Promise<{ data: string; mimeType: string }> {
+  requireCdp(session);
+
+  let clip: Protocol.Page.Viewport | undefined;
+  if (options.selector) {
+    clip = { ...await getElementBox(session, options.selector, true), scale: 1 };
+  } else if (options.fullPage) {
+    const metrics = await sendCommand(session, 'Page.getLayoutMetrics');
+    clip = { x: 0, y: 0, width: metrics.cssContentSize.width, height: metrics.cssContentSize.height, scale: 1 };
+  }
+
+  const result = await sendCommand(session, 'Page.captureScreenshot', {
+    format: options.format,
+    quality: options.format === 'jpeg' ? options.quality : undefined,
+    clip,
+    captureBeyondViewport: clip !== undefined,
+  });
+  return { data: result.data, mimeType: `image/${options.format}` };
+}
+
+// 点击元素中心
+export async function click(session: BrowserSession, selector: string, button: Protocol.Input.MouseButton, clickCount: number) {
+  requireCdp(session);
+  const box = await getElementBox(session, selector);
+  const x = box.x + box.width / 2;
+  const y = box.y + box.height / 2;
+
+  await sendCommand(session, 'Input.dispatchMouseEvent', { type: 'mouseMoved', x, y });
+  for (let count = 1; count <= clickCount; count++) {
+    await sendCommand(session, 'Input.dispatchMouseEvent', { type: 'mousePressed', x, y, button, clickCount: count });
+    await sendCommand(session, 'Input.dispatchMouseEvent', { type: 'mouseReleased', x, y, button, clickCount: count });
+  }
+}
+
+// 按键定义：key -> [code, keyCode, text]
+const KEY_DEFINITIONS: Record<string, [string, number, string?]> = {
+  Enter: ['Enter', 13, '\r'],
+  Tab: ['Tab', 9],
+  Escape: ['Escape', 27],
+  Backspace: ['Backspace', 8],
+  Delete: ['Delete', 46],
+  Space: ['Space', 32, ' '],
+  ArrowUp: ['ArrowUp', 38],
+  ArrowDown: ['ArrowDown', 40],
+  ArrowLeft: ['ArrowLeft', 37],
+  ArrowRight: ['ArrowRight', 39],
+  Home: ['Home', 36],
+  End: ['End', 35],
+  PageUp: ['PageUp', 33],
+  PageDown: ['PageDown', 34],
+};
+
+// 标点符号所在的物理按键（美式键盘）：字符 -> [code, Windows 虚拟键码]，Shift 组合出的字符与原字符同键
+const PUNCTUATION_KEYS: Record<string, [string, number]> = {
+  ';': ['Semicolon', 186], ':': ['Semicolon', 186],
+  '=': ['Equal', 187], '+': ['Equal', 187],
+  ',': ['Comma', 188], '<': ['Comma', 188],
+  '-': ['Minus', 189], '_': ['Minus', 189],
+  '.': ['Period', 190], '>': ['Period', 190],
+  '/': ['Slash', 191], '?': ['Slash', 191],
+  '`': ['Backquote', 192], '~': ['Backquote', 192],
+  '[': ['BracketLeft', 219], '{': ['BracketLeft', 219],
+  '\\': ['Backslash', 220], '|': ['Backslash', 220],
+  ']': ['BracketRight', 221], '}': ['BracketRight', 221],
+  "'": ['Quote', 222], '"': ['Quote', 222],
+  '!': ['Digit1', 49], '@': ['Digit2', 50], '#': ['Digit3', 51], '$': ['Digit4', 52], '%': ['Digit5', 53],
+  '^': ['Digit6', 54], '&': ['Digit7', 55], '*': ['Digit8', 56], '(': ['Digit9', 57], ')': ['Digit0', 48],
+};
+
+// 修饰键位掩码（Input.dispatchKeyEvent 的 modifiers）
+const MODIFIERS: Record<string, number> = {
+  Alt: 1,
+  Control: 2,
+  Ctrl: 2,
+  Meta: 4,
+  Shift: 8,
+};
+
+// 将 "Control+Shift+K" 形式的按键描述转换为按键事件参数
+export function parseKey(input: string): { modifiers: number; params: Omit<Protocol.Input.DispatchKeyEventRequest, 'type'> } {
+  // 末尾的 + 是按键本身（如 "+"、"Shift++"）
+  const plus = input.endsWith('+');
+  const parts = (plus ? input.slice(0, -1) : input).split('+');
+  const last = parts.pop();
+  const name = plus ? '+' : last || '';
+  let modifiers = 0;
+  for (const part of parts) {
+    const modifier = MODIFIERS[part];
+    if (modifier === undefined) {
+      throw new Error(`未知的修饰键: ${part}（可用: ${Object.keys(MODIFIERS).join('、')}）`);
+    }
+    modifiers |= modifier;
+  }
+
+  const definition = KEY_DEFINITIONS[name];
+  if (definition) {
+    const [code, keyCode, text] = definition;
+    return { modifiers, params: { key: name === 'Space' ? ' ' : name, code, windowsVirtualKeyCode: keyCode, text } };
+  }
+  if ([...name].length !== 1) {
+    throw new Error(`未知的按键: ${name}（可用: 单个字符或 ${Object.keys(KEY_DEFINITIONS).join('、')}）`);
+  }
+
+  // 字母和数字的虚拟键码即大写字符的编码，标点查表，其他字符（如中文）没有对应的按键
+  let code: string | undefined;
+  let keyCode: number | undefined;
+  if (/^[a-z]$/i.test(name)) {
+    code = `Key${name.toUpperCase()}`;
+    keyCode = name.toUpperCase().charCodeAt(0);
+  } else if (/^\d$/.test(name)) {
+    code = `Digit${name}`;
+    keyCode = name.charCodeAt(0);
+  } else if (PUNCTUATION_KEYS[name]) {
+    [code, keyCode] = PUNCTUATION_KEYS[name];
+  }
+  // 带 Control/Alt/Meta 的组合键（如 Control+A）不输入字符
+  const text = modifiers & (MODIFIERS.Alt | MODIFIERS.Control | MODIFIERS.Meta) ? undefined : name;
+  return { modifiers, params: { key: name, code, windowsVirtualKeyCode: keyCode, text } };
+}
+
+// 按下并释放一个按键（可带修饰键，如 "Control+A"）
+export async function pressKey(session: BrowserSession, key: string) {
+  requireCdp(session);
+  const { modifiers, params } = parseKey(key);
+  await sendCommand(session, 'Input.dispatchKeyEvent', { ...params, type: params.text ? 'keyDown' : 'rawKeyDown', modifiers });
+  await sendCommand(session, 'Input.dispatchKeyEvent', { ...params, type: 'keyUp', modifiers, text: undefined });
+}
+
+// 输入文本：指定 selector 时先点击聚焦该元素，clear 为 true 时先清空其内容
+export async function typeText(session: BrowserSession, text: string, selector?: string, clear = false) {
+  requireCdp(session);
+  if (selector) {
+    await click(session, selector, 'left', 1);
+    if (clear) {
+      await evaluateValue(session, `(() => {
+        const element = document.querySelector(${JSON.stringify(selector)});
+        if (element && 'select' in element) element.select();
+        else document.execCommand('selectAll');
+      })()`);
+      await pressKey(session, 'Delete');
+    }
+  }
+
+  for (const char of text) {
+    if (char === '\n') {
+      await pressKey(session, 'Enter');
+    } else {
+      await sendCommand(session, 'Input.dispatchKeyEvent', { type: 'keyDown', key: char, text: char, unmodifiedText: char });
+      await sendCommand(session, 'Input.dispatchKeyEvent', { type: 'keyUp', key: char });
+    }
+  }
+}
@@ -0,0 +1,347 @@
+import { writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WebSocket } from 'ws';
+import { formatSize } from './format.js';
+import { runPageAction } from './policy.js';
+import { sendCommand, subscribe } from './protocol.js';
+import { currentNavigation } from './session.js';
+import { BrowserSession } from './types.js';
+
+export const DEFAULT_TRACE_DURATION = 5;
+const MAX_TRACE_DURATION = 60;
+// 长任务阈值（毫秒），与 Long Tasks API 一致
+const LONG_TASK_THRESHOLD = 50;
+const TRACE_SUMMARY_TASKS = 10;
+
+// 与 DevTools 性能面板相近的录制类别（不含 CPU 采样，控制文件大小）
+const TRACE_CATEGORIES = [
+  '-*',
+  'devtools.timeline',
+  'disabled-by-default-devtools.timeline',
+  'disabled-by-default-devtools.timeline.frame',
+  'toplevel',
+  'v8.execute',
+  'blink.user_timing',
+  'loading',
+  'latencyInfo',
+];
+
+// Performance.getMetrics 中输出的指标：[名称, 说明, 单位]
+const METRICS: Array<[string, string, 'bytes' | 'count' | 'seconds']> = [
+  ['JSHeapUsedSize', 'JS 堆已用', 'bytes'],
+  ['JSHeapTotalSize', 'JS 堆总计', 'bytes'],
+  ['Nodes', 'DOM 节点', 'count'],
+  ['Documents', '文档', 'count'],
+  ['JSEventListeners', '事件监听器', 'count'],
+  ['LayoutCount', '布局次数', 'count'],
+  ['RecalcStyleCount', '样式计算次数', 'count'],
+  ['LayoutDuration', '布局耗时', 'seconds'],
+  ['RecalcStyleDuration', '样式计算耗时', 'seconds'],
+  ['ScriptDuration', '脚本执行耗时', 'seconds'],
+  ['TaskDuration', '任务总耗时', 'seconds'],
+];
+
+// Web Vitals 阈值：[良好上限, 较差下限]，与 web.dev 的定义一致
+const VITAL_THRESHOLDS: Record<string, [number, number]> = {
+  LCP: [2500, 4000],
+  FCP: [1800, 3000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500],
+  FID: [100, 300],
+  TTFB: [800, 1800],
+};
+
+// 注入页面的 PerformanceObserver，收集结果保存在 window.__mcpWebVitals。
+// buffered 为 true，注入前已发生的条目也能收到；INP 取最慢的一次交互（近似值）
+const WEB_VITALS_SCRIPT = `(() => {
+  if (window.__mcpWebVitals) return;
+  const vitals = window.__mcpWebVitals = { lcp: null, fcp: null, cls: 0, fid: null, inp: null, longTasks: [] };
+  const describe = (node) => {
+    if (!node || !node.tagName) return null;
+    return node.tagName.toLowerCase() + (node.id ? '#' + node.id : '') + (node.classList && node.classList.length ? '.' + [...node.classList].join('.') : '');
+  };
+  const observe = (type, callback, options) => {
+    try {
+      new PerformanceObserver((list) => list.getEntries().forEach(callback)).observe({ type, buffered: true, ...options });
+    } catch {}
+  };
+  observe('largest-contentful-paint', (entry) => {
+    vitals.lcp = { value: entry.startTime, element: describe(entry.element) || entry.url || null };
+  });
+  observe('paint', (entry) => {
+    if (entry.name === 'first-contentful-paint') vitals.fcp = entry.startTime;
+  });
+  let windowValue = 0;
+  let windowStart = 0;
+  let lastShift = 0;
+  observe('layout-shift', (entry) => {
+    if (entry.hadRecentInput) return;
+    if (windowValue && entry.startTime - lastShift < 1000 && entry.startTime - windowStart < 5000) {
+      windowValue += entry.value;
+    } else {
+      windowValue = entry.value;
+      windowStart = entry.startTime;
+    }
+    lastShift = entry.startTime;
+    vitals.cls = Math.max(vitals.cls, windowValue);
+  });
+  observe('first-input', (entry) => {
+    vitals.fid = entry.processingStart - entry.startTime;
+  });
+  observe('event', (entry) => {
+    if (entry.interactionId && entry.duration > (vitals.inp ? vitals.inp.value : -1)) {
+      vitals.inp = { value: entry.duration, event: entry.name, target: describe(entry.target) };
+    }
+  }, { durationThreshold: 16 });
+  observe('longtask', (entry) => {
+    const attribution = entry.attribution && entry.attribution[0];
+    vitals.longTasks.push({ start: entry.startTime, duration: entry.duration, source: attribution ? attribution.containerSrc || attribution.containerName || '' : '' });
+    if (vitals.longTasks.length > 50) vitals.longTasks.shift();
+  });
+})()`;
+
+const READ_VITALS_EXPRESSION = `(() => {
+  const navigation = performance.getEntriesByType('navigation')[0];
+  return {
+    vitals: window.__mcpWebVitals || null,
+    navigation: navigation ? {
+      ttfb: navigation.responseStart,
+      domContentLoaded: navigation.domContentLoadedEventEnd,
+      load: navigation.loadEventEnd,
+    } : null,
+  };
+})()`;
+
+interface WebVitals {
+  lcp: { value: number; element: string | null } | null;
+  fcp: number | null;
+  cls: number;
+  fid: number | null;
+  inp: { value: number; event: string; target: string | null } | null;
+  longTasks: Array<{ start: number; duration: number; source: string }>;
+}
+
+interface VitalsResult {
+  vitals: WebVitals | null;
+  navigation: { ttfb: number; domContentLoaded: number; load: number } | null;
+}
+
+// 已注入 Web Vitals 脚本的连接；重连后需要重新注入
+const instrumented = new WeakMap<BrowserSession, WebSocket>();
+// 正在录制 trace 的会话
+const tracing = new Set<BrowserSession>();
+
+function requireCdp(session: BrowserSession) {
+  if (session.protocol !== 'cdp') {
+    throw new Error(`会话 ${session.id} 未通过 CDP 连接，不支持性能分析`);
+  }
+}
+
+// 注入 Web Vitals 收集脚本：当前页面立即生效，之后的页面加载在文档创建时生效
+async function instrumentWebVitals(session: BrowserSession) {
+  if (session.ws && instrumented.get(session) === session.ws) return;
+  await sendCommand(session, 'Performance.enable');
+  await sendCommand(session, 'Page.addScriptToEvaluateOnNewDocument', { source: WEB_VITALS_SCRIPT });
+  await sendCommand(session, 'Runtime.evaluate', { expression: WEB_VITALS_SCRIPT });
+  if (session.ws) {
+    instrumented.set(session, session.ws);
+  }
+}
+
+function rate(name: string, value: number): string {
+  const [good, poor] = VITAL_THRESHOLDS[name];
+  return value <= good ? '良好' : value <= poor ? '需改进' : '较差';
+}
+
+function formatVital(name: string, value: number | null | undefined, detail = ''): string {
+  if (value === null || value === undefined) {
+    return `    ${name}: 暂无数据`;
+  }
+  const text = name === 'CLS' ? value.toFixed(3) : `${value.toFixed(0)}ms`;
+  return `    ${name}: ${text}（${rate(name, value)}）${detail}`;
+}
+
+function formatMetric(value: number, unit: 'bytes' | 'count' | 'seconds'): string {
+  switch (unit) {
+    case 'bytes':
+      return formatSize(value);
+    case 'seconds':
+      return `${(value * 1000).toFixed(1)}ms`;
+    default:
+      return String(value);
+  }
+}
+
+// 获取页面性能指标和 Core Web Vitals。首次调用时注入收集脚本，注入前发生的交互（INP、FID）和长任务无法收集
+export async function getPerformanceMetrics(session: BrowserSession): Promise<string> {
+  requireCdp(session);
+  const firstTime = instrumented.get(session) !== session.ws;
+  // 注入脚本会修改页面，按页面操作检查安全策略
+  if (firstTime) {
+    await runPageAction(session, 'get_performance_metrics', 'inject web-vitals script', () => instrumentWebVitals(session));
+  }
+
+  const { metrics } = await sendCommand(session, 'Performance.getMetrics');
+  const values = new Map(metrics.map((metric) => [metric.name, metric.value]));
+
+  const evaluation = await sendCommand(session, 'Runtime.evaluate', { expression: READ_VITALS_EXPRESSION, returnByValue: true });
+  const { vitals, navigation } = (evaluation.result.value ?? {}) as VitalsResult;
+
+  const lines: string[] = [`页面: ${currentNavigation(session)?.url ?? session.url}`, '', 'Core Web Vitals:'];
+  lines.push(formatVital('LCP', vitals?.lcp?.value, vitals?.lcp?.element ? ` - ${vitals.lcp.element}` : ''));
+  lines.push(formatVital('CLS', vitals?.cls));
+  lines.push(formatVital('INP', vitals?.inp?.value, vitals?.inp ? ` - ${vitals.inp.event}${vitals.inp.target ? ` ${vitals.inp.target}` : ''}` : ''));
+  lines.push(formatVital('FID', vitals?.fid));
+  lines.push(formatVital('FCP', vitals?.fcp));
+  lines.push(formatVital('TTFB', navigation?.ttfb));
+  if (navigation) {
+    lines.push(`    DOMContentLoaded: ${navigation.domContentLoaded.toFixed(0)}ms, load: ${navigation.load.toFixed(0)}ms`);
+  }
+
+  const longTasks = vitals?.longTasks ?? [];
+  if (longTasks.length > 0) {
+    const total = longTasks.reduce((sum, task) => sum + task.duration, 0);
+    const longest = [...longTasks].sort((a, b) => b.duration - a.duration).slice(0, 5);
+    lines.push('', `长任务: ${longTasks.length} 个，共 ${total.toFixed(0)}ms`);
+    for (const task of longest) {
+      lines.push(`    ${task.duration.toFixed(0)}ms @ ${task.start.toFixed(0)}ms${task.source ? ` - ${task.source}` : ''}`);
+    }
+  }
+
+  lines.push('', '运行时指标:');
+  for (const [name, label, unit] of METRICS) {
+    const value = values.get(name);
+    if (value !== undefined) {
+      lines.push(`    ${label}: ${formatMetric(value, unit)}`);
+    }
+  }
+
+  if (firstTime) {
+    lines.push('', '提示: 收集脚本刚刚注入，之前发生的交互（INP、FID）和长任务未被记录，操作页面或刷新后再次查询');
+  }
+  return lines.join('\n');
+}
+
+// trace 事件（Chrome Trace Event Format）
+interface TraceEvent {
+  name: string;
+  ph: string;
+  pid: number;
+  tid: number;
+  ts: number; // 微秒
+  dur?: number;
+  args?: { name?: string; data?: { url?: string; functionName?: string } };
+}
+
+// 读取 IO 流的全部内容
+async function readStream(session: BrowserSession, handle: string): Promise<string> {
+  const chunks: Buffer[] = [];
+  try {
+    for (;;) {
+      const chunk = await sendCommand(session, 'IO.read', { handle });
+      chunks.push(Buffer.from(chunk.data, chunk.base64Encoded ? 'base64' : 'utf-8'));
+      if (chunk.eof) break;
+    }
+  } finally {
+    await sendCommand(session, 'IO.close', { handle }).catch(() => {});
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+// 录制 trace：duration 秒后停止，保存为 JSON 文件（可在 DevTools 性能面板中打开），返回文件路径和长任务摘要
+export async function recordTrace(session: BrowserSession, duration: number, path?: string): Promise<string> {
+  requireCdp(session);
+  if (tracing.has(session)) {
+    throw new Error(`会话 ${session.id} 正在录制 trace`);
+  }
+  const seconds = Math.min(Math.max(duration, 1), MAX_TRACE_DURATION);
+  const output = path || join(tmpdir(), `trace-${session.id}-${Date.now()}.json`);
+
+  tracing.add(session);
+  let text: string;
+  let timer: NodeJS.Timeout | undefined;
+  let unsubscribe: (() => void) | undefined;
+  try {
+    await sendCommand(session, 'Tracing.start', {
+      transferMode: 'ReturnAsStream',
+      traceConfig: { recordMode: 'recordAsMuchAsPossible', includedCategories: TRACE_CATEGORIES },
+    });
+    await new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+
+    const complete = new Promise<string>((resolve, reject) => {
+      timer = setTimeout(() => reject(new Error('等待 trace 数据超时')), 30000);
+      unsubscribe = subscribe(session, 'Tracing.tracingComplete', (params) => {
+        if (params.stream) {
+          resolve(params.stream);
+        } else {
+          reject(new Error('浏览器没有返回 trace 数据'));
+        }
+      });
+    });
+    // 同时等待两者：Tracing.end 失败（如连接断开）时 complete 的拒绝也有处理
+    const [, stream] = await Promise.all([sendCommand(session, 'Tracing.end'), complete]);
+    text = await readStream(session, stream);
+  } finally {
+    clearTimeout(timer);
+    unsubscribe?.();
+    tracing.delete(session);
+  }
+
+  await writeFile(output, text);
+  return `已录制 ${seconds} 秒 trace，保存到 ${output}（${formatSize(Buffer.byteLength(text))}，可在 DevTools 性能面板中加载）\n\n${summarizeTrace(text)}`;
+}
+
+// 汇总渲染主线程上最长的任务及其中执行的脚本
+function summarizeTrace(text: string): string {
+  let events: TraceEvent[];
+  try {
+    const parsed = JSON.parse(text);
+    events = Array.isArray(parsed) ? parsed : parsed.traceEvents ?? [];
+  } catch {
+    return '无法解析 trace 数据，跳过摘要';
+  }
+
+  const mainThreads = new Set(events
+    .filter((event) => event.ph === 'M' && event.name === 'thread_name' && event.args?.name === 'CrRendererMain')
+    .map((event) => `${event.pid}:${event.tid}`));
+  const onMainThread = (event: TraceEvent) => mainThreads.has(`${event.pid}:${event.tid}`);
+
+  const start = events.reduce((min, event) => (event.ts > 0 && event.ts < min ? event.ts : min), Infinity);
+  const tasks = events
+    .filter((event) => event.ph === 'X' && event.name === 'RunTask' && onMainThread(event) && (event.dur ?? 0) / 1000 >= LONG_TASK_THRESHOLD)
+    .sort((a, b) => (b.dur ?? 0) - (a.dur ?? 0));
+
+  if (tasks.length === 0) {
+    return `渲染主线程上没有超过 ${LONG_TASK_THRESHOLD}ms 的长任务`;
+  }
+
+  const scripts = events
+    .filter((event) => event.ph === 'X' && (event.name === 'FunctionCall' || event.name === 'EvaluateScript') && onMainThread(event))
+    .sort((a, b) => a.ts - b.ts);
+
+  const total = tasks.reduce((sum, task) => sum + (task.dur ?? 0), 0) / 1000;
+  const lines = [`长任务: ${tasks.length} 个，共 ${total.toFixed(0)}ms。最长的任务:`];
+  for (const task of tasks.slice(0, TRACE_SUMMARY_TASKS)) {
+    const end = task.ts + (task.dur ?? 0);
+    // 按脚本 URL 汇总任务内的脚本执行时间
+    const byScript = new Map<string, number>();
+    let outerEnd = 0;
+    for (const script of scripts) {
+      if (script.pid !== task.pid || script.tid !== task.tid || script.ts < task.ts || script.ts >= end) continue;
+      // 嵌套在其他脚本事件中的调用已计入外层
+      if (script.ts < outerEnd) continue;
+      outerEnd = script.ts + (script.dur ?? 0);
+      const data = script.args?.data;
+      const key = `${data?.url || '(匿名脚本)'}${data?.functionName ? ` (${data.functionName})` : ''}`;
+      byScript.set(key, (byScript.get(key) ?? 0) + (script.dur ?? 0));
+    }
+
+    lines.push(`    ${((task.dur ?? 0) / 1000).toFixed(0)}ms @ ${((task.ts - start) / 1000).toFixed(0)}ms`);
+    const top = [...byScript.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3);
+    for (const [script, time] of top) {
+      lines.push(`        ${script}: ${(time / 1000).toFixed(1)}ms`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,223 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname, join } from 'path';
+import { evaluateBidi, getBidiContextUrl } from './bidi.js';
+import { config } from './config.js';
+import { DEFAULT_COMMAND_TIMEOUT, sendCommand } from './protocol.js';
+import { redactContent, redactUrl } from './redact.js';
+import { BrowserSession } from './types.js';
+
+// 审计日志记录的执行结果：success 成功，exception 代码抛出异常（含只读模式下的副作用），error 执行失败，denied 被策略拒绝
+type AuditStatus = 'success' | 'exception' | 'error' | 'denied';
+
+interface AuditEntry {
+  time: string;
+  tool: string;
+  sessionId: string;
+  url: string;
+  protocol: string;
+  policy: string;
+  context?: string; // evaluate_javascript 的执行上下文
+  expression?: string; // 执行的代码（已脱敏）
+  detail?: string; // 页面操作的参数摘要（已脱敏）
+  status: AuditStatus;
+  error?: string;
+  duration: number; // 毫秒
+}
+
+// 审计记录中由调用方提供的部分
+type AuditSubject = Pick<AuditEntry, 'tool' | 'context' | 'expression' | 'detail'>;
+
+// 审计日志按调用顺序写入
+let auditWrites: Promise<void> = Promise.resolve();
+
+function auditLogPath(): string | undefined {
+  return config.auditLog ?? (config.storeDir ? join(config.storeDir, 'audit.jsonl') : undefined);
+}
+
+// 追加一条审计记录，写入失败只输出警告，不影响执行结果
+function audit(entry: AuditEntry) {
+  const path = auditLogPath();
+  if (!path) return;
+
+  auditWrites = auditWrites
+    .then(async () => {
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, `${JSON.stringify(entry)}\n`);
+    })
+    .catch((error) => {
+      console.error(`[MCP] 写入审计日志 ${path} 失败:`, error instanceof Error ? error.message : error);
+    });
+}
+
+// 主机名匹配：完全相同，或 *.example.com 匹配其子域名
+export function matchesHostname(hostname: string, pattern: string): boolean {
+  const host = hostname.toLowerCase();
+  const expected = pattern.toLowerCase();
+  if (expected.startsWith('*.')) {
+    return host.endsWith(expected.slice(1));
+  }
+  return host === expected;
+}
+
+// 来源匹配：http://localhost:3000 匹配协议、主机和端口；example.com、*.example.com 只匹配主机名
+export function matchesOrigin(url: string, pattern: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  const separator = pattern.indexOf('://');
+  if (separator === -1) {
+    return matchesHostname(parsed.hostname, pattern);
+  }
+  if (parsed.protocol !== `${pattern.slice(0, separator).toLowerCase()}:`) {
+    return false;
+  }
+  const host = pattern.slice(separator + 3).replace(/\/+$/, '');
+  // 带端口时比较 host（含端口），否则只比较主机名
+  return /:\d+$/.test(host) ? matchesHostname(parsed.host, host) : matchesHostname(parsed.hostname, host);
+}
+
+// 检查是否允许连接到该主机（connect_browser、get_browser_tabs）
+export function checkHost(host: string) {
+  if (config.allowedHosts.length === 0) return;
+  const hostname = host.replace(/^\[(.*)\]$/, '$1');
+  if (!config.allowedHosts.some((pattern) => matchesHostname(hostname, pattern.replace(/^\[(.*)\]$/, '$1')))) {
+    throw new Error(`主机 ${host} 不在允许连接的列表中（allowedHosts: ${config.allowedHosts.join(', ')}）`);
+  }
+}
+
+// 检查页面来源是否在 evaluateOrigins 中，返回拒绝原因
+function checkOrigin(url: string): string | undefined {
+  if (config.evaluateOrigins.length > 0 && !config.evaluateOrigins.some((pattern) => matchesOrigin(url, pattern))) {
+    return `页面 ${redactUrl(url)} 不在允许执行 JavaScript 和页面操作的来源列表中（evaluateOrigins: ${config.evaluateOrigins.join(', ')}）`;
+  }
+  return undefined;
+}
+
+// 检查是否允许在会话中执行代码，返回拒绝原因
+function checkEvaluate(session: BrowserSession, url: string): string | undefined {
+  if (config.evaluate === 'deny') {
+    return '已按配置禁止执行 JavaScript（evaluate: deny）';
+  }
+  if (config.evaluate === 'readonly' && session.protocol === 'bidi') {
+    return '只读模式（evaluate: readonly）依赖 CDP 的副作用检查，BiDi 会话不支持';
+  }
+  return checkOrigin(url);
+}
+
+// 检查是否允许修改页面状态（导航、输入、写 Cookie 和存储），返回拒绝原因
+function checkAction(url: string): string | undefined {
+  if (config.evaluate !== 'allow') {
+    return `已按配置禁止修改页面状态（evaluate: ${config.evaluate}）`;
+  }
+  return checkOrigin(url);
+}
+
+// 标签页当前的 URL：session.url 由导航事件异步更新，刚导航时可能仍是上一个页面，策略检查前向浏览器查询
+async function currentUrl(session: BrowserSession): Promise<string> {
+  if (session.protocol === 'bidi') {
+    return getBidiContextUrl(session);
+  }
+  const { targetInfo } = await sendCommand(session, 'Target.getTargetInfo', { targetId: session.targetId });
+  return targetInfo.url;
+}
+
+// 判断执行结果是否为代码抛出的异常
+function isException(result: unknown): boolean {
+  const value = result as { exceptionDetails?: unknown; type?: string } | undefined;
+  return Boolean(value?.exceptionDetails) || value?.type === 'exception';
+}
+
+// 按策略检查后执行，并写入审计日志；check 返回拒绝原因时不执行
+async function runAudited<T>(
+  session: BrowserSession,
+  subject: AuditSubject,
+  check: ((url: string) => string | undefined) | undefined,
+  run: () => Promise<T>,
+): Promise<T> {
+  const startedAt = Date.now();
+  let url = session.url;
+  const record = (status: AuditStatus, error?: string) => audit({
+    time: new Date(startedAt).toISOString(),
+    ...subject,
+    sessionId: session.id,
+    url: redactUrl(url),
+    protocol: session.protocol,
+    policy: config.evaluate,
+    status,
+    error,
+    duration: Date.now() - startedAt,
+  });
+
+  try {
+    url = await currentUrl(session);
+  } catch (error) {
+    record('error', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+
+  const denied = check?.(url);
+  if (denied) {
+    record('denied', denied);
+    throw new Error(denied);
+  }
+
+  try {
+    const result = await run();
+    record(isException(result) ? 'exception' : 'success');
+    return result;
+  } catch (error) {
+    record('error', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
+// 按安全策略在会话中执行 JavaScript：检查执行策略和来源，设置执行超时，并写入审计日志。
+// context 为 console 时可使用命令行 API（$、$$ 等），返回原始的协议结果
+export function evaluateWithPolicy(session: BrowserSession, code: string, context: string): Promise<unknown> {
+  // 命令超时留出余量，让浏览器先按执行超时中止脚本并返回结果
+  const timeout = config.evaluateTimeout > 0 ? config.evaluateTimeout : undefined;
+  const commandTimeout = Math.max(DEFAULT_COMMAND_TIMEOUT, (timeout ?? 0) + 1000);
+  const throwOnSideEffect = config.evaluate === 'readonly' || undefined;
+
+  const subject = { tool: 'evaluate_javascript', context, expression: redactContent(code) };
+  return runAudited(session, subject, (url) => checkEvaluate(session, url), async () => {
+    if (session.protocol === 'bidi') {
+      return evaluateBidi(session, code, timeout);
+    }
+    if (context === 'console') {
+      return sendCommand(session, 'Runtime.evaluate', {
+        expression: code,
+        objectGroup: 'console',
+        includeCommandLineAPI: true,
+        throwOnSideEffect,
+        timeout,
+      }, commandTimeout);
+    }
+    return sendCommand(session, 'Runtime.evaluate', {
+      expression: code,
+      returnByValue: true,
+      throwOnSideEffect,
+      timeout,
+    }, commandTimeout);
+  });
+}
+
+// 按安全策略执行修改页面状态的工具：只读和禁止执行模式下拒绝，检查页面来源，并写入审计日志。
+// detail 为写入审计日志的参数摘要，调用方负责脱敏
+export function runPageAction<T>(session: BrowserSession, tool: string, detail: string, action: () => Promise<T>): Promise<T> {
+  return runAudited(session, { tool, detail }, checkAction, action);
+}
+
+// 读取 User Agent（get_browser_info）：表达式固定、不执行调用方的代码，因此不受执行策略和来源限制，
+// 但仍写入审计日志；CDP 会话始终开启副作用检查
+export function readUserAgent(session: BrowserSession): Promise<unknown> {
+  const expression = 'navigator.userAgent';
+  return runAudited(session, { tool: 'get_browser_info', expression }, undefined, () =>
+    session.protocol === 'bidi'
+      ? evaluateBidi(session, expression)
+      : sendCommand(session, 'Runtime.evaluate', { expression, returnByValue: true, throwOnSideEffect: true }));
+}
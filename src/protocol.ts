@@ -0,0 +1,162 @@
+import type { ProtocolMapping } from 'devtools-protocol/types/protocol-mapping.js';
+import { ProtocolConnection } from './types.js';
+
+type CdpCommands = ProtocolMapping.Commands;
+type CdpEvents = ProtocolMapping.Events;
+
+// 默认命令超时（毫秒）
+export const DEFAULT_COMMAND_TIMEOUT = 10000;
+
+// 命令参数与返回值类型，取自 devtools-protocol 的协议映射
+export type CommandParams<M extends keyof CdpCommands> = CdpCommands[M]['paramsType'][number];
+export type CommandResult<M extends keyof CdpCommands> = CdpCommands[M]['returnType'];
+
+// 事件参数类型：已知的 CDP 事件有精确类型，其他协议的事件为 unknown
+export type EventParams<E extends string> = E extends keyof CdpEvents ? CdpEvents[E][number] : unknown;
+
+// 协议消息：CDP 的命令响应 / 事件，或 WebDriver BiDi 的 success / error / event 消息
+interface ProtocolMessage {
+  id?: number | null;
+  result?: unknown;
+  error?: { code?: number; message: string } | string;
+  message?: string;
+  method?: string;
+  params?: unknown;
+  type?: string;
+  sessionId?: string; // CDP flatten 模式下来自子目标的消息
+}
+
+// 命令 ID 全局递增：共享同一 WebSocket 的连接之间不会冲突
+let nextCommandId = 1;
+
+function protocolName(connection: ProtocolConnection): string {
+  return connection.protocol === 'bidi' ? 'BiDi' : 'CDP';
+}
+
+// 发送协议命令（不做参数类型检查），按 id 关联响应，超时或连接关闭时拒绝
+export function sendRawCommand(
+  connection: ProtocolConnection,
+  method: string,
+  params?: object,
+  timeout = DEFAULT_COMMAND_TIMEOUT,
+): Promise<unknown> {
+  const name = protocolName(connection);
+
+  return new Promise((resolve, reject) => {
+    if (!connection.ws || !connection.connected) {
+      reject(new Error(`会话 ${connection.id} 未连接`));
+      return;
+    }
+
+    const id = nextCommandId++;
+    const timer = setTimeout(() => {
+      connection.pending.delete(id);
+      reject(new Error(`${name} 命令 ${method} 超时（${timeout}ms）`));
+    }, timeout);
+
+    connection.pending.set(id, {
+      method,
+      resolve,
+      reject,
+      timer,
+    });
+
+    // BiDi 要求 params 必须存在；发往 CDP 子目标的命令带上其 sessionId
+    const payload = connection.protocol === 'bidi'
+      ? { id, method, params: params ?? {} }
+      : { id, method, params, sessionId: connection.cdpSessionId };
+    connection.ws.send(JSON.stringify(payload), (error) => {
+      if (error) {
+        settleCommand(connection, id, new Error(`发送 ${name} 命令 ${method} 失败: ${error.message}`));
+      }
+    });
+  });
+}
+
+// 发送 CDP 命令，参数和返回值按 devtools-protocol 检查类型
+export function sendCommand<M extends keyof CdpCommands>(
+  session: ProtocolConnection,
+  method: M,
+  params?: CommandParams<M>,
+  timeout = DEFAULT_COMMAND_TIMEOUT,
+): Promise<CommandResult<M>> {
+  return sendRawCommand(session, method, params, timeout) as Promise<CommandResult<M>>;
+}
+
+// 结束一个等待中的命令
+function settleCommand(session: ProtocolConnection, id: number, error: Error | null, result?: unknown) {
+  const pending = session.pending.get(id);
+  if (!pending) return;
+
+  session.pending.delete(id);
+  clearTimeout(pending.timer);
+  if (error) {
+    pending.reject(error);
+  } else {
+    pending.resolve(result);
+  }
+}
+
+// 拒绝所有等待中的命令（连接关闭时调用）
+export function rejectPendingCommands(session: ProtocolConnection, reason: string) {
+  for (const [id, pending] of session.pending) {
+    settleCommand(session, id, new Error(`${protocolName(session)} 命令 ${pending.method} 失败: ${reason}`));
+  }
+}
+
+// 订阅协议事件，返回取消订阅函数
+export function subscribe<E extends string>(session: ProtocolConnection, event: E, handler: (params: EventParams<E>) => void): () => void {
+  let handlers = session.listeners.get(event);
+  if (!handlers) {
+    handlers = new Set();
+    session.listeners.set(event, handlers);
+  }
+  handlers.add(handler as (params: unknown) => void);
+
+  return () => unsubscribe(session, event, handler);
+}
+
+// 取消订阅协议事件
+export function unsubscribe<E extends string>(session: ProtocolConnection, event: E, handler: (params: EventParams<E>) => void) {
+  const handlers = session.listeners.get(event);
+  if (!handlers) return;
+
+  handlers.delete(handler as (params: unknown) => void);
+  if (handlers.size === 0) {
+    session.listeners.delete(event);
+  }
+}
+
+// 分发一条原始协议消息：命令响应交给等待中的命令，事件交给订阅者。
+// 子目标与页面共享等待中的命令；带 sessionId 的 CDP 事件交给对应的子目标，未知子目标的事件丢弃
+export function dispatchMessage(session: ProtocolConnection, data: string) {
+  const message: ProtocolMessage = JSON.parse(data);
+
+  if (typeof message.id === 'number') {
+    if (typeof message.error === 'string') {
+      settleCommand(session, message.id, new Error(`BiDi 错误: ${message.error}${message.message ? ` - ${message.message}` : ''}`));
+    } else if (message.error) {
+      settleCommand(session, message.id, new Error(`CDP 错误: ${message.error.message}`));
+    } else {
+      settleCommand(session, message.id, null, message.result);
+    }
+    return;
+  }
+
+  // CDP 与 BiDi 的事件都以 method 区分
+  const event = message.method;
+  const params = message.params;
+  if (!event) return;
+
+  const target = message.sessionId ? session.children?.get(message.sessionId) : session;
+  const handlers = target?.listeners.get(event);
+  if (!handlers) return;
+
+  for (const handler of [...handlers]) {
+    try {
+      handler(params);
+    } catch (error) {
+      console.error(`[MCP] 会话 ${session.id} 处理事件 ${event} 失败:`, error);
+    }
+  }
+}
@@ -0,0 +1,465 @@
+import { currentNavigation } from './session.js';
+import type { HistoryWindow } from './store.js';
+import { BrowserSession, ConsoleMessage, NetworkRequest, RealtimeConnection, RealtimeMessage, TargetTag } from './types.js';
+
+// 分页结果
+export interface Page<T> {
+  items: T[];
+  total: number; // 过滤后的总数
+  nextCursor?: string;
+}
+
+export type SortOrder = 'asc' | 'desc';
+
+// 网络请求查询条件
+export interface NetworkQuery {
+  method?: string;
+  url?: string;
+  urlRegex?: RegExp;
+  types?: string[];
+  status?: (status: number) => boolean;
+  failedOnly: boolean;
+  mimeType?: string;
+  minDuration?: number;
+  targetTypes?: string[];
+  targetUrl?: string;
+  since?: number;
+  until?: number;
+  sinceNavigation: boolean;
+  sortBy: 'time' | 'duration' | 'size';
+  order: SortOrder;
+  limit: number;
+  cursor?: string;
+}
+
+// 控制台日志查询条件
+export interface ConsoleQuery {
+  levels?: string[];
+  sources?: string[];
+  text?: string;
+  textRegex?: RegExp;
+  url?: string;
+  targetTypes?: string[];
+  targetUrl?: string;
+  since?: number;
+  until?: number;
+  sinceNavigation: boolean;
+  afterId?: number;
+  limit: number;
+}
+
+// WebSocket / SSE 消息查询条件
+export interface RealtimeQuery {
+  kind?: RealtimeMessage['kind'];
+  direction?: RealtimeMessage['direction'];
+  url?: string;
+  connectionId?: string;
+  text?: string;
+  textRegex?: RegExp;
+  since?: number;
+  until?: number;
+  sinceNavigation: boolean;
+  limit: number;
+}
+
+// 控制台日志查询结果
+export interface ConsoleResult {
+  items: ConsoleMessage[];
+  total: number; // 过滤后的总数
+  hasMore: boolean; // afterId 之后还有未返回的消息
+  lastId?: number; // 下次轮询使用的 afterId
+}
+
+// 排序键：主键 + 时间 + 会话 + ID，保证顺序稳定
+type SortKey = [number, number, string, string];
+
+// 分页游标：上一页最后一条的时间 + 会话 + ID。耗时、大小在请求结束前还会变化，
+// 游标只记录不变的字段，翻页时按它们定位，缓存变化后依然有效
+type Cursor = [number, string, string];
+
+// 解析时间参数：毫秒时间戳或 ISO 日期字符串
+export function parseTime(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return value;
+  const time = Date.parse(String(value));
+  if (Number.isNaN(time)) {
+    throw new Error(`无效的时间参数 ${name}: ${value}`);
+  }
+  return time;
+}
+
+// 解析非负数参数；integer 为 true 时只接受整数（如日志 ID）
+function parseNonNegative(value: unknown, name: string, integer = false): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isFinite(number) || number < 0 || (integer && !Number.isInteger(number))) {
+    throw new Error(`无效的参数 ${name}: ${value}（需要${integer ? '非负整数' : '非负数'}）`);
+  }
+  return number;
+}
+
+// 解析排序方向，默认从新到旧
+function parseOrder(value: unknown): SortOrder {
+  if (value === undefined || value === null || value === '') return 'desc';
+  if (value !== 'asc' && value !== 'desc') {
+    throw new Error(`无效的排序方向: ${value}（可用: asc、desc）`);
+  }
+  return value;
+}
+
+// 解析正则参数
+export function parseRegex(value: unknown, name: string): RegExp | undefined {
+  if (!value) return undefined;
+  try {
+    return new RegExp(String(value), 'i');
+  } catch (error) {
+    throw new Error(`无效的正则表达式 ${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// 解析状态码过滤：支持 404、4xx、400-499 以及逗号分隔的组合（如 4xx,5xx）
+export function parseStatusFilter(value: unknown): ((status: number) => boolean) | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  const matchers = String(value).split(',').map((part) => {
+    const spec = part.trim().toLowerCase();
+    let match = /^([1-5])xx$/.exec(spec);
+    if (match) {
+      const base = Number(match[1]) * 100;
+      return (status: number) => status >= base && status < base + 100;
+    }
+    match = /^(\d{3})\s*-\s*(\d{3})$/.exec(spec);
+    if (match) {
+      const [min, max] = [Number(match[1]), Number(match[2])];
+      return (status: number) => status >= min && status <= max;
+    }
+    if (/^\d{3}$/.test(spec)) {
+      const code = Number(spec);
+      return (status: number) => status === code;
+    }
+    throw new Error(`无效的状态码过滤: ${part}（示例: 404、4xx、400-499、4xx,5xx）`);
+  });
+
+  return (status: number) => matchers.some((matcher) => matcher(status));
+}
+
+// 解析逗号分隔的列表参数
+export function parseList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const list = Array.isArray(value) ? value.map(String) : String(value).split(',');
+  const items = list.map((item) => item.trim().toLowerCase()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+// 从工具参数解析网络请求查询条件
+export function parseNetworkQuery(args: Record<string, unknown> | undefined): NetworkQuery {
+  const sortBy = (args?.sortBy as NetworkQuery['sortBy']) || 'time';
+  if (!['time', 'duration', 'size'].includes(sortBy)) {
+    throw new Error(`无效的排序字段: ${sortBy}`);
+  }
+
+  return {
+    method: (args?.method as string) || undefined,
+    url: (args?.url as string) || undefined,
+    urlRegex: parseRegex(args?.urlRegex, 'urlRegex'),
+    types: parseList(args?.type),
+    status: parseStatusFilter(args?.status),
+    failedOnly: (args?.failedOnly as boolean) || false,
+    mimeType: (args?.mimeType as string) || undefined,
+    minDuration: parseNonNegative(args?.minDuration, 'minDuration'),
+    targetTypes: parseList(args?.target),
+    targetUrl: (args?.targetUrl as string) || undefined,
+    since: parseTime(args?.since, 'since'),
+    until: parseTime(args?.until, 'until'),
+    sinceNavigation: args?.sinceNavigation === 'last',
+    sortBy,
+    order: parseOrder(args?.order),
+    limit: (args?.limit as number) || 50,
+    cursor: (args?.cursor as string) || undefined,
+  };
+}
+
+// 从工具参数解析控制台日志查询条件
+export function parseConsoleQuery(args: Record<string, unknown> | undefined): ConsoleQuery {
+  const levels = parseList(args?.level);
+
+  return {
+    levels: levels?.includes('all') ? undefined : levels,
+    sources: parseList(args?.source),
+    text: (args?.text as string) || undefined,
+    textRegex: parseRegex(args?.textRegex, 'textRegex'),
+    url: (args?.url as string) || undefined,
+    targetTypes: parseList(args?.target),
+    targetUrl: (args?.targetUrl as string) || undefined,
+    since: parseTime(args?.since, 'since'),
+    until: parseTime(args?.until, 'until'),
+    sinceNavigation: args?.sinceNavigation === 'last',
+    afterId: parseNonNegative(args?.afterId, 'afterId', true),
+    limit: (args?.limit as number) || 50,
+  };
+}
+
+// 只保留最近一次页面加载中的条目；会话没有导航记录（如离线会话）时不过滤
+function sinceLastNavigation<T extends { navigationId?: number }>(session: BrowserSession, items: T[]): T[] {
+  const navigation = currentNavigation(session);
+  if (!navigation) return items;
+  return items.filter((item) => (item.navigationId ?? 0) >= navigation.id);
+}
+
+// 合并持久化存储中的历史记录和内存缓存，同一条目以内存中的版本为准
+function withHistory<T>(items: T[], stored: T[] | undefined, keyOf: (item: T) => string | number): T[] {
+  if (!stored || stored.length === 0) return items;
+  const seen = new Set(items.map(keyOf));
+  return [...stored.filter((item) => !seen.has(keyOf(item))), ...items];
+}
+
+// 按来源目标过滤：page 表示顶层页面，其他为子目标类型（iframe、worker、service_worker 等）；
+// targetUrl 只匹配子目标的 URL
+function matchesTarget(target: TargetTag | undefined, types?: string[], url?: string): boolean {
+  if (types && !types.includes(target?.type ?? 'page')) return false;
+  if (url && !(target?.url ?? '').toLowerCase().includes(url.toLowerCase())) return false;
+  return true;
+}
+
+// 判断消息是否匹配查询条件
+export function matchesConsoleQuery(message: ConsoleMessage, query: ConsoleQuery): boolean {
+  if (query.levels && !query.levels.includes(message.level)) return false;
+  if (query.sources && !query.sources.includes(message.source.toLowerCase())) return false;
+  if (query.text && !message.text.toLowerCase().includes(query.text.toLowerCase())) return false;
+  if (query.textRegex && !query.textRegex.test(message.text)) return false;
+  if (query.url && !(message.url ?? '').toLowerCase().includes(query.url.toLowerCase())) return false;
+  if (!matchesTarget(message.target, query.targetTypes, query.targetUrl)) return false;
+  if (query.since !== undefined && message.timestamp < query.since) return false;
+  if (query.until !== undefined && message.timestamp > query.until) return false;
+  return true;
+}
+
+// 查询控制台日志：指定 afterId 时从该 ID 之后按时间顺序返回，否则返回最近的 limit 条。
+// history 为按会话 ID 索引的持久化存储记录
+export function queryConsoleMessages(targets: BrowserSession[], query: ConsoleQuery, history?: Map<string, ConsoleMessage[]>): ConsoleResult {
+  const matched = targets
+    .flatMap((session) => {
+      const messages = withHistory(session.messages, history?.get(session.id), (message) => message.id);
+      return query.sinceNavigation ? sinceLastNavigation(session, messages) : messages;
+    })
+    .filter((message) => matchesConsoleQuery(message, query))
+    .sort((a, b) => a.id - b.id);
+
+  let items: ConsoleMessage[];
+  let hasMore = false;
+  if (query.afterId !== undefined) {
+    const afterId = query.afterId;
+    const newer = matched.filter((message) => message.id > afterId);
+    items = newer.slice(0, query.limit);
+    hasMore = newer.length > query.limit;
+  } else {
+    items = matched.slice(-query.limit);
+  }
+
+  return {
+    items,
+    total: matched.length,
+    hasMore,
+    lastId: items.length > 0 ? items[items.length - 1].id : query.afterId,
+  };
+}
+
+// 控制台日志查询需要读取的存储范围：指定 afterId 时读取其后的全部日志，否则只读取最近的 limit 条匹配日志
+export function consoleHistoryWindow(session: BrowserSession, query: ConsoleQuery): HistoryWindow<ConsoleMessage> {
+  const navigation = query.sinceNavigation ? currentNavigation(session) : undefined;
+  const afterId = query.afterId;
+  return {
+    since: query.since,
+    until: query.until,
+    order: 'desc',
+    matches: (message) => matchesConsoleQuery(message, query) && (afterId === undefined || message.id > afterId),
+    // 日志按 ID 顺序写入，读到 afterId 或上一次页面加载的日志即可停止
+    stop: (message) => (afterId !== undefined && message.id <= afterId)
+      || (navigation !== undefined && (message.navigationId ?? 0) < navigation.id),
+    limit: afterId === undefined ? query.limit : undefined,
+  };
+}
+
+// 判断请求是否匹配查询条件
+export function matchesNetworkQuery(request: NetworkRequest, query: NetworkQuery): boolean {
+  if (query.method && request.method.toUpperCase() !== query.method.toUpperCase()) return false;
+  if (query.url && !request.url.toLowerCase().includes(query.url.toLowerCase())) return false;
+  if (query.urlRegex && !query.urlRegex.test(request.url)) return false;
+  if (query.types && !query.types.includes((request.type ?? '').toLowerCase())) return false;
+  if (query.status && (request.status === undefined || !query.status(request.status))) return false;
+  if (query.failedOnly && !request.failed) return false;
+  if (query.mimeType && !(request.mimeType ?? '').toLowerCase().includes(query.mimeType.toLowerCase())) return false;
+  if (query.minDuration !== undefined && (request.timing?.duration ?? -1) < query.minDuration) return false;
+  if (!matchesTarget(request.target, query.targetTypes, query.targetUrl)) return false;
+  if (query.since !== undefined && request.timestamp < query.since) return false;
+  if (query.until !== undefined && request.timestamp > query.until) return false;
+  return true;
+}
+
+function networkSortKey(request: NetworkRequest, sortBy: NetworkQuery['sortBy']): SortKey {
+  let primary: number;
+  switch (sortBy) {
+    case 'duration':
+      primary = request.timing?.duration ?? -1;
+      break;
+    case 'size':
+      primary = request.encodedDataLength ?? request.decodedBodyLength ?? -1;
+      break;
+    default:
+      primary = request.timestamp;
+  }
+  return [primary, request.timestamp, request.sessionId, request.requestId];
+}
+
+function cursorOf(key: SortKey): Cursor {
+  return [key[1], key[2], key[3]];
+}
+
+function compareKeys(a: SortKey | Cursor, b: SortKey | Cursor): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] < b[i]) return -1;
+    if (a[i] > b[i]) return 1;
+  }
+  return 0;
+}
+
+function encodeCursor(key: SortKey): string {
+  return Buffer.from(JSON.stringify(cursorOf(key))).toString('base64url');
+}
+
+function decodeCursor(cursor: string): Cursor {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (Array.isArray(key) && key.length === 3 && typeof key[0] === 'number' && typeof key[1] === 'string' && typeof key[2] === 'string') {
+      return key as Cursor;
+    }
+  } catch {
+    // 落到下面统一报错
+  }
+  throw new Error(`无效的分页游标: ${cursor}`);
+}
+
+// 游标之后第一条的位置：按时间排序时直接按时间比较；按其他字段排序时先找到上一页的最后一条，
+// 它已不在结果中（如被移出缓存）时无法定位
+function seekCursor(keys: SortKey[], after: Cursor, direction: number, byTime: boolean): number {
+  if (byTime) {
+    const start = keys.findIndex((key) => compareKeys(cursorOf(key), after) * direction > 0);
+    return start === -1 ? keys.length : start;
+  }
+  const last = keys.findIndex((key) => compareKeys(cursorOf(key), after) === 0);
+  if (last === -1) {
+    throw new Error('分页游标对应的记录已不存在，请重新查询');
+  }
+  return last + 1;
+}
+
+// 排序并分页：返回游标之后的 limit 条；byTime 表示排序主键即时间
+export function paginate<T>(items: T[], keyOf: (item: T) => SortKey, order: SortOrder, limit: number, cursor?: string, byTime = true): Page<T> {
+  const direction = order === 'asc' ? 1 : -1;
+  const keyed = items.map((item) => ({ item, key: keyOf(item) }));
+  keyed.sort((a, b) => compareKeys(a.key, b.key) * direction);
+
+  const start = cursor ? seekCursor(keyed.map((entry) => entry.key), decodeCursor(cursor), direction, byTime) : 0;
+
+  const page = keyed.slice(start, start + limit);
+  const hasMore = start + limit < keyed.length;
+
+  return {
+    items: page.map((entry) => entry.item),
+    total: keyed.length,
+    nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1].key) : undefined,
+  };
+}
+
+// 网络请求查询需要读取的存储范围：按时间排序时只保留游标之后的匹配请求，读到本页为止；
+// 按耗时或大小排序时需要读取整个时间范围，游标在合并后再定位
+export function networkHistoryWindow(session: BrowserSession, query: NetworkQuery): HistoryWindow<NetworkRequest> {
+  const navigation = query.sinceNavigation ? currentNavigation(session) : undefined;
+  const byTime = query.sortBy === 'time';
+  const after = query.cursor && byTime ? decodeCursor(query.cursor) : undefined;
+  const direction = query.order === 'asc' ? 1 : -1;
+  return {
+    since: query.since,
+    until: query.until,
+    order: byTime ? query.order : 'desc',
+    matches: (request) => matchesNetworkQuery(request, query)
+      && (navigation === undefined || (request.navigationId ?? 0) >= navigation.id)
+      && (after === undefined || compareKeys(cursorOf(networkSortKey(request, query.sortBy)), after) * direction > 0),
+    limit: byTime ? query.limit : undefined,
+  };
+}
+
+// 查询网络请求，history 为按会话 ID 索引的持久化存储记录
+export function queryNetworkRequests(targets: BrowserSession[], query: NetworkQuery, history?: Map<string, NetworkRequest[]>): Page<NetworkRequest> {
+  const matched = targets
+    .flatMap((session) => {
+      // 重定向沿用同一个 requestId，加上时间戳区分
+      const requests = withHistory(session.networkRequests, history?.get(session.id), (request) => `${request.requestId}@${request.timestamp}`);
+      return query.sinceNavigation ? sinceLastNavigation(session, requests) : requests;
+    })
+    .filter((request) => matchesNetworkQuery(request, query));
+
+  return paginate(matched, (request) => networkSortKey(request, query.sortBy), query.order, query.limit, query.cursor, query.sortBy === 'time');
+}
+
+// 从工具参数解析 WebSocket / SSE 消息查询条件
+export function parseRealtimeQuery(args: Record<string, unknown> | undefined): RealtimeQuery {
+  const kind = (args?.kind as string) || undefined;
+  if (kind && kind !== 'websocket' && kind !== 'sse') {
+    throw new Error(`无效的连接类型: ${kind}`);
+  }
+  const direction = (args?.direction as string) || undefined;
+  if (direction && !['sent', 'received', 'error'].includes(direction)) {
+    throw new Error(`无效的方向: ${direction}`);
+  }
+
+  return {
+    kind: kind as RealtimeQuery['kind'],
+    direction: direction as RealtimeQuery['direction'],
+    url: (args?.url as string) || undefined,
+    connectionId: (args?.connectionId as string) || undefined,
+    text: (args?.text as string) || undefined,
+    textRegex: parseRegex(args?.textRegex, 'textRegex'),
+    since: parseTime(args?.since, 'since'),
+    until: parseTime(args?.until, 'until'),
+    sinceNavigation: args?.sinceNavigation === 'last',
+    limit: (args?.limit as number) || 50,
+  };
+}
+
+// 判断 WebSocket / SSE 消息是否匹配查询条件
+export function matchesRealtimeQuery(message: RealtimeMessage, query: RealtimeQuery): boolean {
+  if (query.kind && message.kind !== query.kind) return false;
+  if (query.direction && message.direction !== query.direction) return false;
+  if (query.url && !message.url.toLowerCase().includes(query.url.toLowerCase())) return false;
+  if (query.connectionId && message.connectionId !== query.connectionId) return false;
+  if (query.text && !message.payload.toLowerCase().includes(query.text.toLowerCase())) return false;
+  if (query.textRegex && !query.textRegex.test(message.payload)) return false;
+  if (query.since !== undefined && message.timestamp < query.since) return false;
+  if (query.until !== undefined && message.timestamp > query.until) return false;
+  return true;
+}
+
+// 查询 WebSocket / SSE 消息：按时间顺序返回最近的 limit 条
+export function queryRealtimeMessages(targets: BrowserSession[], query: RealtimeQuery): Page<RealtimeMessage> {
+  const matched = targets
+    .flatMap((session) => (query.sinceNavigation ? sinceLastNavigation(session, session.realtimeMessages) : session.realtimeMessages))
+    .filter((message) => matchesRealtimeQuery(message, query))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  return {
+    items: matched.slice(-query.limit),
+    total: matched.length,
+  };
+}
+
+// 查询消息涉及的 WebSocket / SSE 连接（按连接类型、URL 和连接 ID 过滤）
+export function queryRealtimeConnections(targets: BrowserSession[], query: RealtimeQuery): RealtimeConnection[] {
+  return targets
+    .flatMap((session) => [...session.realtimeConnections.values()])
+    .filter((connection) =>
+      (!query.kind || connection.kind === query.kind) &&
+      (!query.url || connection.url.toLowerCase().includes(query.url.toLowerCase())) &&
+      (!query.connectionId || connection.requestId === query.connectionId))
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
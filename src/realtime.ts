@@ -0,0 +1,141 @@
+import type { Protocol } from 'devtools-protocol';
+import { config } from './config.js';
+import { findRequest } from './network.js';
+import { subscribe } from './protocol.js';
+import { redactContent, redactUrl } from './redact.js';
+import { addRealtimeMessage, onCapture } from './session.js';
+import { BrowserSession, ChildTarget, RealtimeConnection, RealtimeMessage } from './types.js';
+
+// EventSource 请求结束即 SSE 连接关闭
+onCapture((event) => {
+  if (event.kind !== 'network-finished') return;
+  const connection = event.session.realtimeConnections.get(event.entry.requestId);
+  if (connection?.kind === 'sse') {
+    connection.closedAt = Date.now();
+  }
+});
+
+// 注册 WebSocket 和 Server-Sent Events 相关的 CDP 事件处理器；child 为子目标（iframe、Worker）时，
+// 其连接和消息同样记录到页面会话，并带上子目标信息
+export function registerRealtimeHandlers(session: BrowserSession, child?: ChildTarget) {
+  const connection = child ?? session;
+  subscribe(connection, 'Network.webSocketCreated', (params) => handleWebSocketCreated(session, params, child));
+  subscribe(connection, 'Network.webSocketHandshakeResponseReceived', (params) => {
+    const connection = session.realtimeConnections.get(params.requestId);
+    if (connection) {
+      connection.status = params.response.status;
+    }
+  });
+  subscribe(connection, 'Network.webSocketFrameSent', (params) => handleFrame(session, params, 'sent', child));
+  subscribe(connection, 'Network.webSocketFrameReceived', (params) => handleFrame(session, params, 'received', child));
+  subscribe(connection, 'Network.webSocketFrameError', (params) => handleFrameError(session, params, child));
+  subscribe(connection, 'Network.webSocketClosed', (params) => {
+    const connection = session.realtimeConnections.get(params.requestId);
+    if (connection) {
+      connection.closedAt = Date.now();
+    }
+  });
+  subscribe(connection, 'Network.eventSourceMessageReceived', (params) => handleEventSourceMessage(session, params, child));
+}
+
+// 记录连接；只保留最近的 maxMessages 个
+function addConnection(session: BrowserSession, connection: RealtimeConnection) {
+  session.realtimeConnections.set(connection.requestId, connection);
+  if (session.realtimeConnections.size > session.maxMessages) {
+    const oldest = session.realtimeConnections.keys().next().value;
+    if (oldest !== undefined) {
+      session.realtimeConnections.delete(oldest);
+    }
+  }
+}
+
+// 创建消息，内容先脱敏（截断后的 JSON 无法按字段处理）再按配置的上限截断
+function createMessage(
+  session: BrowserSession,
+  connection: RealtimeConnection,
+  direction: RealtimeMessage['direction'],
+  rawPayload: string,
+): RealtimeMessage {
+  const payload = redactContent(rawPayload);
+  const truncated = payload.length > config.realtimePayloadLimit;
+  return {
+    sessionId: session.id,
+    connectionId: connection.requestId,
+    kind: connection.kind,
+    url: connection.url,
+    direction,
+    payload: truncated ? payload.slice(0, config.realtimePayloadLimit) : payload,
+    payloadLength: payload.length,
+    truncated,
+    target: connection.target,
+    timestamp: Date.now(),
+  };
+}
+
+function handleWebSocketCreated(session: BrowserSession, params: Protocol.Network.WebSocketCreatedEvent, child?: ChildTarget) {
+  addConnection(session, {
+    sessionId: session.id,
+    requestId: params.requestId,
+    kind: 'websocket',
+    url: redactUrl(params.url),
+    createdAt: Date.now(),
+    target: child?.target,
+  });
+}
+
+// 附加前已建立的连接没有 webSocketCreated 事件，URL 未知
+function getWebSocket(session: BrowserSession, requestId: string, child?: ChildTarget): RealtimeConnection {
+  let connection = session.realtimeConnections.get(requestId);
+  if (!connection) {
+    connection = {
+      sessionId: session.id,
+      requestId,
+      kind: 'websocket',
+      url: '(附加前建立的连接)',
+      createdAt: Date.now(),
+      target: child?.target,
+    };
+    addConnection(session, connection);
+  }
+  return connection;
+}
+
+function handleFrame(
+  session: BrowserSession,
+  params: Protocol.Network.WebSocketFrameSentEvent,
+  direction: 'sent' | 'received',
+  child?: ChildTarget,
+) {
+  const connection = getWebSocket(session, params.requestId, child);
+  const message = createMessage(session, connection, direction, params.response.payloadData);
+  message.opcode = params.response.opcode;
+  addRealtimeMessage(session, message);
+}
+
+function handleFrameError(session: BrowserSession, params: Protocol.Network.WebSocketFrameErrorEvent, child?: ChildTarget) {
+  const connection = getWebSocket(session, params.requestId, child);
+  addRealtimeMessage(session, createMessage(session, connection, 'error', params.errorMessage));
+}
+
+// SSE 消息：连接即 EventSource 请求本身，URL 取自网络请求记录
+function handleEventSourceMessage(session: BrowserSession, params: Protocol.Network.EventSourceMessageReceivedEvent, child?: ChildTarget) {
+  let connection = session.realtimeConnections.get(params.requestId);
+  if (!connection) {
+    const request = findRequest(session, params.requestId);
+    connection = {
+      sessionId: session.id,
+      requestId: params.requestId,
+      kind: 'sse',
+      url: request?.url ?? '(未知的 EventSource)',
+      createdAt: request?.timestamp ?? Date.now(),
+      status: request?.status,
+      target: request?.target ?? child?.target,
+    };
+    addConnection(session, connection);
+  }
+
+  const message = createMessage(session, connection, 'received', params.data);
+  message.eventName = params.eventName;
+  message.eventId = params.eventId || undefined;
+  addRealtimeMessage(session, message);
+}
@@ -0,0 +1,186 @@
+import { config } from './config.js';
+import { NetworkRequest } from './types.js';
+
+// 脱敏标记
+const REDACTED = '[已脱敏]';
+const REDACTED_JWT = '[已脱敏:JWT]';
+
+// 敏感字段名（JSON 字段、表单字段、URL 参数、文本中的键值对）
+const SENSITIVE_NAME = '[\\w-]*(?:password|passwd|pwd|secret|token|api[-_]?key|private[-_]?key|credential|session[-_]?id|authorization|cookie)[\\w-]*';
+const SENSITIVE_NAME_REGEX = new RegExp(`^${SENSITIVE_NAME}$`, 'i');
+
+// 文本中的键值对：password: "…"、'token': '…'、api_key=…（URL 参数和表单同样适用）
+const KEY_VALUE_REGEX = new RegExp(`(["']?)(${SENSITIVE_NAME})\\1(\\s*[:=]\\s*)(?:"[^"]*"|'[^']*'|[^\\s"',;&}\\]]+)`, 'gi');
+
+// 形如 JWT 的字符串（header 以 {" 开头，base64url 编码后以 eyJ 开头）
+const JWT_REGEX = /eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]*/g;
+
+const BEARER_REGEX = /\b(Bearer)\s+[A-Za-z0-9._~+/=-]{8,}/gi;
+
+// URL 中的 OAuth 授权码（?code=…），字段名过于通用，只在 URL 参数中处理
+const OAUTH_CODE_REGEX = /([?&#]code=)[^&#]*/gi;
+
+// 值整体脱敏的请求/响应头，Cookie 和 Set-Cookie 另行处理（保留 Cookie 名称和属性）
+const SENSITIVE_HEADERS = new Set(['authorization', 'proxy-authorization', 'x-api-key', 'x-auth-token', 'x-csrf-token', 'x-xsrf-token']);
+
+// 用户配置的规则，首次使用时编译
+let userRules: { headers: Set<string>; jsonPaths: string[][]; patterns: RegExp[] } | undefined;
+
+function getUserRules() {
+  if (!userRules) {
+    const patterns: RegExp[] = [];
+    for (const source of config.redactPatterns) {
+      try {
+        patterns.push(new RegExp(source, 'g'));
+      } catch (error) {
+        console.error(`[MCP] 忽略无效的脱敏正则 ${source}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    userRules = {
+      headers: new Set(config.redactHeaders.map((name) => name.toLowerCase())),
+      // $.a.b、a[0].b、a.*.b 统一为按字段名分段
+      jsonPaths: config.redactJsonPaths.map((path) =>
+        path.replace(/^\$\.?/, '').replace(/\[(\d+|\*)\]/g, '.$1').split('.').filter(Boolean)),
+      patterns,
+    };
+  }
+  return userRules;
+}
+
+function matchesJsonPath(keys: string[]): boolean {
+  return getUserRules().jsonPaths.some((path) =>
+    path.length === keys.length && path.every((segment, i) => segment === '*' || segment === keys[i]));
+}
+
+// 脱敏字符串中的 JWT、Bearer 令牌和用户配置的正则
+function redactString(text: string): string {
+  let result = text.replace(JWT_REGEX, REDACTED_JWT).replace(BEARER_REGEX, `$1 ${REDACTED}`);
+  for (const pattern of getUserRules().patterns) {
+    result = result.replace(pattern, REDACTED);
+  }
+  return result;
+}
+
+// 脱敏自由文本：在字符串规则之外，处理文本中的敏感键值对
+function redactText(text: string): string {
+  return redactString(text).replace(KEY_VALUE_REGEX, (_match, quote: string, name: string, separator: string) =>
+    `${quote}${name}${quote}${separator}${REDACTED}`);
+}
+
+// 脱敏 URL：查询参数和片段中的令牌（如 OAuth 重定向的 #access_token=…、?code=…）
+export function redactUrl(url: string): string {
+  if (!config.redact) return url;
+  return redactText(url).replace(OAUTH_CODE_REGEX, `$1${REDACTED}`);
+}
+
+// 递归脱敏 JSON 值：敏感字段名和配置的路径整体替换，其他字符串按字符串规则处理
+function redactJson(value: unknown, keys: string[], state: { changed: boolean }): unknown {
+  if (typeof value === 'string') {
+    const result = redactString(value);
+    if (result !== value) state.changed = true;
+    return result;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const entries = Array.isArray(value) ? value.map((item, index) => [String(index), item] as const) : Object.entries(value);
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of entries) {
+    const path = [...keys, key];
+    // 敏感字段的值整体替换（含数组和对象，如 {"tokens": [...]}）；null 和布尔值不含敏感内容，保留原值
+    const sensitive = item !== null && typeof item !== 'boolean' && SENSITIVE_NAME_REGEX.test(key);
+    if (item !== undefined && (sensitive || matchesJsonPath(path))) {
+      result[key] = REDACTED;
+      state.changed = true;
+    } else {
+      result[key] = redactJson(item, path, state);
+    }
+  }
+  return Array.isArray(value) ? Object.values(result) : result;
+}
+
+// 脱敏内容（请求体、响应体、日志文本、WebSocket 消息）：能解析为 JSON 时按字段处理并保留原有缩进风格，否则按文本处理
+export function redactContent(text: string): string;
+export function redactContent(text: string | undefined): string | undefined;
+export function redactContent(text: string | undefined): string | undefined {
+  if (!config.redact || !text) return text;
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      const state = { changed: false };
+      const value = redactJson(JSON.parse(text), [], state);
+      if (!state.changed) return text;
+      return JSON.stringify(value, null, text.includes('\n') ? 2 : undefined);
+    } catch {
+      // 不是完整的 JSON（如被截断），按文本处理
+    }
+  }
+  return redactText(text);
+}
+
+// 脱敏按名称保存的值（如 localStorage 的条目）：名称敏感时整体替换，否则按内容处理
+export function redactNamedValue(name: string, value: string): string {
+  if (!config.redact) return value;
+  return SENSITIVE_NAME_REGEX.test(name) ? REDACTED : redactContent(value);
+}
+
+// 脱敏 Cookie 的值：与 Cookie 请求头一致，只保留名称和属性
+export function redactCookieValue(value: string): string {
+  return config.redact ? REDACTED : value;
+}
+
+// 脱敏单个 Cookie 列表（a=1; b=2），只保留名称
+function redactCookie(value: string): string {
+  return value
+    .split(';')
+    .map((pair) => {
+      const index = pair.indexOf('=');
+      return index === -1 ? pair : `${pair.slice(0, index)}=${REDACTED}`;
+    })
+    .join(';');
+}
+
+// 脱敏 Set-Cookie：只替换 Cookie 的值，保留 Path、HttpOnly 等属性；多个 Set-Cookie 以换行合并
+function redactSetCookie(value: string): string {
+  return value
+    .split('\n')
+    .map((line) => line.replace(/^([^=;]*)=[^;]*/, `$1=${REDACTED}`))
+    .join('\n');
+}
+
+function redactHeader(name: string, value: string): string {
+  const lower = name.toLowerCase();
+  if (lower === 'cookie') return redactCookie(value);
+  if (lower === 'set-cookie') return redactSetCookie(value);
+  if (lower === 'authorization' || lower === 'proxy-authorization') {
+    // 保留认证方案（Bearer、Basic 等）
+    const match = /^(\S+)\s+\S/.exec(value);
+    return match ? `${match[1]} ${REDACTED}` : REDACTED;
+  }
+  if (SENSITIVE_HEADERS.has(lower) || getUserRules().headers.has(lower) || SENSITIVE_NAME_REGEX.test(lower)) {
+    return REDACTED;
+  }
+  return redactText(value);
+}
+
+// 脱敏请求/响应头
+export function redactHeaders(headers: Record<string, string>): Record<string, string>;
+export function redactHeaders(headers: Record<string, string> | undefined): Record<string, string> | undefined;
+export function redactHeaders(headers: Record<string, string> | undefined): Record<string, string> | undefined {
+  if (!config.redact || !headers) return headers;
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, redactHeader(name, String(value))]));
+}
+
+// 请求加入缓存前脱敏：URL 参数、请求/响应头、请求体和已保存的响应体
+export function redactRequest(request: NetworkRequest) {
+  if (!config.redact) return;
+  request.url = redactUrl(request.url);
+  request.requestHeaders = redactHeaders(request.requestHeaders);
+  request.responseHeaders = redactHeaders(request.responseHeaders);
+  request.postData = redactContent(request.postData);
+  if (request.responseBody && !request.responseBody.base64Encoded) {
+    request.responseBody.text = redactContent(request.responseBody.text);
+  }
+}
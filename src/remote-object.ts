@@ -0,0 +1,216 @@
+import type { Protocol } from 'devtools-protocol';
+import { sendCommand } from './protocol.js';
+import { ProtocolConnection } from './types.js';
+
+type RemoteObject = Protocol.Runtime.RemoteObject;
+type ObjectPreview = Protocol.Runtime.ObjectPreview;
+type PropertyPreview = Protocol.Runtime.PropertyPreview;
+
+// 展开对象时每层最多显示的属性数
+const MAX_EXPANDED_PROPERTIES = 100;
+
+// 这些子类型的预览或描述已足够直观，不再逐个属性展开
+const OPAQUE_SUBTYPES = new Set(['node', 'error', 'regexp', 'date', 'map', 'set', 'weakmap', 'weakset', 'promise', 'proxy']);
+
+// 格式化函数
+function describeFunction(description?: string): string {
+  const match = /^(?:async\s+)?(?:function\s*\*?\s*)?([\w$]*)\s*\(/.exec(description ?? '');
+  return `ƒ ${match?.[1] ?? ''}()`;
+}
+
+// 格式化属性预览中的值
+function describePropertyPreview(property: PropertyPreview): string {
+  if (property.valuePreview) {
+    return describePreview(property.valuePreview);
+  }
+  switch (property.type) {
+    case 'string':
+      return JSON.stringify(property.value ?? '');
+    case 'function':
+      return describeFunction(property.value);
+    case 'accessor':
+      return '(...)';
+    case 'object':
+      return property.subtype === 'null' ? 'null' : property.value ?? 'Object';
+    default:
+      return property.value ?? String(property.type);
+  }
+}
+
+// 格式化对象预览，类似 DevTools 中折叠状态的显示
+export function describePreview(preview: ObjectPreview): string {
+  const overflow = preview.overflow ? ', …' : '';
+
+  switch (preview.subtype) {
+    case 'array':
+    case 'typedarray': {
+      const items = preview.properties.map(describePropertyPreview);
+      const prefix = preview.description && !preview.description.startsWith('Array(') ? `${preview.description} ` : '';
+      return `${prefix}[${items.join(', ')}${overflow}]`;
+    }
+    case 'map':
+    case 'weakmap': {
+      const entries = (preview.entries ?? []).map((entry) => {
+        const key = entry.key ? describePreview(entry.key) : '';
+        return `${key} => ${describePreview(entry.value)}`;
+      });
+      return `${preview.description ?? 'Map'} {${entries.join(', ')}${overflow}}`;
+    }
+    case 'set':
+    case 'weakset': {
+      const entries = (preview.entries ?? []).map((entry) => describePreview(entry.value));
+      return `${preview.description ?? 'Set'} {${entries.join(', ')}${overflow}}`;
+    }
+    case 'node':
+    case 'error':
+    case 'regexp':
+    case 'date':
+      return preview.description ?? preview.subtype;
+    case 'null':
+      return 'null';
+  }
+
+  if (preview.type !== 'object') {
+    // 嵌套的原始值预览（如 Map 的键）
+    return preview.type === 'string' ? JSON.stringify(preview.description ?? '') : preview.description ?? preview.type;
+  }
+
+  const properties = preview.properties.map((property) => `${property.name}: ${describePropertyPreview(property)}`);
+  const prefix = preview.description && preview.description !== 'Object' ? `${preview.description} ` : '';
+  return `${prefix}{${properties.join(', ')}${overflow}}`;
+}
+
+// 格式化远程对象；nested 为 true 时字符串加引号
+export function describeRemoteObject(object: RemoteObject, nested = false): string {
+  switch (object.type) {
+    case 'string':
+      return nested ? JSON.stringify(object.value) : String(object.value);
+    case 'number':
+    case 'boolean':
+    case 'bigint':
+      return object.unserializableValue ?? object.description ?? String(object.value);
+    case 'undefined':
+      return 'undefined';
+    case 'symbol':
+      return object.description ?? 'Symbol()';
+    case 'function':
+      return describeFunction(object.description);
+  }
+
+  if (object.subtype === 'null') {
+    return 'null';
+  }
+  // 错误对象的描述包含消息和堆栈
+  if (object.subtype === 'error') {
+    return object.description ?? 'Error';
+  }
+  if (object.preview) {
+    return describePreview(object.preview);
+  }
+  if (object.value !== undefined) {
+    return JSON.stringify(object.value);
+  }
+  return object.description ?? object.className ?? 'Object';
+}
+
+// 通过 Runtime.getProperties 递归展开对象，返回多行文本
+export async function expandRemoteObject(session: ProtocolConnection, object: RemoteObject, depth: number, indent = ''): Promise<string> {
+  if (object.type !== 'object' || !object.objectId || depth <= 0 || OPAQUE_SUBTYPES.has(object.subtype ?? '')) {
+    return describeRemoteObject(object, true);
+  }
+
+  const { result } = await sendCommand(session, 'Runtime.getProperties', {
+    objectId: object.objectId,
+    ownProperties: true,
+    generatePreview: true,
+  });
+
+  const isArray = object.subtype === 'array' || object.subtype === 'typedarray';
+  const properties = result.filter((property) => property.enumerable && !(isArray && property.name === 'length'));
+  const shown = properties.slice(0, MAX_EXPANDED_PROPERTIES);
+  const childIndent = `${indent}  `;
+
+  const lines: string[] = [];
+  for (const property of shown) {
+    let value: string;
+    if (property.value) {
+      value = await expandRemoteObject(session, property.value, depth - 1, childIndent);
+    } else if (property.get || property.set) {
+      value = '(...)';
+    } else {
+      value = 'undefined';
+    }
+    lines.push(isArray ? `${childIndent}${value}` : `${childIndent}${property.name}: ${value}`);
+  }
+  if (properties.length > shown.length) {
+    lines.push(`${childIndent}… 还有 ${properties.length - shown.length} 个属性`);
+  }
+
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+  const prefix = object.className && object.className !== 'Object' && object.className !== 'Array' ? `${object.className} ` : '';
+  if (lines.length === 0) {
+    return `${prefix}${open}${close}`;
+  }
+  return `${prefix}${open}\n${lines.join(',\n')}\n${indent}${close}`;
+}
+
+// 按 console 格式说明符（%s %d %i %f %o %O %c）组合参数，返回最终文本
+export async function formatConsoleArgs(args: RemoteObject[], render: (object: RemoteObject) => Promise<string> | string): Promise<string> {
+  if (args.length === 0) {
+    return '';
+  }
+
+  const [first, ...rest] = args;
+  if (first.type !== 'string' || !/%[sdifoOc%]/.test(String(first.value))) {
+    const parts = await Promise.all(args.map(render));
+    return parts.join(' ');
+  }
+
+  const template = String(first.value);
+  const remaining = [...rest];
+  let text = '';
+  let lastIndex = 0;
+  const pattern = /%([sdifoOc%])/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(template)) !== null) {
+    text += template.slice(lastIndex, match.index);
+    lastIndex = pattern.lastIndex;
+    const specifier = match[1];
+
+    if (specifier === '%') {
+      text += '%';
+      continue;
+    }
+    const arg = remaining.shift();
+    if (!arg) {
+      // 参数不足时保留原样
+      text += match[0];
+      continue;
+    }
+
+    switch (specifier) {
+      case 's':
+        text += arg.type === 'object' ? await render(arg) : describeRemoteObject(arg);
+        break;
+      case 'd':
+      case 'i':
+        text += arg.type === 'number' ? String(Math.trunc(Number(arg.value))) : 'NaN';
+        break;
+      case 'f':
+        text += arg.type === 'number' ? String(arg.value) : 'NaN';
+        break;
+      case 'o':
+      case 'O':
+        text += await render(arg);
+        break;
+      case 'c':
+        // CSS 样式在文本输出中忽略
+        break;
+    }
+  }
+  text += template.slice(lastIndex);
+
+  const tail = await Promise.all(remaining.map(render));
+  return [text, ...tail].join(' ');
+}
@@ -0,0 +1,186 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { isFailedRequest } from './errors.js';
+import { formatMessage, formatNetworkRequest, formatNetworkRequestDetail } from './format.js';
+import { findRequest } from './network.js';
+import { queryConsoleMessages, queryNetworkRequests } from './query.js';
+import { CaptureEvent, onCapture, resolveSessions } from './session.js';
+
+// 资源内容包含的最近条目数
+const RESOURCE_LIMIT = 100;
+// 合并短时间内的多次更新，避免日志刷屏时频繁通知
+const NOTIFY_DELAY = 200;
+
+const CONSOLE_URI = 'browser://console';
+const NETWORK_URI = 'browser://network';
+const ERRORS_URI = 'browser://errors';
+const REQUEST_URI_PREFIX = 'browser://network/';
+
+const RESOURCES = [
+  {
+    uri: CONSOLE_URI,
+    name: 'console',
+    description: `所有会话最近 ${RESOURCE_LIMIT} 条控制台日志`,
+    mimeType: 'text/plain',
+  },
+  {
+    uri: NETWORK_URI,
+    name: 'network',
+    description: `所有会话最近 ${RESOURCE_LIMIT} 条网络请求`,
+    mimeType: 'text/plain',
+  },
+  {
+    uri: ERRORS_URI,
+    name: 'errors',
+    description: '控制台错误和失败的网络请求（网络错误或 4xx/5xx 状态码），订阅后出现新错误时收到更新通知',
+    mimeType: 'text/plain',
+  },
+];
+
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${REQUEST_URI_PREFIX}{requestId}`,
+    name: 'network-request',
+    description: '单个网络请求的详情（不含响应体，响应体使用 get_network_request_detail 获取）',
+    mimeType: 'text/plain',
+  },
+];
+
+// 客户端订阅的资源 URI
+const subscriptions = new Set<string>();
+const pendingUpdates = new Set<string>();
+let notifyTimer: NodeJS.Timeout | undefined;
+
+// 注册资源相关的请求处理器，并在捕获到新条目时通知订阅者
+export function registerResources(server: Server) {
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: RESOURCES };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const uri = request.params.uri;
+    return {
+      contents: [{ uri, mimeType: 'text/plain', text: readResource(uri) }],
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    checkResourceUri(request.params.uri);
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  onCapture((event) => {
+    for (const uri of affectedResources(event)) {
+      if (subscriptions.has(uri)) {
+        pendingUpdates.add(uri);
+      }
+    }
+    if (pendingUpdates.size > 0 && !notifyTimer) {
+      notifyTimer = setTimeout(() => void sendUpdates(server), NOTIFY_DELAY);
+    }
+  });
+}
+
+async function sendUpdates(server: Server) {
+  notifyTimer = undefined;
+  const uris = [...pendingUpdates];
+  pendingUpdates.clear();
+  for (const uri of uris) {
+    try {
+      await server.sendResourceUpdated({ uri });
+    } catch (error) {
+      console.error(`[MCP] 发送资源更新通知失败 (${uri}):`, error);
+    }
+  }
+}
+
+// 捕获事件影响的资源
+function affectedResources(event: CaptureEvent): string[] {
+  switch (event.kind) {
+    case 'console':
+      return event.entry.level === 'error' ? [CONSOLE_URI, ERRORS_URI] : [CONSOLE_URI];
+    case 'network':
+      return [NETWORK_URI, `${REQUEST_URI_PREFIX}${event.entry.requestId}`];
+    case 'network-finished': {
+      const uris = [NETWORK_URI, `${REQUEST_URI_PREFIX}${event.entry.requestId}`];
+      return isFailedRequest(event.entry) ? [...uris, ERRORS_URI] : uris;
+    }
+  }
+}
+
+// 校验资源 URI，返回请求资源的 requestId
+function checkResourceUri(uri: string): string | undefined {
+  if (uri.startsWith(REQUEST_URI_PREFIX)) {
+    const requestId = decodeURIComponent(uri.slice(REQUEST_URI_PREFIX.length));
+    if (requestId) return requestId;
+  } else if (RESOURCES.some((resource) => resource.uri === uri)) {
+    return undefined;
+  }
+  throw new Error(`未知的资源: ${uri}`);
+}
+
+// 读取资源内容：汇总本次运行的所有会话
+function readResource(uri: string): string {
+  const requestId = checkResourceUri(uri);
+  const targets = resolveSessions();
+  const showSession = targets.length > 1;
+
+  if (requestId !== undefined) {
+    const session = targets.find((s) => findRequest(s, requestId));
+    const request = session && findRequest(session, requestId);
+    if (!request) {
+      throw new Error(`找不到请求 ${requestId}`);
+    }
+    return formatNetworkRequestDetail(request, request.postData, request.responseBody);
+  }
+
+  if (uri === CONSOLE_URI) {
+    const result = queryConsoleMessages(targets, { sinceNavigation: false, limit: RESOURCE_LIMIT });
+    if (result.items.length === 0) return '暂无控制台日志';
+    return result.items.map((m) => formatMessage(m, showSession)).join('\n\n');
+  }
+
+  if (uri === NETWORK_URI) {
+    const page = queryNetworkRequests(targets, {
+      failedOnly: false,
+      sinceNavigation: false,
+      sortBy: 'time',
+      order: 'desc',
+      limit: RESOURCE_LIMIT,
+    });
+    if (page.items.length === 0) return '暂无网络请求记录';
+    return page.items.map((r) => formatNetworkRequest(r, showSession)).join('\n');
+  }
+
+  const errors = queryConsoleMessages(targets, { levels: ['error'], sinceNavigation: false, limit: RESOURCE_LIMIT });
+  const requests = targets
+    .flatMap((session) => session.networkRequests)
+    .filter(isFailedRequest)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, RESOURCE_LIMIT);
+
+  const sections: string[] = [];
+  sections.push(errors.items.length > 0
+    ? `控制台错误（共 ${errors.total} 条）:\n\n${errors.items.map((m) => formatMessage(m, showSession)).join('\n\n')}`
+    : '暂无控制台错误');
+  sections.push(requests.length > 0
+    ? `失败的网络请求:\n\n${requests.map((r) => formatNetworkRequest(r, showSession)).join('\n')}`
+    : '暂无失败的网络请求');
+  return sections.join('\n\n');
+}
@@ -0,0 +1,249 @@
+import { redactContent, redactRequest, redactUrl } from './redact.js';
+import {
+  BrowserSession,
+  BrowserType,
+  ConsoleMessage,
+  ConsoleMessageInput,
+  Navigation,
+  NetworkRequest,
+  ProtocolConnection,
+  ProtocolType,
+  RealtimeMessage,
+  TargetTag,
+} from './types.js';
+
+// 会话注册表：每个已附加的标签页一个会话
+export const sessions = new Map<string, BrowserSession>();
+
+let nextSessionId = 1;
+
+// 控制台消息 ID 在所有会话间全局递增，合并查询时可直接按 ID 排序
+let nextConsoleMessageId = 1;
+
+// 页面加载 ID 同样全局递增
+let nextNavigationId = 1;
+
+// 每个会话保留的页面加载记录数
+const MAX_NAVIGATIONS = 100;
+
+// 捕获事件：新日志、新请求加入缓存以及请求结束时通知监听器（如持久化存储、资源订阅）
+export type CaptureEvent =
+  | { kind: 'console'; session: BrowserSession; entry: ConsoleMessage }
+  | { kind: 'network'; session: BrowserSession; entry: NetworkRequest }
+  | { kind: 'network-finished'; session: BrowserSession; entry: NetworkRequest };
+
+const captureListeners = new Set<(event: CaptureEvent) => void>();
+
+// 当前会话：最近一次连接的会话，未指定 sessionId 的单目标操作默认作用于它
+let currentSessionId: string | null = null;
+
+// 创建新会话并注册
+export function createSession(browserType: BrowserType | null, host: string, port: number, targetId: string, protocol: ProtocolType = 'cdp'): BrowserSession {
+  return registerSession(`s${nextSessionId++}`, browserType, protocol, host, port, targetId);
+}
+
+function registerSession(id: string, browserType: BrowserType | null, protocol: ProtocolType, host: string, port: number, targetId: string): BrowserSession {
+  const session: BrowserSession = {
+    id,
+    ws: null,
+    connected: false,
+    protocol,
+    browserType,
+    host,
+    port,
+    targetId,
+    title: '',
+    url: '',
+    messages: [],
+    networkRequests: [],
+    realtimeConnections: new Map(),
+    realtimeMessages: [],
+    errorGroups: new Map(),
+    children: new Map(),
+    maxMessages: 1000, // 每个会话最多保存 1000 条消息
+    scripts: new Map(),
+    navigations: [],
+    autoReconnect: false,
+    reconnectAttempts: 0,
+    stored: false,
+    trimmed: false,
+    interceptRules: [],
+    emulation: {},
+    pending: new Map(),
+    listeners: new Map(),
+  };
+  sessions.set(session.id, session);
+  return session;
+}
+
+// 恢复持久化存储中的历史会话，保留原会话 ID，之后新建的会话和条目 ID 不会与其冲突
+export function restoreSession(
+  id: string,
+  browserType: BrowserType | null,
+  protocol: ProtocolType,
+  host: string,
+  port: number,
+  targetId: string,
+): BrowserSession {
+  nextSessionId = Math.max(nextSessionId, Number(id.slice(1)) + 1);
+
+  const session = registerSession(id, browserType, protocol, host, port, targetId);
+  session.stored = true;
+  return session;
+}
+
+// 保证之后分配的消息 ID 和页面加载 ID 大于已存储的 ID
+export function reserveIds(messageId: number, navigationId: number) {
+  nextConsoleMessageId = Math.max(nextConsoleMessageId, messageId + 1);
+  nextNavigationId = Math.max(nextNavigationId, navigationId + 1);
+}
+
+// 订阅捕获事件，返回取消订阅函数
+export function onCapture(listener: (event: CaptureEvent) => void): () => void {
+  captureListeners.add(listener);
+  return () => captureListeners.delete(listener);
+}
+
+function notifyCapture(event: CaptureEvent) {
+  for (const listener of [...captureListeners]) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error(`[MCP] 会话 ${event.session.id} 处理捕获事件失败:`, error);
+    }
+  }
+}
+
+// 从注册表中移除会话
+export function removeSession(id: string) {
+  sessions.delete(id);
+  if (currentSessionId === id) {
+    currentSessionId = null;
+  }
+}
+
+export function setCurrentSession(id: string) {
+  currentSessionId = id;
+}
+
+// 查找通过指定协议附加到标签页的会话
+export function findSessionByTarget(browserType: BrowserType, protocol: ProtocolType, host: string, port: number, targetId: string): BrowserSession | undefined {
+  for (const session of sessions.values()) {
+    if (session.browserType === browserType && session.protocol === protocol && session.host === host && session.port === port && session.targetId === targetId) {
+      return session;
+    }
+  }
+  return undefined;
+}
+
+// 获取单个会话：未指定时使用当前会话
+export function getSession(sessionId?: string): BrowserSession {
+  const id = sessionId || currentSessionId;
+  if (!id) {
+    throw new Error('浏览器未连接');
+  }
+  const session = sessions.get(id);
+  if (!session) {
+    throw new Error(`会话 ${id} 不存在`);
+  }
+  return session;
+}
+
+// 解析工具参数中的 sessionId："all" 或留空表示本次运行的所有会话，历史会话需按 ID 指定
+export function resolveSessions(sessionId?: string): BrowserSession[] {
+  if (!sessionId || sessionId === 'all') {
+    return [...sessions.values()].filter((session) => !session.stored);
+  }
+  return [getSession(sessionId)];
+}
+
+// 向日志或请求的来源目标发送命令的连接：顶层页面为会话本身，子目标已断开时报错
+export function targetConnection(session: BrowserSession, target?: TargetTag): ProtocolConnection {
+  if (!target) return session;
+  for (const child of session.children.values()) {
+    if (child.target.targetId === target.targetId) return child;
+  }
+  throw new Error(`来源目标 ${target.type} (${target.url}) 已断开`);
+}
+
+// 会话当前的页面加载
+export function currentNavigation(session: BrowserSession): Navigation | undefined {
+  return session.navigations[session.navigations.length - 1];
+}
+
+// 记录一次新的页面加载（URL 先脱敏），之后的消息和请求都归入它
+export function addNavigation(session: BrowserSession, rawUrl: string, timestamp = Date.now()): Navigation {
+  const url = redactUrl(rawUrl);
+  const navigation: Navigation = { id: nextNavigationId++, url, timestamp };
+  session.navigations.push(navigation);
+  if (session.navigations.length > MAX_NAVIGATIONS) {
+    session.navigations.shift();
+  }
+  session.url = url;
+  return navigation;
+}
+
+// 添加消息到缓存（文本先脱敏）
+export function addMessage(session: BrowserSession, input: ConsoleMessageInput): ConsoleMessage {
+  const message: ConsoleMessage = {
+    id: nextConsoleMessageId++,
+    navigationId: currentNavigation(session)?.id,
+    emulation: session.emulationProfile,
+    ...input,
+    text: redactContent(input.text),
+  };
+  session.messages.push(message);
+
+  // 限制缓存大小
+  if (session.messages.length > session.maxMessages) {
+    session.messages.shift();
+    session.trimmed = true;
+  }
+
+  notifyCapture({ kind: 'console', session, entry: message });
+  return message;
+}
+
+// 添加网络请求到缓存（URL、请求头、请求体等先脱敏）
+export function addNetworkRequest(session: BrowserSession, request: NetworkRequest) {
+  redactRequest(request);
+  request.navigationId ??= currentNavigation(session)?.id;
+  request.emulation ??= session.emulationProfile;
+  session.networkRequests.push(request);
+
+  // 限制缓存大小
+  if (session.networkRequests.length > session.maxMessages) {
+    session.networkRequests.shift();
+    session.trimmed = true;
+  }
+
+  notifyCapture({ kind: 'network', session, entry: request });
+}
+
+// 添加 WebSocket 帧或 SSE 消息到缓存（不写入持久化存储）
+export function addRealtimeMessage(session: BrowserSession, message: RealtimeMessage) {
+  message.navigationId ??= currentNavigation(session)?.id;
+  session.realtimeMessages.push(message);
+
+  // 限制缓存大小
+  if (session.realtimeMessages.length > session.maxMessages) {
+    session.realtimeMessages.shift();
+  }
+}
+
+// 请求完成或失败后通知监听器
+export function notifyRequestFinished(session: BrowserSession, request: NetworkRequest) {
+  notifyCapture({ kind: 'network-finished', session, entry: request });
+}
+
+// 会话的简短描述，用于输出中标注来源标签页
+export function describeSession(session: BrowserSession): string {
+  let state = '离线';
+  if (session.stored) {
+    state = '历史';
+  } else if (session.browserType) {
+    state = session.connected ? '已连接' : session.reconnectTimer ? '重连中' : '已断开';
+  }
+  const backend = session.browserType ? `${session.browserType}/${session.protocol}` : 'offline';
+  return `[${session.id}] ${backend} ${session.title || session.targetId} (${session.url}) - ${state}`;
+}
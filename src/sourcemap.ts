@@ -0,0 +1,196 @@
+import { readFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { AnyMap, originalPositionFor, TraceMap } from '@jridgewell/trace-mapping';
+import type { Protocol } from 'devtools-protocol';
+import { config } from './config.js';
+import { subscribe } from './protocol.js';
+import { BrowserSession, OriginalPosition, ScriptInfo, StackFrame } from './types.js';
+
+// 远程获取 source map 的超时（毫秒）
+const FETCH_TIMEOUT = 5000;
+
+// 每个会话缓存的 source map 数上限，超出时丢弃最久未使用的
+const MAX_CACHED_SOURCE_MAPS = 50;
+
+// 每个会话记录的脚本数上限，超出时丢弃最早解析的
+const MAX_SCRIPTS = 5000;
+
+// 按会话缓存 source map：key 为脚本 URL + sourceMappingURL，加载失败也缓存为 null，避免重复请求；
+// Map 按插入顺序迭代，命中时重新插入，第一项即最久未使用的
+const sourceMapCaches = new WeakMap<BrowserSession, Map<string, Promise<TraceMap | null>>>();
+
+// 注册 Debugger.scriptParsed 处理器，记录脚本及其 sourceMapURL
+export function registerSourceMapHandlers(session: BrowserSession) {
+  subscribe(session, 'Debugger.scriptParsed', (params) => {
+    if (!params.url) return;
+    session.scripts.set(params.scriptId, {
+      url: params.url,
+      sourceMapURL: params.sourceMapURL || undefined,
+    });
+    if (session.scripts.size > MAX_SCRIPTS) {
+      const oldest = session.scripts.keys().next().value;
+      if (oldest !== undefined) {
+        session.scripts.delete(oldest);
+      }
+    }
+  });
+  // 顶层页面导航后旧页面的脚本已销毁，也可能已重新构建，丢弃记录的脚本和缓存的 source map
+  subscribe(session, 'Runtime.executionContextsCleared', () => clearSourceMaps(session));
+}
+
+// 清空会话记录的脚本和缓存的 source map（页面导航、重新连接时调用）
+export function clearSourceMaps(session: BrowserSession) {
+  session.scripts.clear();
+  sourceMapCaches.delete(session);
+}
+
+// 将 CDP 调用栈转换为栈帧列表
+export function toStackFrames(stackTrace?: Protocol.Runtime.StackTrace): StackFrame[] | undefined {
+  if (!stackTrace || stackTrace.callFrames.length === 0) return undefined;
+  return stackTrace.callFrames.map((frame) => ({
+    functionName: frame.functionName,
+    url: frame.url,
+    scriptId: frame.scriptId,
+    lineNumber: frame.lineNumber,
+    columnNumber: frame.columnNumber,
+  }));
+}
+
+// 查找脚本：优先按 scriptId，否则按 URL
+function findScript(session: BrowserSession, scriptId?: string, url?: string): ScriptInfo | undefined {
+  if (scriptId) {
+    const script = session.scripts.get(scriptId);
+    if (script) return script;
+  }
+  if (url) {
+    for (const script of session.scripts.values()) {
+      if (script.url === url) return script;
+    }
+    return { url };
+  }
+  return undefined;
+}
+
+// 解析 data: URL 中的 source map
+function decodeDataUrl(url: string): string {
+  const comma = url.indexOf(',');
+  const meta = url.slice(0, comma);
+  const data = url.slice(comma + 1);
+  return meta.endsWith(';base64') ? Buffer.from(data, 'base64').toString('utf-8') : decodeURIComponent(data);
+}
+
+// 在配置的本地构建目录中查找 .map 文件
+async function readLocalSourceMap(script: ScriptInfo, mapUrl?: string): Promise<string | undefined> {
+  const names = new Set<string>();
+  if (mapUrl && !mapUrl.startsWith('data:')) {
+    names.add(basename(new URL(mapUrl).pathname));
+  }
+  try {
+    names.add(`${basename(new URL(script.url).pathname)}.map`);
+  } catch {
+    // 非标准的脚本 URL
+  }
+
+  for (const dir of config.sourceMapDirs) {
+    for (const name of names) {
+      try {
+        return await readFile(join(dir, name), 'utf-8');
+      } catch {
+        // 继续尝试下一个候选
+      }
+    }
+  }
+  return undefined;
+}
+
+// 加载 source map：内联 data URL → 本地构建目录 → 从页面服务器获取
+async function loadSourceMap(script: ScriptInfo): Promise<TraceMap | null> {
+  let mapUrl: string | undefined;
+  if (script.sourceMapURL) {
+    try {
+      mapUrl = new URL(script.sourceMapURL, script.url).href;
+    } catch {
+      return null;
+    }
+  }
+
+  let content: string | undefined;
+  if (mapUrl?.startsWith('data:')) {
+    content = decodeDataUrl(mapUrl);
+  } else {
+    content = await readLocalSourceMap(script, mapUrl);
+    if (content === undefined && mapUrl && /^https?:/.test(mapUrl)) {
+      const response = await fetch(mapUrl, { signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+      if (response.ok) {
+        content = await response.text();
+      }
+    }
+  }
+
+  if (content === undefined) return null;
+  // 内联 source map 中的源文件路径相对于脚本解析
+  return AnyMap(content, mapUrl && !mapUrl.startsWith('data:') ? mapUrl : script.url);
+}
+
+function getSourceMap(session: BrowserSession, script: ScriptInfo): Promise<TraceMap | null> {
+  let sourceMapCache = sourceMapCaches.get(session);
+  if (!sourceMapCache) {
+    sourceMapCache = new Map();
+    sourceMapCaches.set(session, sourceMapCache);
+  }
+  const key = `${script.url}\n${script.sourceMapURL ?? ''}`;
+  let cached = sourceMapCache.get(key);
+  if (cached) {
+    sourceMapCache.delete(key);
+  } else {
+    cached = loadSourceMap(script).catch(() => null);
+  }
+  sourceMapCache.set(key, cached);
+  const oldest = sourceMapCache.keys().next().value;
+  if (sourceMapCache.size > MAX_CACHED_SOURCE_MAPS && oldest !== undefined) {
+    sourceMapCache.delete(oldest);
+  }
+  return cached;
+}
+
+// 获取脚本或样式表的 source map；未启用 source map 或加载失败时返回 null
+export function findSourceMap(session: BrowserSession, script: ScriptInfo): Promise<TraceMap | null> {
+  if (!config.sourceMaps || (!script.sourceMapURL && config.sourceMapDirs.length === 0)) {
+    return Promise.resolve(null);
+  }
+  return getSourceMap(session, script);
+}
+
+// 将生成代码中的位置（行列号从 0 开始）还原为源码位置
+export async function resolvePosition(
+  session: BrowserSession,
+  location: { scriptId?: string; url?: string; lineNumber?: number; columnNumber?: number },
+): Promise<OriginalPosition | undefined> {
+  if (!config.sourceMaps || location.lineNumber === undefined) return undefined;
+
+  const script = findScript(session, location.scriptId, location.url);
+  if (!script) return undefined;
+
+  const map = await findSourceMap(session, script);
+  if (!map) return undefined;
+
+  const position = originalPositionFor(map, {
+    line: location.lineNumber + 1,
+    column: location.columnNumber ?? 0,
+  });
+  if (position.source === null || position.line === null || position.column === null) return undefined;
+
+  return {
+    source: position.source,
+    lineNumber: position.line - 1,
+    columnNumber: position.column,
+    name: position.name ?? undefined,
+  };
+}
+
+// 还原整个调用栈，直接写入各栈帧的 original 字段
+export async function resolveStackFrames(session: BrowserSession, frames: StackFrame[]): Promise<void> {
+  await Promise.all(frames.map(async (frame) => {
+    frame.original = await resolvePosition(session, frame);
+  }));
+}
@@ -0,0 +1,269 @@
+import type { Protocol } from 'devtools-protocol';
+import { formatSize } from './format.js';
+import { sendCommand } from './protocol.js';
+import { redactContent, redactCookieValue, redactNamedValue } from './redact.js';
+import { describeRemoteObject, expandRemoteObject } from './remote-object.js';
+import { currentNavigation } from './session.js';
+import { BrowserSession } from './types.js';
+
+export type WebStorageType = 'local' | 'session';
+
+export const DEFAULT_RECORD_PAGE_SIZE = 20;
+const MAX_RECORD_PAGE_SIZE = 100;
+
+// 列出 Web Storage 时每个值显示的最大长度（字符），读取单个键时不截断
+const VALUE_PREVIEW_LENGTH = 200;
+
+// IndexedDB.requestData 返回的对象所在的对象组（由浏览器指定）
+const INDEXEDDB_OBJECT_GROUP = 'indexeddb';
+
+export interface CookieInput {
+  name: string;
+  value: string;
+  url?: string;
+  domain?: string;
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: Protocol.Network.CookieSameSite;
+  expires?: number; // 秒级时间戳，留空为会话 Cookie
+}
+
+export interface CookieFilter {
+  name?: string;
+  domain?: string; // 域名包含的子串
+  path?: string;
+}
+
+export interface RecordQuery {
+  database: string;
+  store: string;
+  index?: string;
+  skip: number;
+  limit: number;
+  depth: number;
+}
+
+function requireCdp(session: BrowserSession) {
+  if (session.protocol !== 'cdp') {
+    throw new Error(`会话 ${session.id} 未通过 CDP 连接，不支持存储查看`);
+  }
+}
+
+function pageUrl(session: BrowserSession): string {
+  return currentNavigation(session)?.url ?? session.url;
+}
+
+// 当前页面的来源：Web Storage 和 IndexedDB 按来源隔离
+export function pageOrigin(session: BrowserSession): string {
+  const url = pageUrl(session);
+  let origin: string | undefined;
+  try {
+    origin = new URL(url).origin;
+  } catch {
+    // 无效的 URL 按没有来源处理
+  }
+  if (!origin || origin === 'null') {
+    throw new Error(`当前页面 ${url || '(空白页)'} 没有可访问的存储来源`);
+  }
+  return origin;
+}
+
+export function matchesCookie(cookie: Protocol.Network.Cookie, filter: CookieFilter): boolean {
+  if (filter.name && cookie.name !== filter.name) return false;
+  if (filter.domain && !cookie.domain.includes(filter.domain)) return false;
+  if (filter.path && cookie.path !== filter.path) return false;
+  return true;
+}
+
+function formatCookie(cookie: Protocol.Network.Cookie): string {
+  const expires = cookie.session ? '会话结束' : new Date(cookie.expires * 1000).toLocaleString('zh-CN');
+  const flags = [
+    cookie.httpOnly ? 'HttpOnly' : '',
+    cookie.secure ? 'Secure' : '',
+    cookie.sameSite ? `SameSite=${cookie.sameSite}` : '',
+    cookie.partitionKey ? 'Partitioned' : '',
+  ].filter(Boolean);
+  const details = [`${cookie.domain}${cookie.path}`, `过期: ${expires}`, ...flags, formatSize(cookie.size)];
+  return `${cookie.name}=${redactCookieValue(cookie.value)}\n    ${details.join(' · ')}`;
+}
+
+// 列出当前页面（含 iframe）可见的 Cookie，包括脚本无法读取的 HttpOnly Cookie
+export async function getCookies(session: BrowserSession, filter: CookieFilter): Promise<string> {
+  requireCdp(session);
+  const { cookies } = await sendCommand(session, 'Network.getCookies');
+  const matched = cookies.filter((cookie) => matchesCookie(cookie, filter));
+  if (matched.length === 0) {
+    return cookies.length === 0 ? '当前页面没有 Cookie' : `没有匹配的 Cookie（共 ${cookies.length} 个）`;
+  }
+  return `共 ${matched.length} 个 Cookie:\n\n${matched.map(formatCookie).join('\n')}`;
+}
+
+// 设置 Cookie：未指定 url 和 domain 时作用于当前页面
+export async function setCookie(session: BrowserSession, input: CookieInput): Promise<string> {
+  requireCdp(session);
+  const url = input.url ?? (input.domain ? undefined : pageUrl(session));
+  const { success } = await sendCommand(session, 'Network.setCookie', { ...input, url });
+  if (!success) {
+    throw new Error(`设置 Cookie ${input.name} 失败，请检查 url、domain、path 和 secure 等属性是否有效`);
+  }
+  return `已设置 Cookie ${input.name}${input.domain ? `（${input.domain}${input.path ?? ''}）` : `（${url}）`}`;
+}
+
+// 删除匹配的 Cookie；不指定任何条件时删除当前页面可见的所有 Cookie
+export async function deleteCookies(session: BrowserSession, filter: CookieFilter): Promise<string> {
+  requireCdp(session);
+  const { cookies } = await sendCommand(session, 'Network.getCookies');
+  const matched = cookies.filter((cookie) => matchesCookie(cookie, filter));
+  if (matched.length === 0) {
+    return '没有匹配的 Cookie';
+  }
+  for (const cookie of matched) {
+    await sendCommand(session, 'Network.deleteCookies', { name: cookie.name, domain: cookie.domain, path: cookie.path });
+  }
+  return `已删除 ${matched.length} 个 Cookie: ${matched.map((cookie) => cookie.name).join(', ')}`;
+}
+
+function storageName(type: WebStorageType): string {
+  return type === 'local' ? 'localStorage' : 'sessionStorage';
+}
+
+function storageId(session: BrowserSession, type: WebStorageType): Protocol.DOMStorage.StorageId {
+  return { securityOrigin: pageOrigin(session), isLocalStorage: type === 'local' };
+}
+
+// 列出当前页面来源的 localStorage / sessionStorage；指定 key 时返回该键的完整值
+export async function getWebStorage(session: BrowserSession, type: WebStorageType, key?: string): Promise<string> {
+  requireCdp(session);
+  const id = storageId(session, type);
+  const { entries } = await sendCommand(session, 'DOMStorage.getDOMStorageItems', { storageId: id });
+  const name = `${id.securityOrigin} 的 ${storageName(type)}`;
+
+  if (key !== undefined) {
+    const entry = entries.find(([itemKey]) => itemKey === key);
+    if (!entry) {
+      throw new Error(`${name} 中没有键 ${key}`);
+    }
+    return `${name} [${key}]（${entry[1].length} 字符）:\n${redactNamedValue(key, entry[1])}`;
+  }
+
+  if (entries.length === 0) {
+    return `${name} 为空`;
+  }
+  const lines = entries.map(([itemKey, value]) => {
+    const redacted = redactNamedValue(itemKey, value);
+    const preview = redacted.length > VALUE_PREVIEW_LENGTH ? `${redacted.slice(0, VALUE_PREVIEW_LENGTH)}…` : redacted;
+    return `${itemKey}（${value.length} 字符）: ${preview}`;
+  });
+  return `${name} 共 ${entries.length} 个键:\n\n${lines.join('\n')}`;
+}
+
+export async function setWebStorageItem(session: BrowserSession, type: WebStorageType, key: string, value: string): Promise<string> {
+  requireCdp(session);
+  const id = storageId(session, type);
+  await sendCommand(session, 'DOMStorage.setDOMStorageItem', { storageId: id, key, value });
+  return `已设置 ${id.securityOrigin} 的 ${storageName(type)} [${key}]`;
+}
+
+// 删除一个键；不指定 key 时清空整个存储
+export async function removeWebStorageItem(session: BrowserSession, type: WebStorageType, key?: string): Promise<string> {
+  requireCdp(session);
+  const id = storageId(session, type);
+  if (key === undefined) {
+    await sendCommand(session, 'DOMStorage.clear', { storageId: id });
+    return `已清空 ${id.securityOrigin} 的 ${storageName(type)}`;
+  }
+  await sendCommand(session, 'DOMStorage.removeDOMStorageItem', { storageId: id, key });
+  return `已删除 ${id.securityOrigin} 的 ${storageName(type)} [${key}]`;
+}
+
+// IndexedDB 域需要先启用，返回当前页面的来源
+async function enableIndexedDb(session: BrowserSession): Promise<string> {
+  requireCdp(session);
+  const origin = pageOrigin(session);
+  await sendCommand(session, 'IndexedDB.enable');
+  return origin;
+}
+
+function describeKeyPath(keyPath: Protocol.IndexedDB.KeyPath): string {
+  if (keyPath.type === 'string') return keyPath.string ?? '';
+  if (keyPath.type === 'array') return `[${(keyPath.array ?? []).join(', ')}]`;
+  return '无（外部键）';
+}
+
+// 列出当前页面来源的 IndexedDB 数据库、对象存储（含记录数）和索引
+export async function listIndexedDb(session: BrowserSession): Promise<string> {
+  const securityOrigin = await enableIndexedDb(session);
+  const { databaseNames } = await sendCommand(session, 'IndexedDB.requestDatabaseNames', { securityOrigin });
+  if (databaseNames.length === 0) {
+    return `${securityOrigin} 没有 IndexedDB 数据库`;
+  }
+
+  const sections: string[] = [];
+  for (const databaseName of databaseNames) {
+    const { databaseWithObjectStores: database } = await sendCommand(session, 'IndexedDB.requestDatabase', { securityOrigin, databaseName });
+    const lines = [`数据库 ${database.name}（版本 ${database.version}）:`];
+    if (database.objectStores.length === 0) {
+      lines.push('  (没有对象存储)');
+    }
+    for (const store of database.objectStores) {
+      const metadata = await sendCommand(session, 'IndexedDB.getMetadata', { securityOrigin, databaseName, objectStoreName: store.name })
+        .catch(() => undefined);
+      const details = [`键路径: ${describeKeyPath(store.keyPath)}`];
+      if (store.autoIncrement) details.push('自增');
+      if (metadata) details.push(`${metadata.entriesCount} 条记录`);
+      lines.push(`  - ${store.name}（${details.join('，')}）`);
+      for (const index of store.indexes) {
+        const flags = [index.unique ? '唯一' : '', index.multiEntry ? '多值' : ''].filter(Boolean);
+        lines.push(`      索引 ${index.name}: ${describeKeyPath(index.keyPath)}${flags.length > 0 ? `（${flags.join('，')}）` : ''}`);
+      }
+    }
+    sections.push(lines.join('\n'));
+  }
+  return `${securityOrigin} 共 ${databaseNames.length} 个 IndexedDB 数据库:\n\n${sections.join('\n\n')}`;
+}
+
+// 分页读取对象存储（或其索引）中的记录，值按 depth 展开
+export async function getIndexedDbRecords(session: BrowserSession, query: RecordQuery): Promise<string> {
+  const securityOrigin = await enableIndexedDb(session);
+  const pageSize = Math.min(Math.max(query.limit, 1), MAX_RECORD_PAGE_SIZE);
+  const { objectStoreDataEntries: entries, hasMore } = await sendCommand(session, 'IndexedDB.requestData', {
+    securityOrigin,
+    databaseName: query.database,
+    objectStoreName: query.store,
+    indexName: query.index ?? '',
+    skipCount: query.skip,
+    pageSize,
+  });
+
+  try {
+    const source = `${query.database}/${query.store}${query.index ? `（索引 ${query.index}）` : ''}`;
+    if (entries.length === 0) {
+      return query.skip > 0 ? `${source} 在跳过 ${query.skip} 条之后没有更多记录` : `${source} 没有记录`;
+    }
+
+    const records: string[] = [];
+    for (const [i, entry] of entries.entries()) {
+      const key = describeRemoteObject(entry.key);
+      const primaryKey = query.index ? ` 主键: ${describeRemoteObject(entry.primaryKey)}` : '';
+      const value = redactContent(await expandRemoteObject(session, entry.value, query.depth, '    '));
+      records.push(`[${query.skip + i}] 键: ${key}${primaryKey}\n    ${value}`);
+    }
+
+    const footer = hasMore ? `\n\n还有更多记录（传入 skip: ${query.skip + entries.length} 获取下一页）` : '';
+    return `${source} 第 ${query.skip + 1}-${query.skip + entries.length} 条记录:\n\n${records.join('\n\n')}${footer}`;
+  } finally {
+    await sendCommand(session, 'Runtime.releaseObjectGroup', { objectGroup: INDEXEDDB_OBJECT_GROUP }).catch(() => {});
+  }
+}
+
+// 清空对象存储；不指定 store 时删除整个数据库
+export async function clearIndexedDb(session: BrowserSession, database: string, store?: string): Promise<string> {
+  const securityOrigin = await enableIndexedDb(session);
+  if (store) {
+    await sendCommand(session, 'IndexedDB.clearObjectStore', { securityOrigin, databaseName: database, objectStoreName: store });
+    return `已清空 ${securityOrigin} 的 IndexedDB 对象存储 ${database}/${store}`;
+  }
+  await sendCommand(session, 'IndexedDB.deleteDatabase', { securityOrigin, databaseName: database });
+  return `已删除 ${securityOrigin} 的 IndexedDB 数据库 ${database}`;
+}
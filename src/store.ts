@@ -0,0 +1,579 @@
+import { appendFileSync, createReadStream, mkdirSync, writeFileSync } from 'fs';
+import { appendFile, mkdir, open, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { config } from './config.js';
+import { onCapture, removeSession, reserveIds, restoreSession, sessions } from './session.js';
+import { BrowserSession, BrowserType, ConsoleMessage, NetworkRequest, ProtocolType } from './types.js';
+
+// 持久化存储：按会话分目录、按日期分文件追加写入 JSONL
+//
+//   <storeDir>/s12/session.json               会话元数据
+//   <storeDir>/s12/2026-10-19.console.jsonl   控制台日志
+//   <storeDir>/s12/2026-10-19.network.jsonl   网络请求
+
+type EntryKind = 'console' | 'network';
+
+// 会话元数据
+interface StoredSessionMeta {
+  id: string;
+  browserType: BrowserType | null;
+  protocol: ProtocolType;
+  host: string;
+  port: number;
+  targetId: string;
+  title: string;
+  url: string;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+// 读取存储记录的范围。order 为 desc 时从最新的记录开始读取；只保留 matches 的记录，
+// stop 返回 true 时之后的记录都不再需要；指定 limit 时，最靠前的 limit 条已确定后停止读取（结果不完整）
+export interface HistoryWindow<T> {
+  since?: number;
+  until?: number;
+  order: 'asc' | 'desc';
+  matches: (entry: T) => boolean;
+  stop?: (entry: T) => boolean;
+  limit?: number;
+}
+
+// 读取的存储记录：按会话 ID 索引，按时间顺序排列；partial 表示因 limit 提前停止，还有更早或更晚的匹配记录
+export interface StoredHistory<T> {
+  entries: Map<string, T[]>;
+  partial: boolean;
+}
+
+// 存储中的一个数据文件
+interface StoredFile {
+  sessionId: string;
+  day: string;
+  kind: EntryKind;
+  path: string;
+  size: number;
+}
+
+// 写入间隔：日志先在内存中停留片刻，等 source map 还原、对象展开等异步处理完成后再落盘
+const FLUSH_INTERVAL = 1000;
+const RETENTION_INTERVAL = 60 * 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+// 未完成的请求超过该时长也写入，避免长连接请求一直不落盘；请求完成后再追加一条更新记录，读取时以后写入的为准
+const STALE_REQUEST_AGE = 5 * 60 * 1000;
+// 读取文件末尾的最大长度，用于恢复 ID 计数
+const TAIL_SIZE = 64 * 1024;
+// 从文件末尾倒序读取时每次读取的长度
+const REVERSE_CHUNK_SIZE = 64 * 1024;
+// 请求在完成时才写入，文件中的顺序与请求开始的时间不完全一致：写入时间最多比开始时间晚
+// STALE_REQUEST_AGE 加上写入的延迟，按 limit 停止读取前需要多读这段时间内的记录
+const NETWORK_WRITE_LAG = STALE_REQUEST_AGE + 60 * 1000;
+
+const SESSION_DIR_PATTERN = /^s\d+$/;
+const DATA_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.(console|network)\.jsonl$/;
+
+// 等待写入的条目
+const pendingConsole = new Map<BrowserSession, ConsoleMessage[]>();
+const pendingNetwork = new Map<BrowserSession, NetworkRequest[]>();
+// 未完成时已写入的请求，完成后重新写入
+const staleRequests = new WeakMap<BrowserSession, Set<NetworkRequest>>();
+const rewrites = new WeakSet<NetworkRequest>();
+
+// 请求完成后重新写入的记录带有该标记；它的写入时间可能远晚于请求开始的时间，不参与提前停止读取的判断
+interface RewrittenEntry {
+  rewritten?: boolean;
+}
+
+const storedMeta = new Map<string, StoredSessionMeta>();
+let storedBytes = 0;
+let flushing: Promise<void> | null = null;
+let retention: Promise<void> | null = null;
+
+export function isStoreEnabled(): boolean {
+  return Boolean(config.storeDir);
+}
+
+function sessionDir(sessionId: string): string {
+  return join(config.storeDir ?? '', sessionId);
+}
+
+// 按 UTC 日期分文件
+function dayOf(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function dataFile(sessionId: string, timestamp: number, kind: EntryKind): string {
+  return join(sessionDir(sessionId), `${dayOf(timestamp)}.${kind}.jsonl`);
+}
+
+// 初始化存储：恢复历史会话和 ID 计数，应用保留策略，开始监听新条目
+export async function initStore() {
+  if (!config.storeDir) return;
+
+  await mkdir(config.storeDir, { recursive: true });
+  await loadStoredSessions();
+  await applyRetention();
+
+  onCapture((event) => {
+    // 请求在完成后才写入；超时未完成、已提前写入的请求完成后重新写入
+    if (event.kind === 'network-finished') {
+      if (!staleRequests.get(event.session)?.delete(event.entry)) return;
+      rewrites.add(event.entry);
+      event = { kind: 'network', session: event.session, entry: event.entry };
+    }
+    const pending: Map<BrowserSession, unknown[]> = event.kind === 'console' ? pendingConsole : pendingNetwork;
+    let entries = pending.get(event.session);
+    if (!entries) {
+      entries = [];
+      pending.set(event.session, entries);
+    }
+    entries.push(event.entry);
+  });
+
+  setInterval(scheduleFlush, FLUSH_INTERVAL).unref();
+  setInterval(scheduleRetention, RETENTION_INTERVAL).unref();
+
+  // 退出前同步写入剩余条目。收到终止信号时先写入：宿主注册了自己的处理器时由它决定是否退出，
+  // 否则重新发出信号，按默认行为终止进程
+  process.once('exit', flushSync);
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      flushSync();
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  }
+}
+
+// 列出存储中的会话目录和数据文件
+async function listStoredFiles(): Promise<{ sessionIds: string[]; files: StoredFile[] }> {
+  const root = config.storeDir ?? '';
+  const sessionIds = (await readdir(root, { withFileTypes: true }))
+    .filter((entry) => entry.isDirectory() && SESSION_DIR_PATTERN.test(entry.name))
+    .map((entry) => entry.name);
+
+  const files: StoredFile[] = [];
+  for (const sessionId of sessionIds) {
+    for (const name of await readdir(sessionDir(sessionId))) {
+      const match = DATA_FILE_PATTERN.exec(name);
+      if (!match) continue;
+      const path = join(sessionDir(sessionId), name);
+      const { size } = await stat(path);
+      files.push({ sessionId, day: match[1], kind: match[2] as EntryKind, path, size });
+    }
+  }
+  return { sessionIds, files };
+}
+
+// 读取文件最后一行
+async function readLastLine(path: string): Promise<string> {
+  const handle = await open(path, 'r');
+  try {
+    const { size } = await handle.stat();
+    const length = Math.min(size, TAIL_SIZE);
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, size - length);
+    const lines = buffer.toString('utf-8').trimEnd().split('\n');
+    return lines[lines.length - 1];
+  } finally {
+    await handle.close();
+  }
+}
+
+// 将存储中的会话注册为历史会话，并让新分配的 ID 接在已存储的 ID 之后
+async function loadStoredSessions() {
+  const { sessionIds, files } = await listStoredFiles();
+  let maxMessageId = 0;
+  let maxNavigationId = 0;
+
+  for (const id of sessionIds) {
+    let meta: StoredSessionMeta;
+    try {
+      meta = JSON.parse(await readFile(join(sessionDir(id), 'session.json'), 'utf-8'));
+    } catch {
+      continue;
+    }
+    storedMeta.set(id, meta);
+
+    const session = restoreSession(id, meta.browserType, meta.protocol, meta.host, meta.port, meta.targetId);
+    session.title = meta.title;
+    session.url = meta.url;
+
+    for (const kind of ['console', 'network'] as const) {
+      const latest = files
+        .filter((file) => file.sessionId === id && file.kind === kind)
+        .sort((a, b) => a.day.localeCompare(b.day))
+        .pop();
+      if (!latest) continue;
+      try {
+        const entry = JSON.parse(await readLastLine(latest.path));
+        if (kind === 'console') {
+          maxMessageId = Math.max(maxMessageId, entry.id ?? 0);
+        }
+        maxNavigationId = Math.max(maxNavigationId, entry.navigationId ?? 0);
+      } catch {
+        // 最后一行不完整（如写入时进程被终止）
+      }
+    }
+  }
+
+  reserveIds(maxMessageId, maxNavigationId);
+}
+
+function updateMeta(session: BrowserSession): StoredSessionMeta {
+  const now = Date.now();
+  const meta: StoredSessionMeta = {
+    id: session.id,
+    browserType: session.browserType,
+    protocol: session.protocol,
+    host: session.host,
+    port: session.port,
+    targetId: session.targetId,
+    title: session.title,
+    url: session.url,
+    firstSeen: storedMeta.get(session.id)?.firstSeen ?? now,
+    lastSeen: now,
+  };
+  storedMeta.set(session.id, meta);
+  return meta;
+}
+
+// 取出待写入的条目，按文件合并为 JSONL 文本；force 为 true 时未完成的请求也一并写入
+function takeWrites(force: boolean): { files: Map<string, string>; metas: StoredSessionMeta[] } {
+  const files = new Map<string, string>();
+  const touched = new Set<BrowserSession>();
+  const append = (session: BrowserSession, kind: EntryKind, timestamp: number, entry: unknown) => {
+    const path = dataFile(session.id, timestamp, kind);
+    files.set(path, `${files.get(path) ?? ''}${JSON.stringify(entry)}\n`);
+    touched.add(session);
+  };
+
+  for (const [session, messages] of pendingConsole) {
+    for (const message of messages) {
+      // 远程对象在页面刷新或服务器重启后失效，不写入
+      append(session, 'console', message.timestamp, { ...message, args: undefined });
+    }
+  }
+  pendingConsole.clear();
+
+  const now = Date.now();
+  for (const [session, requests] of pendingNetwork) {
+    const remaining = requests.filter((request) => {
+      if (force || request.finished || now - request.timestamp > STALE_REQUEST_AGE) {
+        const entry: NetworkRequest & RewrittenEntry = rewrites.delete(request) ? { ...request, rewritten: true } : request;
+        append(session, 'network', request.timestamp, entry);
+        if (!request.finished && !force) {
+          let stale = staleRequests.get(session);
+          if (!stale) {
+            stale = new Set();
+            staleRequests.set(session, stale);
+          }
+          stale.add(request);
+        }
+        return false;
+      }
+      return true;
+    });
+    if (remaining.length > 0) {
+      pendingNetwork.set(session, remaining);
+    } else {
+      pendingNetwork.delete(session);
+    }
+  }
+
+  return { files, metas: [...touched].map(updateMeta) };
+}
+
+async function flush() {
+  const { files, metas } = takeWrites(false);
+  for (const meta of metas) {
+    await mkdir(sessionDir(meta.id), { recursive: true });
+    await writeFile(join(sessionDir(meta.id), 'session.json'), JSON.stringify(meta, null, 2));
+  }
+  for (const [path, text] of files) {
+    await appendFile(path, text);
+    storedBytes += Buffer.byteLength(text);
+  }
+
+  if (storedBytes > config.storeMaxBytes) {
+    scheduleRetention();
+  }
+}
+
+function scheduleFlush() {
+  if (flushing) return;
+  flushing = flush()
+    .catch((error) => console.error('[MCP] 写入持久化存储失败:', error))
+    .finally(() => { flushing = null; });
+}
+
+function flushSync() {
+  try {
+    const { files, metas } = takeWrites(true);
+    for (const meta of metas) {
+      mkdirSync(sessionDir(meta.id), { recursive: true });
+      writeFileSync(join(sessionDir(meta.id), 'session.json'), JSON.stringify(meta, null, 2));
+    }
+    for (const [path, text] of files) {
+      appendFileSync(path, text);
+    }
+  } catch (error) {
+    console.error('[MCP] 写入持久化存储失败:', error);
+  }
+}
+
+// 保留策略：依次按天数、会话数、总大小删除最旧的数据；本次运行中的会话不会被整个删除
+async function applyRetention() {
+  const { sessionIds, files } = await listStoredFiles();
+  const isLive = (id: string) => {
+    const session = sessions.get(id);
+    return session !== undefined && !session.stored;
+  };
+
+  let remaining = files;
+  const remove = async (doomed: StoredFile[]) => {
+    for (const file of doomed) {
+      await rm(file.path, { force: true });
+    }
+    remaining = remaining.filter((file) => !doomed.includes(file));
+  };
+
+  const cutoff = dayOf(Date.now() - config.storeMaxAgeDays * DAY);
+  await remove(remaining.filter((file) => file.day < cutoff));
+
+  const lastSeen = (id: string) => storedMeta.get(id)?.lastSeen ?? 0;
+  const excess = sessionIds
+    .filter((id) => remaining.some((file) => file.sessionId === id))
+    .sort((a, b) => lastSeen(b) - lastSeen(a))
+    .slice(config.storeMaxSessions)
+    .filter((id) => !isLive(id));
+  await remove(remaining.filter((file) => excess.includes(file.sessionId)));
+
+  let total = remaining.reduce((sum, file) => sum + file.size, 0);
+  const oldest = [...remaining].sort((a, b) => a.day.localeCompare(b.day));
+  const doomed: StoredFile[] = [];
+  for (const file of oldest) {
+    if (total <= config.storeMaxBytes) break;
+    doomed.push(file);
+    total -= file.size;
+  }
+  await remove(doomed);
+  storedBytes = total;
+
+  // 清理已没有数据的历史会话
+  for (const id of sessionIds) {
+    if (isLive(id) || remaining.some((file) => file.sessionId === id)) continue;
+    await rm(sessionDir(id), { recursive: true, force: true });
+    storedMeta.delete(id);
+    if (sessions.get(id)?.stored) {
+      removeSession(id);
+    }
+  }
+}
+
+function scheduleRetention() {
+  if (retention) return;
+  retention = applyRetention()
+    .catch((error) => console.error('[MCP] 清理持久化存储失败:', error))
+    .finally(() => { retention = null; });
+}
+
+// 从文件开头逐行读取
+async function* readLines(path: string): AsyncGenerator<string> {
+  const stream = createReadStream(path, { encoding: 'utf-8' });
+  try {
+    yield* createInterface({ input: stream, crlfDelay: Infinity });
+  } finally {
+    stream.destroy();
+  }
+}
+
+// 从文件末尾逐行倒序读取，只在内存中保留当前读取的块
+async function* readLinesReverse(path: string): AsyncGenerator<string> {
+  const handle = await open(path, 'r');
+  try {
+    let position = (await handle.stat()).size;
+    let rest = Buffer.alloc(0);
+    while (position > 0) {
+      const length = Math.min(REVERSE_CHUNK_SIZE, position);
+      position -= length;
+      const chunk = Buffer.alloc(length);
+      await handle.read(chunk, 0, length, position);
+
+      // 换行符不会出现在 UTF-8 多字节字符中间，可以直接按字节切分
+      const buffer = Buffer.concat([chunk, rest]);
+      let end = buffer.length;
+      for (let i = buffer.length - 1; i >= 0; i--) {
+        if (buffer[i] === 0x0a) {
+          if (end > i + 1) yield buffer.toString('utf-8', i + 1, end);
+          end = i;
+        }
+      }
+      rest = buffer.subarray(0, end);
+    }
+    if (rest.length > 0) yield rest.toString('utf-8');
+  } finally {
+    await handle.close();
+  }
+}
+
+// 记录在读取顺序上的位置，越大越靠前：日志按 ID 顺序写入，请求按开始时间比较
+function positionOf(kind: EntryKind, entry: { id?: number; timestamp: number }, order: HistoryWindow<unknown>['order']): number {
+  const position = kind === 'console' ? entry.id ?? 0 : entry.timestamp;
+  return order === 'desc' ? position : -position;
+}
+
+// 请求记录的标识：同一请求未完成时写入的记录和完成后重新写入的记录相同
+function requestKey(entry: { timestamp: number }): string {
+  return `${(entry as Partial<NetworkRequest>).requestId}@${entry.timestamp}`;
+}
+
+// 按范围读取会话的存储记录，返回按时间顺序排列的记录和是否因 limit 提前停止
+async function readStoredEntries<T extends { timestamp: number }>(
+  sessionId: string,
+  kind: EntryKind,
+  window: HistoryWindow<T>,
+): Promise<{ entries: T[]; partial: boolean }> {
+  let names: string[];
+  try {
+    names = await readdir(sessionDir(sessionId));
+  } catch {
+    return { entries: [], partial: false };
+  }
+
+  const { since, until, order, limit } = window;
+  const sinceDay = since !== undefined ? dayOf(since) : undefined;
+  const untilDay = until !== undefined ? dayOf(until) : undefined;
+  const files = names
+    .filter((name) => {
+      const match = DATA_FILE_PATTERN.exec(name);
+      if (!match || match[2] !== kind) return false;
+      return !(sinceDay && match[1] < sinceDay) && !(untilDay && match[1] > untilDay);
+    })
+    .sort();
+  if (order === 'desc') files.reverse();
+
+  const lag = kind === 'network' ? NETWORK_WRITE_LAG : 0;
+  const entries: T[] = [];
+  // 已保留的记录中第 limit 靠前的位置，之后读到的记录落后它超过 lag 时停止
+  let threshold: number | undefined;
+  // 倒序读取时已读到重新写入记录的请求，之后读到的旧记录跳过
+  const superseded = new Set<string>();
+  const finish = (partial: boolean) => ({ entries: order === 'desc' ? entries.reverse() : entries, partial });
+
+  for (const name of files) {
+    const path = join(sessionDir(sessionId), name);
+    for await (const line of order === 'desc' ? readLinesReverse(path) : readLines(path)) {
+      if (!line) continue;
+      let entry: T;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // 跳过写入中断的行
+        continue;
+      }
+      if (since !== undefined && entry.timestamp < since) continue;
+      if (until !== undefined && entry.timestamp > until) continue;
+      if (window.stop?.(entry)) return finish(false);
+
+      // 请求完成后重新写入的记录替换之前未完成时写入的记录
+      let rewritten = false;
+      if (kind === 'network') {
+        const key = requestKey(entry);
+        rewritten = Boolean((entry as RewrittenEntry).rewritten);
+        delete (entry as RewrittenEntry).rewritten;
+        if (order === 'desc') {
+          if (superseded.has(key)) continue;
+          if (rewritten) superseded.add(key);
+        } else if (rewritten) {
+          const index = entries.findIndex((item) => requestKey(item) === key);
+          if (index !== -1) entries.splice(index, 1);
+        }
+      }
+
+      const position = positionOf(kind, entry, order);
+      if (!rewritten && threshold !== undefined && position + lag < threshold) return finish(true);
+      if (!window.matches(entry)) continue;
+
+      entries.push(entry);
+      if (limit !== undefined && entries.length >= limit) {
+        const positions = entries.map((item) => positionOf(kind, item, order)).sort((a, b) => b - a);
+        threshold = positions[limit - 1];
+      }
+    }
+  }
+  return finish(false);
+}
+
+// 读取查询需要的存储记录：历史会话，或内存缓存已丢弃过旧条目的会话；windowOf 给出每个会话的读取范围
+async function loadHistory<T extends { timestamp: number }>(
+  targets: BrowserSession[],
+  kind: EntryKind,
+  windowOf: (session: BrowserSession) => HistoryWindow<T>,
+): Promise<StoredHistory<T>> {
+  const history: StoredHistory<T> = { entries: new Map(), partial: false };
+  if (!isStoreEnabled()) return history;
+
+  for (const session of targets) {
+    if (session.stored || session.trimmed) {
+      const { entries, partial } = await readStoredEntries<T>(session.id, kind, windowOf(session));
+      history.entries.set(session.id, entries);
+      history.partial ||= partial;
+    }
+  }
+  return history;
+}
+
+export function loadConsoleHistory(
+  targets: BrowserSession[],
+  windowOf: (session: BrowserSession) => HistoryWindow<ConsoleMessage>,
+): Promise<StoredHistory<ConsoleMessage>> {
+  return loadHistory(targets, 'console', windowOf);
+}
+
+export function loadNetworkHistory(
+  targets: BrowserSession[],
+  windowOf: (session: BrowserSession) => HistoryWindow<NetworkRequest>,
+): Promise<StoredHistory<NetworkRequest>> {
+  return loadHistory(targets, 'network', windowOf);
+}
+
+// 在存储中按 requestId 查找请求（取最新的一条）
+export async function findStoredRequest(session: BrowserSession, requestId: string): Promise<NetworkRequest | undefined> {
+  if (!isStoreEnabled() || !(session.stored || session.trimmed)) return undefined;
+  const { entries } = await readStoredEntries<NetworkRequest>(session.id, 'network', {
+    order: 'desc',
+    matches: (request) => request.requestId === requestId,
+    limit: 1,
+  });
+  return entries[entries.length - 1];
+}
+
+// 清空会话的存储记录
+export async function clearStoredEntries(targets: BrowserSession[], kind: EntryKind) {
+  if (!isStoreEnabled()) return;
+
+  for (const session of targets) {
+    (kind === 'console' ? pendingConsole : pendingNetwork).delete(session);
+    if (kind === 'network') staleRequests.delete(session);
+    let names: string[];
+    try {
+      names = await readdir(sessionDir(session.id));
+    } catch {
+      continue;
+    }
+    for (const name of names) {
+      if (DATA_FILE_PATTERN.exec(name)?.[2] === kind) {
+        await rm(join(sessionDir(session.id), name), { force: true });
+      }
+    }
+  }
+}
+
+// 历史会话的记录时间范围
+export function describeStoredSession(session: BrowserSession): string | undefined {
+  const meta = storedMeta.get(session.id);
+  if (!session.stored || !meta) return undefined;
+  const format = (time: number) => new Date(time).toLocaleString('zh-CN');
+  return `历史记录: ${format(meta.firstSeen)} ~ ${format(meta.lastSeen)}`;
+}
@@ -0,0 +1,108 @@
+import type { Protocol } from 'devtools-protocol';
+import { config } from './config.js';
+import { registerConsoleHandlers } from './console.js';
+import { applyInterceptRulesTo, registerInterceptHandlers } from './intercept.js';
+import { registerNetworkHandlers } from './network.js';
+import { sendCommand, subscribe } from './protocol.js';
+import { registerRealtimeHandlers } from './realtime.js';
+import { redactUrl } from './redact.js';
+import { BrowserSession, ChildTarget, ProtocolConnection } from './types.js';
+
+// 自动附加的目标类型：排除弹出窗口等其他页面（它们作为独立标签页附加）
+const AUTO_ATTACH_FILTER: Protocol.Target.TargetFilter = [{ type: 'page', exclude: true }, {}];
+
+// 注册子目标的附加/分离处理器。子目标（跨域 iframe、Worker、Service Worker）也会自动附加其下的目标，
+// 所有子目标都以 flatten 模式挂在页面会话下
+export function registerTargetHandlers(session: BrowserSession, connection: ProtocolConnection = session) {
+  subscribe(connection, 'Target.attachedToTarget', (params) => {
+    attachChild(session, params, connection.cdpSessionId).catch((error) => {
+      console.error(`[MCP] 会话 ${session.id} 附加子目标 ${params.targetInfo.type} 失败:`, error instanceof Error ? error.message : error);
+    });
+  });
+  subscribe(connection, 'Target.detachedFromTarget', (params) => removeChild(session, params.sessionId));
+}
+
+// 移除分离的子目标及其下附加的目标（浏览器不一定为它们单独发送分离事件）
+function removeChild(session: BrowserSession, sessionId: string) {
+  const child = session.children.get(sessionId);
+  if (!child) return;
+  child.connected = false;
+  session.children.delete(sessionId);
+  for (const descendant of [...session.children.values()]) {
+    if (descendant.parentSessionId === sessionId) {
+      removeChild(session, descendant.cdpSessionId);
+    }
+  }
+}
+
+function autoAttach(connection: ProtocolConnection) {
+  return sendCommand(connection, 'Target.setAutoAttach', {
+    autoAttach: true,
+    waitForDebuggerOnStart: true,
+    flatten: true,
+    filter: AUTO_ATTACH_FILTER,
+  });
+}
+
+// 连接（或重连）后开始自动附加子目标；之前连接上的子目标随连接一起失效。
+// 浏览器不支持时只输出警告，不影响页面本身的捕获
+export async function enableChildTargets(session: BrowserSession) {
+  for (const child of session.children.values()) {
+    child.connected = false;
+  }
+  session.children.clear();
+
+  if (!config.childTargets) return;
+  try {
+    await autoAttach(session);
+  } catch (error) {
+    console.error(`[MCP] 会话 ${session.id} 无法自动附加子目标:`, error instanceof Error ? error.message : error);
+  }
+}
+
+// 附加子目标：订阅它的日志、网络和 WebSocket/SSE 事件，启用相关的域和请求拦截后让暂停等待调试器的目标继续运行
+async function attachChild(session: BrowserSession, params: Protocol.Target.AttachedToTargetEvent, parentSessionId?: string) {
+  const { sessionId, targetInfo } = params;
+  const child: ChildTarget = {
+    id: session.id,
+    ws: session.ws,
+    connected: true,
+    protocol: 'cdp',
+    pending: session.pending,
+    listeners: new Map(),
+    cdpSessionId: sessionId,
+    parentSessionId,
+    target: { targetId: targetInfo.targetId, type: targetInfo.type, url: redactUrl(targetInfo.url) },
+  };
+  session.children.set(sessionId, child);
+
+  registerConsoleHandlers(session, child);
+  registerNetworkHandlers(session, child);
+  registerRealtimeHandlers(session, child);
+  registerInterceptHandlers(session, child);
+  registerTargetHandlers(session, child);
+
+  try {
+    // 不同类型的目标支持的域不同，单个域启用失败不影响其他域
+    await Promise.all([
+      sendCommand(child, 'Runtime.enable').catch(() => {}),
+      sendCommand(child, 'Log.enable').catch(() => {}),
+      sendCommand(child, 'Network.enable').catch(() => {}),
+      session.interceptRules.length > 0 ? applyInterceptRulesTo(session, child).catch(() => {}) : undefined,
+    ]);
+    await autoAttach(child).catch(() => {});
+  } finally {
+    if (params.waitingForDebugger) {
+      await sendCommand(child, 'Runtime.runIfWaitingForDebugger').catch(() => {});
+    }
+  }
+}
+
+// 子目标的简要统计（如 "worker 2, iframe 1"），用于会话列表
+export function describeChildTargets(session: BrowserSession): string {
+  const counts = new Map<string, number>();
+  for (const child of session.children.values()) {
+    counts.set(child.target.type, (counts.get(child.target.type) ?? 0) + 1);
+  }
+  return [...counts].map(([type, count]) => `${type} ${count}`).join(', ');
+}
@@ -0,0 +1,263 @@
+import type { Protocol } from 'devtools-protocol';
+import { WebSocket } from 'ws';
+
+export type BrowserType = 'chrome' | 'firefox';
+
+// 调试协议后端：Chrome DevTools Protocol 或 WebDriver BiDi
+export type ProtocolType = 'cdp' | 'bidi';
+
+// 浏览器日志存储
+export interface ConsoleMessage {
+  id: number; // 全局递增的消息 ID，可作为轮询游标
+  sessionId: string;
+  level: 'log' | 'error' | 'warning' | 'info' | 'debug';
+  source: string;
+  text: string;
+  timestamp: number;
+  navigationId?: number; // 所属的页面加载
+  emulation?: string; // 记录时生效的仿真配置摘要
+  target?: TargetTag; // 来自子目标（iframe、Worker 等）时的目标信息，顶层页面为空
+  url?: string;
+  lineNumber?: number; // 从 0 开始
+  columnNumber?: number; // 从 0 开始
+  original?: OriginalPosition; // 经 source map 还原的位置
+  stackTrace?: StackFrame[];
+  args?: Protocol.Runtime.RemoteObject[]; // console 参数原始对象，可按需展开
+}
+
+// 调用栈帧，行列号从 0 开始
+export interface StackFrame {
+  functionName: string;
+  url: string;
+  scriptId?: string;
+  lineNumber: number;
+  columnNumber: number;
+  original?: OriginalPosition;
+}
+
+// 源码中的原始位置，行列号从 0 开始
+export interface OriginalPosition {
+  source: string;
+  lineNumber: number;
+  columnNumber: number;
+  name?: string;
+}
+
+// 已解析的脚本（来自 Debugger.scriptParsed）
+export interface ScriptInfo {
+  url: string;
+  sourceMapURL?: string;
+}
+
+// 新消息在加入缓存时才分配 ID
+export type ConsoleMessageInput = Omit<ConsoleMessage, 'id'>;
+
+export interface NetworkRequest {
+  sessionId: string;
+  requestId: string;
+  method: string;
+  url: string;
+  status?: number;
+  statusText?: string;
+  type?: string;
+  mimeType?: string;
+  protocol?: string;
+  remoteAddress?: string;
+  timestamp: number; // 请求发出的时间（毫秒时间戳）
+  navigationId?: number; // 所属的页面加载
+  emulation?: string; // 请求发出时生效的仿真配置摘要
+  target?: TargetTag; // 由子目标发出时的目标信息，顶层页面为空
+  loaderId?: string; // CDP 文档加载器 ID，用于将主文档请求归入它所加载的页面
+  requestHeaders?: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  postData?: string;
+  hasPostData?: boolean;
+  fromCache?: boolean;
+  encodedDataLength?: number; // 传输大小（含响应头）
+  decodedBodyLength?: number; // 解码后的响应体大小
+  finished?: boolean;
+  failed?: boolean;
+  errorText?: string;
+  canceled?: boolean;
+  blockedReason?: string;
+  redirectedFrom?: string; // 重定向前的 URL
+  interceptRule?: string; // 命中的拦截规则 ID
+  mocked?: boolean; // 响应由拦截规则伪造（模拟响应或拦截失败），不是服务器的真实响应
+  responseBody?: ResponseBody; // 已保存的响应体（如从 HAR 导入）
+  timing?: {
+    startTime: number; // 单调时钟（秒），用于计算耗时
+    responseTime?: number;
+    endTime?: number;
+    duration?: number; // 总耗时（毫秒）
+    resourceTiming?: Protocol.Network.ResourceTiming;
+  };
+}
+
+// 错误分组：同一错误（归一化的消息 + 栈顶位置，或请求方法 + 归一化的 URL + 状态）合并计数，
+// 在捕获时累计，不受消息缓存上限影响
+export interface ErrorGroup {
+  fingerprint: string;
+  kind: 'console' | 'exception' | 'network';
+  sessionId: string;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  urls: string[]; // 出现过的页面 URL（网络错误为请求 URL），最多保留几个
+  message?: ConsoleMessage; // 首次出现的日志，作为样本（含堆栈）
+  request?: NetworkRequest; // 首次失败的请求，作为样本
+}
+
+// 实时连接：WebSocket 或 Server-Sent Events（EventSource）
+export interface RealtimeConnection {
+  sessionId: string;
+  requestId: string; // CDP requestId，作为连接 ID
+  kind: 'websocket' | 'sse';
+  url: string;
+  createdAt: number;
+  status?: number; // 握手响应状态码（WebSocket）
+  closedAt?: number;
+  target?: TargetTag; // 由子目标（iframe、Worker）建立时的目标信息，顶层页面为空
+}
+
+// WebSocket 帧或 SSE 消息
+export interface RealtimeMessage {
+  sessionId: string;
+  connectionId: string;
+  kind: 'websocket' | 'sse';
+  url: string;
+  direction: 'sent' | 'received' | 'error';
+  opcode?: number; // WebSocket 帧类型：1 文本，2 二进制（payload 为 base64），8 关闭，9 ping，10 pong
+  eventName?: string; // SSE 事件类型
+  eventId?: string; // SSE 事件 ID
+  payload: string; // 超过上限时截断
+  payloadLength: number; // 脱敏后、截断前的长度（字符）
+  truncated: boolean;
+  target?: TargetTag; // 所属连接由子目标建立时的目标信息
+  timestamp: number;
+  navigationId?: number;
+}
+
+// 请求拦截规则（CDP Fetch 域），在请求发出前生效
+export interface InterceptRule {
+  id: string;
+  urlPattern: string; // 通配符：* 匹配任意字符，? 匹配单个字符
+  method?: string;
+  action: 'block' | 'mock' | 'continue'; // 拦截为失败 / 返回模拟响应 / 放行（可延迟、改写请求头）
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string;
+  delay?: number; // 延迟（毫秒）
+  requestHeaders?: Record<string, string>; // 放行时覆盖的请求头
+  hits: number;
+}
+
+// 仿真配置（CDP Emulation / Network 域），未设置的项使用浏览器默认值
+export interface EmulationState {
+  network?: {
+    preset: string; // 预设名称，自定义参数时为 custom
+    offline: boolean;
+    latency: number; // 额外延迟（毫秒）
+    downloadThroughput: number; // 字节/秒，-1 表示不限速
+    uploadThroughput: number;
+  };
+  cpuThrottling?: number; // 降速倍数，1 表示不降速
+  viewport?: {
+    device: string; // 设备预设名称，自定义参数时为 custom
+    width: number;
+    height: number;
+    deviceScaleFactor: number;
+    mobile: boolean;
+  };
+  userAgent?: string;
+  geolocation?: { latitude: number; longitude: number; accuracy: number };
+  timezone?: string;
+  locale?: string;
+}
+
+// 一次页面加载（顶层 frame 的导航）
+export interface Navigation {
+  id: number; // 全局递增
+  url: string;
+  timestamp: number; // 导航提交的时间（毫秒时间戳）；附加前已加载的页面为附加时间
+  contentLoadedAt?: number; // DOMContentLoaded 事件触发的时间
+  loadedAt?: number; // load 事件触发的时间
+}
+
+// 响应体内容
+export interface ResponseBody {
+  text: string;
+  base64Encoded: boolean;
+  size: number; // 原始字节数
+  truncated: boolean;
+}
+
+// 协议连接：按 id 关联命令响应，并将事件分发给订阅者
+export interface ProtocolConnection {
+  id: string;
+  ws: WebSocket | null;
+  connected: boolean;
+  protocol: ProtocolType;
+  pending: Map<number, PendingCommand>;
+  listeners: Map<string, Set<(params: unknown) => void>>;
+  cdpSessionId?: string; // 子目标的 CDP sessionId（flatten 模式），命令带上它发往子目标
+  children?: Map<string, ProtocolConnection>; // 共享该连接的子目标，按 CDP sessionId 分发消息
+}
+
+// 子目标信息，记录在来自子目标的日志和请求中
+export interface TargetTag {
+  targetId: string;
+  type: string; // iframe、worker、service_worker、shared_worker 等
+  url: string;
+}
+
+// 自动附加的子目标：与页面共享 WebSocket 连接和等待中的命令，事件写入页面会话的缓存
+export interface ChildTarget extends ProtocolConnection {
+  cdpSessionId: string;
+  parentSessionId?: string; // 由其他子目标附加时为父目标的 CDP sessionId，直接挂在页面下时为空
+  target: TargetTag;
+}
+
+// 一个会话对应一个已附加的标签页（target / browsing context），拥有独立的缓存；
+// CDP 会话独占一个连接，BiDi 会话共享所在浏览器的 WebDriver 连接；
+// browserType 为 null 的会话是离线会话（如导入的 HAR），只有缓存没有连接
+export interface BrowserSession extends ProtocolConnection {
+  browserType: BrowserType | null;
+  host: string;
+  port: number;
+  targetId: string;
+  title: string;
+  url: string;
+  messages: ConsoleMessage[];
+  networkRequests: NetworkRequest[];
+  realtimeConnections: Map<string, RealtimeConnection>; // requestId -> 连接
+  realtimeMessages: RealtimeMessage[];
+  errorGroups: Map<string, ErrorGroup>; // 指纹 -> 错误分组
+  children: Map<string, ChildTarget>; // 已附加的子目标，连接重建后重新附加
+  maxMessages: number;
+  scripts: Map<string, ScriptInfo>; // scriptId -> 脚本信息
+  navigations: Navigation[]; // 最近的页面加载，最后一条为当前页面
+  autoReconnect: boolean; // 连接意外断开时自动重连，手动断开后关闭
+  reconnectAttempts: number;
+  reconnectTimer?: NodeJS.Timeout;
+  stored: boolean; // 历史会话：来自持久化存储（之前的服务器进程），内存中没有缓存
+  trimmed: boolean; // 内存缓存已超出上限丢弃过旧条目，完整记录需从持久化存储读取
+  interceptRules: InterceptRule[]; // 重连后重新启用
+  emulation: EmulationState; // 重连后重新应用
+  emulationProfile?: string; // 当前仿真配置摘要，记录到之后捕获的日志和请求中
+}
+
+// 等待响应的协议命令
+export interface PendingCommand {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (reason: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// 标签页信息（CDP 的 /json 与 BiDi 的 browsingContext.getTree 统一后的结构）
+export interface TabInfo {
+  id: string;
+  title: string;
+  url: string;
+  webSocketDebuggerUrl?: string;
+}
@@ -0,0 +1,110 @@
+import { ConsoleQuery, matchesConsoleQuery, matchesNetworkQuery, NetworkQuery } from './query.js';
+import { CaptureEvent, onCapture, resolveSessions } from './session.js';
+import { BrowserSession, ConsoleMessage, NetworkRequest } from './types.js';
+
+export const DEFAULT_WAIT_TIMEOUT = 30000;
+const MAX_WAIT_TIMEOUT = 5 * 60 * 1000;
+
+// 等待范围：指定会话，或本次运行的所有会话（包括等待期间新连接的会话）
+function inScope(session: BrowserSession, sessionId?: string): boolean {
+  return sessionId && sessionId !== 'all' ? session.id === sessionId : !session.stored;
+}
+
+// 实际等待的时长：不超过 MAX_WAIT_TIMEOUT
+function capTimeout(timeout: number): number {
+  return Math.min(timeout, MAX_WAIT_TIMEOUT);
+}
+
+// 订阅捕获事件直到出现匹配的条目；超时或请求被取消（含开始等待前已取消）时失败
+function waitForCapture<T>(
+  match: (event: CaptureEvent) => T | undefined,
+  timeout: number,
+  timeoutMessage: string,
+  signal?: AbortSignal,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('等待已取消'));
+      return;
+    }
+
+    const finish = () => {
+      clearTimeout(timer);
+      unsubscribe();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new Error('等待已取消'));
+    };
+
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error(timeoutMessage));
+    }, timeout);
+
+    const unsubscribe = onCapture((event) => {
+      const result = match(event);
+      if (result !== undefined) {
+        finish();
+        resolve(result);
+      }
+    });
+
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+// 等待匹配的控制台日志。指定 since 时，缓存中该时间之后已有的匹配日志直接返回
+export async function waitForConsoleMessage(
+  query: ConsoleQuery,
+  sessionId: string | undefined,
+  timeout: number,
+  signal?: AbortSignal,
+): Promise<ConsoleMessage> {
+  const wait = capTimeout(timeout);
+  const targets = resolveSessions(sessionId);
+  if (query.since !== undefined) {
+    const existing = targets
+      .flatMap((session) => session.messages)
+      .filter((message) => matchesConsoleQuery(message, query))
+      .sort((a, b) => a.id - b.id)[0];
+    if (existing) return existing;
+  }
+
+  return waitForCapture(
+    (event) => event.kind === 'console' && inScope(event.session, sessionId) && matchesConsoleQuery(event.entry, query)
+      ? event.entry
+      : undefined,
+    wait,
+    `等待 ${wait}ms 未出现匹配的控制台日志`,
+    signal,
+  );
+}
+
+// 等待匹配的网络请求完成（成功或失败）。指定 since 时，缓存中该时间之后已完成的匹配请求直接返回
+export async function waitForRequest(
+  query: NetworkQuery,
+  sessionId: string | undefined,
+  timeout: number,
+  signal?: AbortSignal,
+): Promise<NetworkRequest> {
+  const wait = capTimeout(timeout);
+  const targets = resolveSessions(sessionId);
+  if (query.since !== undefined) {
+    const existing = targets
+      .flatMap((session) => session.networkRequests)
+      .filter((request) => request.finished && matchesNetworkQuery(request, query))
+      .sort((a, b) => a.timestamp - b.timestamp)[0];
+    if (existing) return existing;
+  }
+
+  return waitForCapture(
+    (event) => event.kind === 'network-finished' && inScope(event.session, sessionId) && matchesNetworkQuery(event.entry, query)
+      ? event.entry
+      : undefined,
+    wait,
+    `等待 ${wait}ms 未出现匹配的已完成网络请求`,
+    signal,
+  );
+}
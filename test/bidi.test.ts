@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { WebSocket, WebSocketServer } from 'ws';
+import { attachBidiContext } from '../src/bidi.js';
+import { createSession } from '../src/session.js';
+
+// 模拟 WebDriver BiDi 端点：记录收到的命令，标签页 top 下有一个 iframe
+let server: WebSocketServer;
+let browser: WebSocket | undefined;
+const received: string[] = [];
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+before(async () => {
+  server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+  await new Promise((resolve) => server.once('listening', resolve));
+  server.on('connection', (ws) => {
+    browser = ws;
+    ws.on('message', (data: Buffer) => {
+      const { id, method } = JSON.parse(data.toString());
+      received.push(method);
+      const result = method === 'browsingContext.getTree'
+        ? { contexts: [{ context: 'top', url: 'https://a.com/', children: [{ context: 'frame', url: 'https://b.com/', children: [] }] }] }
+        : {};
+      ws.send(JSON.stringify({ type: 'success', id, result }));
+    });
+  });
+});
+
+after(() => {
+  server.close();
+});
+
+function emit(method: string, params: object) {
+  browser?.send(JSON.stringify({ type: 'event', method, params }));
+}
+
+describe('BiDi browsing context', () => {
+  it('标签页关闭时会话标记为断开并结束 WebDriver 会话', async () => {
+    const { port } = server.address() as AddressInfo;
+    const session = createSession('firefox', '127.0.0.1', port, 'top', 'bidi');
+    await attachBidiContext(session, { id: 'top', title: '', url: 'https://a.com/' });
+    assert.ok(received.includes('session.subscribe'));
+
+    emit('browsingContext.contextDestroyed', { context: 'frame', url: 'https://b.com/', parent: 'top', children: [] });
+    await tick();
+    assert.equal(session.connected, true);
+
+    emit('browsingContext.contextDestroyed', { context: 'top', url: 'https://a.com/', children: null });
+    await tick();
+    assert.equal(session.connected, false);
+    assert.equal(session.autoReconnect, false);
+    assert.ok(received.includes('session.end'));
+  });
+});
@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { updateEmulation } from '../src/emulation.js';
+import { dispatchMessage } from '../src/protocol.js';
+import { createSession } from '../src/session.js';
+import { BrowserSession } from '../src/types.js';
+
+// 模拟已连接的 CDP 会话：记录发送的命令，failing 中的方法返回协议错误
+function fakeSession(failing: string[] = []) {
+  const session = createSession('chrome', 'localhost', 9222, 'emulation-test');
+  const sent: Array<{ method: string; params: Record<string, unknown> }> = [];
+  session.connected = true;
+  session.ws = {
+    send(data: string, callback: (error?: Error) => void) {
+      const { id, method, params } = JSON.parse(data);
+      sent.push({ method, params });
+      callback();
+      const response = failing.includes(method) ? { id, error: { message: `${method} failed` } } : { id, result: {} };
+      setImmediate(() => dispatchMessage(session, JSON.stringify(response)));
+    },
+  } as unknown as BrowserSession['ws'];
+  return { session, sent };
+}
+
+describe('updateEmulation', () => {
+  it('应用失败时不保存新配置并恢复已修改的项', async () => {
+    const { session, sent } = fakeSession(['Emulation.setTimezoneOverride']);
+    await assert.rejects(updateEmulation(session, { network: 'slow-3g', timezone: 'Asia/Tokyo' }), /setTimezoneOverride failed/);
+
+    assert.deepEqual(session.emulation, {});
+    assert.equal(session.emulationProfile, undefined);
+    const network = sent.filter((command) => command.method === 'Network.emulateNetworkConditions');
+    assert.equal(network.length, 2);
+    assert.equal(network[1].params.downloadThroughput, -1);
+  });
+
+  it('只指定像素比和移动端时修改当前视口', async () => {
+    const { session, sent } = fakeSession();
+    await updateEmulation(session, { device: 'laptop' });
+    await updateEmulation(session, { deviceScaleFactor: 2, mobile: true });
+
+    assert.deepEqual(session.emulation.viewport, { device: 'custom', width: 1366, height: 768, deviceScaleFactor: 2, mobile: true });
+    assert.deepEqual(sent.filter((command) => command.method === 'Emulation.setDeviceMetricsOverride').at(-1)?.params,
+      { width: 1366, height: 768, deviceScaleFactor: 2, mobile: true });
+  });
+
+  it('未启用视口仿真时只指定像素比报错', async () => {
+    const { session, sent } = fakeSession();
+    await assert.rejects(updateEmulation(session, { deviceScaleFactor: 2 }), /当前未启用视口仿真/);
+    assert.equal(sent.length, 0);
+  });
+});
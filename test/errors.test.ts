@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { getErrorSummary, isFailedRequest, normalizeMessage, normalizeUrl } from '../src/errors.js';
+import { importHar } from '../src/har.js';
+import { addMessage, addNetworkRequest, createSession, notifyRequestFinished } from '../src/session.js';
+import { BrowserSession } from '../src/types.js';
+
+function logError(session: BrowserSession, text: string, line = 10) {
+  addMessage(session, {
+    sessionId: session.id,
+    level: 'error',
+    source: 'javascript-exception',
+    text,
+    timestamp: Date.now(),
+    stackTrace: [{ functionName: 'load', url: 'https://a.com/app.js?v=3', lineNumber: line, columnNumber: 4 }],
+  });
+}
+
+describe('normalizeMessage', () => {
+  it('只取第一行并替换易变部分', () => {
+    assert.equal(
+      normalizeMessage('Item 42 not found (id 3f2a9c1be4d8)\n    at load (app.js:1:2)'),
+      'Item <n> not found (id <hex>)',
+    );
+    assert.equal(normalizeMessage('Request 123e4567-e89b-12d3-a456-426614174000 failed'), 'Request <uuid> failed');
+    assert.equal(normalizeMessage('GET https://a.com/x?token=1 failed'), 'GET https://a.com/x failed');
+  });
+});
+
+describe('normalizeUrl', () => {
+  it('去掉查询参数，数字和长 ID 段替换为 :id', () => {
+    assert.equal(normalizeUrl('https://a.com/users/42/orders/0123456789abcdef0123?page=2'), 'https://a.com/users/:id/orders/:id');
+    assert.equal(normalizeUrl('/relative/1?x=1'), '/relative/1');
+  });
+});
+
+describe('isFailedRequest', () => {
+  it('网络错误或 4xx/5xx 视为失败', () => {
+    const base = { sessionId: 's1', requestId: 'r1', method: 'GET', url: 'https://a.com/', timestamp: 0 };
+    assert.equal(isFailedRequest({ ...base, status: 200 }), false);
+    assert.equal(isFailedRequest({ ...base, status: 404 }), true);
+    assert.equal(isFailedRequest({ ...base, failed: true }), true);
+  });
+});
+
+describe('错误分组', () => {
+  it('只有易变部分不同的错误合并为一组', () => {
+    const session = createSession(null, '', 0, 'errors-merge');
+    logError(session, 'Item 1 not found');
+    logError(session, 'Item 2 not found');
+    logError(session, 'Item 3 not found', 20);
+
+    const groups = [...session.errorGroups.values()];
+    assert.equal(groups.length, 2);
+    assert.deepEqual(groups.map((group) => group.count).sort(), [1, 2]);
+    assert.ok(groups.every((group) => group.kind === 'exception'));
+  });
+
+  it('失败的请求按方法、归一化的 URL 和结果分组', () => {
+    const session = createSession(null, '', 0, 'errors-network');
+    ['https://a.com/items/1', 'https://a.com/items/2', 'https://a.com/items/3'].forEach((url, i) => {
+      const request = { sessionId: session.id, requestId: `r${i}`, method: 'GET', url, timestamp: i, finished: true, status: i === 2 ? 503 : 500 };
+      addNetworkRequest(session, request);
+      notifyRequestFinished(session, request);
+    });
+
+    const fingerprints = [...session.errorGroups.keys()].sort();
+    assert.deepEqual(fingerprints, ['network|GET|https://a.com/items/:id|500', 'network|GET|https://a.com/items/:id|503']);
+  });
+
+  it('错误摘要指出最早出现的错误', async () => {
+    const session = createSession(null, '', 0, 'errors-summary');
+    logError(session, 'First failure');
+    const summary = await getErrorSummary([session]);
+    assert.match(summary, /最早出现的错误（未捕获的异常，/);
+    assert.match(summary, /\[1 次\] First failure/);
+  });
+
+  it('导入的 HAR 中失败的请求同样计入分组', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'errors-test-'));
+    try {
+      const path = join(dir, 'errors.har');
+      const entry = (url: string, status: number) => ({
+        startedDateTime: '2026-01-01T00:00:00.000Z',
+        time: 10,
+        request: { method: 'GET', url, headers: [] },
+        response: { status, statusText: '', headers: [], content: { size: 0, mimeType: 'text/plain' } },
+      });
+      await writeFile(path, JSON.stringify({
+        log: { entries: [entry('https://a.com/items/1', 500), entry('https://a.com/items/2', 500), entry('https://a.com/ok', 200)] },
+      }));
+
+      const { session } = await importHar(path);
+      const summary = await getErrorSummary([session]);
+      assert.match(summary, /失败的网络请求 1 组（共 2 次）/);
+      assert.match(summary, /\[2 次\] GET https:\/\/a\.com\/items\/1 → 500/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { exportHar, importHar } from '../src/har.js';
+import { addNavigation, addNetworkRequest, createSession } from '../src/session.js';
+
+let dir: string;
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'har-test-'));
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function harEntry(url: string, status: number, startedDateTime = '2026-01-01T00:00:00.000Z') {
+  return {
+    startedDateTime,
+    time: 120,
+    request: { method: 'GET', url, headers: [{ name: 'Accept', value: '*/*' }] },
+    response: {
+      status,
+      statusText: '',
+      httpVersion: 'HTTP/2.0',
+      headers: [{ name: 'Set-Cookie', value: 'a=1' }, { name: 'Set-Cookie', value: 'b=2' }],
+      content: { size: 2, mimeType: 'application/json', text: '{}' },
+    },
+    timings: { dns: 10, connect: 20, send: 1, wait: 80, receive: 9 },
+  };
+}
+
+describe('importHar', () => {
+  it('导入有效条目并跳过格式错误的条目', async () => {
+    const path = join(dir, 'import.har');
+    await writeFile(path, JSON.stringify({
+      log: {
+        entries: [
+          harEntry('https://a.com/api', 200),
+          { request: { method: 'GET' } },
+          harEntry('https://a.com/bad-date', 200, 'not a date'),
+          null,
+        ],
+      },
+    }));
+
+    const { session, count, skipped } = await importHar(path);
+    assert.equal(count, 1);
+    assert.equal(skipped, 3);
+    const [request] = session.networkRequests;
+    assert.equal(request.url, 'https://a.com/api');
+    assert.equal(request.protocol, 'h2');
+    assert.equal(request.timing?.duration, 120);
+    assert.equal(request.responseHeaders?.['Set-Cookie'], 'a=[已脱敏]\nb=[已脱敏]');
+  });
+
+  it('文件不是 JSON 时报错', async () => {
+    const path = join(dir, 'broken.har');
+    await writeFile(path, 'not json');
+    await assert.rejects(importHar(path), /无法读取 HAR 文件/);
+  });
+});
+
+describe('exportHar', () => {
+  it('每次页面加载导出为一个页面', async () => {
+    const session = createSession(null, '', 0, 'har-export');
+    const first = addNavigation(session, 'https://a.com/', 1000);
+    first.contentLoadedAt = 1300;
+    first.loadedAt = 1500;
+    addNetworkRequest(session, { sessionId: session.id, requestId: 'r1', method: 'GET', url: 'https://a.com/', timestamp: 900, finished: true, status: 200 });
+    const second = addNavigation(session, 'https://a.com/next', 2000);
+    addNetworkRequest(session, { sessionId: session.id, requestId: 'r2', method: 'GET', url: 'https://a.com/next', timestamp: 2100, finished: true, status: 200 });
+
+    const path = join(dir, 'export.har');
+    assert.equal(await exportHar([session], path, { includeBodies: false, maxBodySize: 0 }), 2);
+
+    const har = JSON.parse(await readFile(path, 'utf-8'));
+    assert.deepEqual(har.log.pages.map((page: { id: string }) => page.id), [`${session.id}-${first.id}`, `${session.id}-${second.id}`]);
+    // 主文档请求早于导航提交，页面从它开始计时
+    assert.deepEqual(har.log.pages[0].pageTimings, { onContentLoad: 400, onLoad: 600 });
+    assert.deepEqual(har.log.pages[1].pageTimings, { onContentLoad: -1, onLoad: -1 });
+    assert.deepEqual(har.log.entries.map((entry: { pageref: string }) => entry.pageref), har.log.pages.map((page: { id: string }) => page.id));
+  });
+
+  it('导出的文件可以重新导入', async () => {
+    const source = join(dir, 'source.har');
+    await writeFile(source, JSON.stringify({ log: { entries: [harEntry('https://a.com/api?x=1', 404)] } }));
+    const { session } = await importHar(source);
+
+    const path = join(dir, 'roundtrip.har');
+    await exportHar([session], path, { includeBodies: true, maxBodySize: 1024 });
+    const { session: imported, count } = await importHar(path);
+    assert.equal(count, 1);
+    const [request] = imported.networkRequests;
+    assert.equal(request.status, 404);
+    assert.equal(request.url, 'https://a.com/api?x=1');
+    assert.equal(request.responseBody?.text, '{}');
+  });
+});
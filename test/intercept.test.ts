@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { addInterceptRule, registerInterceptHandlers } from '../src/intercept.js';
+import { dispatchMessage } from '../src/protocol.js';
+import { createSession } from '../src/session.js';
+import { registerTargetHandlers } from '../src/targets.js';
+import { BrowserSession } from '../src/types.js';
+
+// 模拟已连接的 CDP 会话，记录发送的命令及其目标的 sessionId
+function fakeSession() {
+  const session = createSession('chrome', 'localhost', 9222, 'intercept-test');
+  const sent: Array<{ method: string; sessionId?: string; params: Record<string, unknown> }> = [];
+  session.connected = true;
+  session.ws = {
+    send(data: string, callback: (error?: Error) => void) {
+      const { id, method, sessionId, params } = JSON.parse(data);
+      sent.push({ method, sessionId, params });
+      callback();
+      setImmediate(() => dispatchMessage(session, JSON.stringify({ id, result: {} })));
+    },
+  } as unknown as BrowserSession['ws'];
+  return { session, sent };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('addInterceptRule', () => {
+  it('urlPattern 为空时报错', async () => {
+    const { session, sent } = fakeSession();
+    await assert.rejects(addInterceptRule(session, { urlPattern: ' ', action: 'block' }), /urlPattern 不能为空/);
+    assert.equal(session.interceptRules.length, 0);
+    assert.equal(sent.length, 0);
+  });
+
+  it('子目标附加后启用拦截，并在子目标上处理暂停的请求', async () => {
+    const { session, sent } = fakeSession();
+    registerInterceptHandlers(session);
+    registerTargetHandlers(session);
+    await addInterceptRule(session, { urlPattern: '*/api/*', action: 'block' });
+
+    dispatchMessage(session, JSON.stringify({
+      method: 'Target.attachedToTarget',
+      params: { sessionId: 'child-1', targetInfo: { targetId: 't1', type: 'worker', url: 'https://a.com/worker.js' }, waitingForDebugger: false },
+    }));
+    await tick();
+    assert.ok(sent.some((command) => command.method === 'Fetch.enable' && command.sessionId === 'child-1'));
+
+    dispatchMessage(session, JSON.stringify({
+      sessionId: 'child-1',
+      method: 'Fetch.requestPaused',
+      params: { requestId: 'f1', request: { method: 'GET', url: 'https://a.com/api/users', headers: {} } },
+    }));
+    await tick();
+    const failed = sent.find((command) => command.method === 'Fetch.failRequest');
+    assert.equal(failed?.sessionId, 'child-1');
+    assert.equal(session.interceptRules[0].hits, 1);
+  });
+});
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseKey } from '../src/page.js';
+
+describe('parseKey', () => {
+  it('字母和数字使用对应的虚拟键码', () => {
+    assert.deepEqual(parseKey('a').params, { key: 'a', code: 'KeyA', windowsVirtualKeyCode: 65, text: 'a' });
+    assert.deepEqual(parseKey('7').params, { key: '7', code: 'Digit7', windowsVirtualKeyCode: 55, text: '7' });
+  });
+
+  it('标点按物理按键取虚拟键码', () => {
+    assert.equal(parseKey('.').params.windowsVirtualKeyCode, 190);
+    assert.equal(parseKey(',').params.windowsVirtualKeyCode, 188);
+    assert.deepEqual(parseKey('?').params, { key: '?', code: 'Slash', windowsVirtualKeyCode: 191, text: '?' });
+    assert.equal(parseKey('+').params.code, 'Equal');
+    assert.deepEqual(parseKey('Shift++'), { modifiers: 8, params: { key: '+', code: 'Equal', windowsVirtualKeyCode: 187, text: '+' } });
+  });
+
+  it('没有对应按键的字符不带虚拟键码', () => {
+    assert.deepEqual(parseKey('中').params, { key: '中', code: undefined, windowsVirtualKeyCode: undefined, text: '中' });
+  });
+
+  it('解析修饰键和命名按键', () => {
+    const { modifiers, params } = parseKey('Control+Shift+K');
+    assert.equal(modifiers, 10);
+    assert.equal(params.text, undefined);
+    assert.deepEqual(parseKey('Enter').params, { key: 'Enter', code: 'Enter', windowsVirtualKeyCode: 13, text: '\r' });
+    assert.throws(() => parseKey('Hyper+A'), /未知的修饰键/);
+    assert.throws(() => parseKey('F13'), /未知的按键/);
+  });
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { config } from '../src/config.js';
+import { checkHost, matchesHostname, matchesOrigin } from '../src/policy.js';
+
+describe('matchesHostname', () => {
+  it('完全相同或匹配通配的子域名', () => {
+    assert.equal(matchesHostname('Example.com', 'example.COM'), true);
+    assert.equal(matchesHostname('api.example.com', '*.example.com'), true);
+    assert.equal(matchesHostname('a.b.example.com', '*.example.com'), true);
+    assert.equal(matchesHostname('example.com', '*.example.com'), false);
+    assert.equal(matchesHostname('badexample.com', '*.example.com'), false);
+  });
+});
+
+describe('matchesOrigin', () => {
+  it('带协议的模式比较协议、主机和端口', () => {
+    assert.equal(matchesOrigin('http://localhost:3000/app', 'http://localhost:3000'), true);
+    assert.equal(matchesOrigin('http://localhost:3001/app', 'http://localhost:3000'), false);
+    assert.equal(matchesOrigin('https://localhost:3000/app', 'http://localhost:3000'), false);
+    assert.equal(matchesOrigin('https://app.example.com/', 'https://*.example.com/'), true);
+  });
+
+  it('不带协议的模式只比较主机名', () => {
+    assert.equal(matchesOrigin('http://example.com:8080/', 'example.com'), true);
+    assert.equal(matchesOrigin('https://www.example.com/', '*.example.com'), true);
+    assert.equal(matchesOrigin('https://example.org/', 'example.com'), false);
+  });
+
+  it('无法解析的 URL 不匹配', () => {
+    assert.equal(matchesOrigin('about:blank', 'example.com'), false);
+    assert.equal(matchesOrigin('not a url', '*.example.com'), false);
+  });
+});
+
+describe('checkHost', () => {
+  const allowedHosts = config.allowedHosts;
+
+  afterEach(() => {
+    config.allowedHosts = allowedHosts;
+  });
+
+  it('未配置时不限制', () => {
+    config.allowedHosts = [];
+    assert.doesNotThrow(() => checkHost('10.0.0.1'));
+  });
+
+  it('只允许列表中的主机，支持 IPv6 方括号写法', () => {
+    config.allowedHosts = ['localhost', '[::1]', '*.internal'];
+    assert.doesNotThrow(() => checkHost('localhost'));
+    assert.doesNotThrow(() => checkHost('[::1]'));
+    assert.doesNotThrow(() => checkHost('devtools.internal'));
+    assert.throws(() => checkHost('example.com'), /不在允许连接的列表中/);
+  });
+});
@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseConsoleQuery, parseNetworkQuery, parseStatusFilter, parseTime, queryConsoleMessages, queryNetworkRequests } from '../src/query.js';
+import { addMessage, createSession } from '../src/session.js';
+import { BrowserSession, NetworkRequest } from '../src/types.js';
+
+function request(index: number, duration: number): NetworkRequest {
+  return {
+    sessionId: 's-test',
+    requestId: `r${index}`,
+    method: 'GET',
+    url: `https://example.com/${index}`,
+    timestamp: 1000 + index,
+    timing: { startTime: index, duration },
+  };
+}
+
+// 依次翻页，返回各页请求 ID
+function collectPages(session: BrowserSession, args: Record<string, unknown>): string[] {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = queryNetworkRequests([session], parseNetworkQuery({ ...args, cursor }));
+    ids.push(...page.items.map((item) => item.requestId));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return ids;
+}
+
+describe('parseStatusFilter', () => {
+  it('支持单个状态码、范围和组合', () => {
+    const filter = parseStatusFilter('404,5xx,300-302');
+    assert.ok(filter);
+    assert.deepEqual([404, 500, 599, 301, 302, 303, 200].map(filter), [true, true, true, true, true, false, false]);
+  });
+
+  it('留空时不过滤，格式错误时报错', () => {
+    assert.equal(parseStatusFilter(''), undefined);
+    assert.throws(() => parseStatusFilter('4x'), /无效的状态码过滤/);
+  });
+});
+
+describe('parseTime', () => {
+  it('接受毫秒时间戳和 ISO 日期', () => {
+    assert.equal(parseTime(123, 'since'), 123);
+    assert.equal(parseTime('2026-01-01T00:00:00Z', 'since'), Date.UTC(2026, 0, 1));
+    assert.equal(parseTime(undefined, 'since'), undefined);
+  });
+
+  it('无法解析时报错并指出参数名', () => {
+    assert.throws(() => parseTime('yesterday', 'until'), /until/);
+  });
+});
+
+describe('查询参数校验', () => {
+  it('afterId 必须是非负整数', () => {
+    assert.equal(parseConsoleQuery({ afterId: '12' }).afterId, 12);
+    assert.equal(parseConsoleQuery({ afterId: '' }).afterId, undefined);
+    for (const afterId of ['abc', -1, 1.5]) {
+      assert.throws(() => parseConsoleQuery({ afterId }), /无效的参数 afterId/);
+    }
+  });
+
+  it('order 和 minDuration 无效时报错', () => {
+    assert.equal(parseNetworkQuery({}).order, 'desc');
+    assert.equal(parseNetworkQuery({ order: 'asc', minDuration: 200 }).minDuration, 200);
+    assert.throws(() => parseNetworkQuery({ order: 'ascending' }), /无效的排序方向/);
+    assert.throws(() => parseNetworkQuery({ minDuration: 'slow' }), /无效的参数 minDuration/);
+  });
+});
+
+describe('queryNetworkRequests', () => {
+  it('按时间分页时不重复也不遗漏', () => {
+    const session = createSession(null, '', 0, 'query-time');
+    session.networkRequests = Array.from({ length: 7 }, (_, i) => request(i, i));
+    assert.deepEqual(collectPages(session, { limit: 3 }), ['r6', 'r5', 'r4', 'r3', 'r2', 'r1', 'r0']);
+    assert.deepEqual(collectPages(session, { limit: 3, order: 'asc' }), ['r0', 'r1', 'r2', 'r3', 'r4', 'r5', 'r6']);
+  });
+
+  it('按时间分页时游标对应的请求被移出缓存后仍能定位', () => {
+    const session = createSession(null, '', 0, 'query-trimmed');
+    session.networkRequests = Array.from({ length: 6 }, (_, i) => request(i, i));
+    const first = queryNetworkRequests([session], parseNetworkQuery({ limit: 2 }));
+    session.networkRequests = session.networkRequests.filter((item) => item.requestId !== 'r4');
+    const next = queryNetworkRequests([session], parseNetworkQuery({ limit: 2, cursor: first.nextCursor }));
+    assert.deepEqual(next.items.map((item) => item.requestId), ['r3', 'r2']);
+  });
+
+  it('按耗时分页时耗时相同的请求按时间排序', () => {
+    const session = createSession(null, '', 0, 'query-duration');
+    session.networkRequests = [5, 1, 4, 1, 3].map((duration, i) => request(i, duration));
+    assert.deepEqual(collectPages(session, { sortBy: 'duration', limit: 2 }), ['r0', 'r2', 'r4', 'r3', 'r1']);
+  });
+
+  it('按耗时分页时游标按请求定位，不受其耗时变化影响', () => {
+    const session = createSession(null, '', 0, 'query-duration-change');
+    session.networkRequests = [5, 1, 4, 2].map((duration, i) => request(i, duration));
+    const first = queryNetworkRequests([session], parseNetworkQuery({ sortBy: 'duration', limit: 2 }));
+    assert.deepEqual(first.items.map((item) => item.requestId), ['r0', 'r2']);
+    // 上一页最后一条的耗时更新后，下一页从它的新位置之后开始
+    session.networkRequests[2].timing = { startTime: 2, duration: 1.5 };
+    const next = queryNetworkRequests([session], parseNetworkQuery({ sortBy: 'duration', limit: 2, cursor: first.nextCursor }));
+    assert.deepEqual(next.items.map((item) => item.requestId), ['r1']);
+  });
+
+  it('按耗时分页时游标对应的请求已不存在则要求重新查询', () => {
+    const session = createSession(null, '', 0, 'query-missing');
+    session.networkRequests = [3, 2, 1].map((duration, i) => request(i, duration));
+    const first = queryNetworkRequests([session], parseNetworkQuery({ sortBy: 'duration', limit: 1 }));
+    session.networkRequests.shift();
+    assert.throws(() => queryNetworkRequests([session], parseNetworkQuery({ sortBy: 'duration', limit: 1, cursor: first.nextCursor })), /重新查询/);
+  });
+
+  it('拒绝无效的游标', () => {
+    const session = createSession(null, '', 0, 'query-invalid');
+    session.networkRequests = [request(0, 1), request(1, 1)];
+    assert.throws(() => queryNetworkRequests([session], parseNetworkQuery({ cursor: 'abc' })), /无效的分页游标/);
+  });
+});
+
+describe('queryConsoleMessages', () => {
+  it('指定 afterId 时按顺序返回其后的日志', () => {
+    const session = createSession(null, '', 0, 'query-console');
+    const ids = ['a', 'b', 'c', 'd'].map((text) =>
+      addMessage(session, { sessionId: session.id, level: 'log', source: 'console-api', text, timestamp: Date.now() }).id);
+
+    const latest = queryConsoleMessages([session], parseConsoleQuery({ limit: 2 }));
+    assert.deepEqual(latest.items.map((item) => item.text), ['c', 'd']);
+
+    const after = queryConsoleMessages([session], parseConsoleQuery({ afterId: ids[0], limit: 2 }));
+    assert.deepEqual(after.items.map((item) => item.text), ['b', 'c']);
+    assert.equal(after.hasMore, true);
+    assert.equal(after.lastId, ids[2]);
+  });
+
+  it('按级别和文本过滤', () => {
+    const session = createSession(null, '', 0, 'query-filter');
+    addMessage(session, { sessionId: session.id, level: 'error', source: 'console-api', text: 'Failed to load', timestamp: Date.now() });
+    addMessage(session, { sessionId: session.id, level: 'log', source: 'console-api', text: 'failed silently', timestamp: Date.now() });
+    const result = queryConsoleMessages([session], parseConsoleQuery({ level: 'error', text: 'FAILED' }));
+    assert.deepEqual(result.items.map((item) => item.text), ['Failed to load']);
+  });
+});
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { dispatchMessage } from '../src/protocol.js';
+import { createSession } from '../src/session.js';
+import { findSourceMap, registerSourceMapHandlers, resolvePosition } from '../src/sourcemap.js';
+
+// 内联的 source map：生成代码第 1 行第 0 列对应 src/app.ts 第 1 行
+const MAP_URL = `data:application/json,${encodeURIComponent(JSON.stringify({ version: 3, sources: ['src/app.ts'], names: [], mappings: 'AAAA' }))}`;
+
+function emit(session: ReturnType<typeof createSession>, method: string, params: object = {}) {
+  dispatchMessage(session, JSON.stringify({ method, params }));
+}
+
+describe('source map 缓存', () => {
+  it('按会话缓存，超出上限时丢弃最久未使用的', () => {
+    const session = createSession(null, '', 0, 'sourcemap-lru');
+    const other = createSession(null, '', 0, 'sourcemap-other');
+    const first = { url: 'https://a.com/0.js', sourceMapURL: MAP_URL };
+    const cached = findSourceMap(session, first);
+
+    assert.equal(findSourceMap(session, first), cached);
+    assert.notEqual(findSourceMap(other, first), cached);
+
+    for (let i = 1; i <= 50; i++) {
+      findSourceMap(session, { url: `https://a.com/${i}.js`, sourceMapURL: MAP_URL });
+    }
+    assert.notEqual(findSourceMap(session, first), cached);
+  });
+
+  it('页面导航后清空记录的脚本和该会话的缓存', async () => {
+    const session = createSession(null, '', 0, 'sourcemap-navigate');
+    const other = createSession(null, '', 0, 'sourcemap-untouched');
+    registerSourceMapHandlers(session);
+    emit(session, 'Debugger.scriptParsed', { scriptId: '1', url: 'https://a.com/app.js', sourceMapURL: MAP_URL });
+
+    const position = await resolvePosition(session, { scriptId: '1', lineNumber: 0, columnNumber: 0 });
+    assert.equal(position?.source, 'https://a.com/src/app.ts');
+
+    const script = { url: 'https://a.com/app.js', sourceMapURL: MAP_URL };
+    const cached = findSourceMap(session, script);
+    const otherCached = findSourceMap(other, script);
+    emit(session, 'Runtime.executionContextsCleared');
+
+    assert.equal(session.scripts.size, 0);
+    assert.notEqual(findSourceMap(session, script), cached);
+    assert.equal(findSourceMap(other, script), otherCached);
+  });
+
+  it('记录的脚本数有上限', () => {
+    const session = createSession(null, '', 0, 'sourcemap-scripts');
+    registerSourceMapHandlers(session);
+    for (let i = 0; i < 5001; i++) {
+      emit(session, 'Debugger.scriptParsed', { scriptId: String(i), url: `https://a.com/${i}.js` });
+    }
+    assert.equal(session.scripts.size, 5000);
+    assert.equal(session.scripts.has('0'), false);
+  });
+});
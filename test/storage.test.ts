@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Protocol } from 'devtools-protocol';
+import { dispatchMessage } from '../src/protocol.js';
+import { addNavigation, createSession } from '../src/session.js';
+import { getWebStorage, matchesCookie, pageOrigin } from '../src/storage.js';
+import { BrowserSession } from '../src/types.js';
+
+function cookie(name: string, domain: string, path = '/'): Protocol.Network.Cookie {
+  return { name, value: 'v', domain, path, expires: -1, size: 2, httpOnly: false, secure: false, session: true, priority: 'Medium', sameParty: false, sourceScheme: 'Secure', sourcePort: 443 };
+}
+
+// 模拟已连接的 CDP 会话：按方法名返回预设结果
+function fakeSession(url: string, results: Record<string, unknown>): BrowserSession {
+  const session = createSession('chrome', 'localhost', 9222, 'storage-test');
+  addNavigation(session, url);
+  session.connected = true;
+  session.ws = {
+    send(data: string, callback: (error?: Error) => void) {
+      const { id, method } = JSON.parse(data);
+      callback();
+      setImmediate(() => dispatchMessage(session, JSON.stringify({ id, result: results[method] ?? {} })));
+    },
+  } as unknown as BrowserSession['ws'];
+  return session;
+}
+
+describe('matchesCookie', () => {
+  it('按名称、域名子串和路径过滤', () => {
+    const item = cookie('sid', '.example.com', '/app');
+    assert.equal(matchesCookie(item, {}), true);
+    assert.equal(matchesCookie(item, { name: 'sid', domain: 'example', path: '/app' }), true);
+    assert.equal(matchesCookie(item, { name: 'SID' }), false);
+    assert.equal(matchesCookie(item, { domain: 'example.org' }), false);
+    assert.equal(matchesCookie(item, { path: '/' }), false);
+  });
+});
+
+describe('pageOrigin', () => {
+  it('返回当前页面的来源', () => {
+    const session = createSession(null, '', 0, 'storage-origin');
+    addNavigation(session, 'https://example.com:8443/app?x=1');
+    assert.equal(pageOrigin(session), 'https://example.com:8443');
+  });
+
+  it('空白页和没有来源的页面报错', () => {
+    for (const url of ['about:blank', 'data:text/html,hi', '']) {
+      const session = createSession(null, '', 0, 'storage-opaque');
+      session.url = url;
+      assert.throws(() => pageOrigin(session), /没有可访问的存储来源/);
+    }
+  });
+});
+
+describe('getWebStorage', () => {
+  it('列出时截断过长的值并先脱敏', async () => {
+    const long = 'x'.repeat(500);
+    const session = fakeSession('https://example.com/', {
+      'DOMStorage.getDOMStorageItems': { entries: [['authToken', 'secret'], ['state', long], ['note', 'Bearer abcdefgh12345']] },
+    });
+
+    const text = await getWebStorage(session, 'local');
+    assert.match(text, /https:\/\/example\.com 的 localStorage 共 3 个键/);
+    assert.match(text, /authToken（6 字符）: \[已脱敏\]/);
+    assert.match(text, new RegExp(`state（500 字符）: x{200}…\n`));
+    assert.match(text, /note（20 字符）: Bearer \[已脱敏\]/);
+  });
+
+  it('读取单个键时不截断', async () => {
+    const long = 'y'.repeat(500);
+    const session = fakeSession('https://example.com/', { 'DOMStorage.getDOMStorageItems': { entries: [['state', long]] } });
+    const text = await getWebStorage(session, 'session', 'state');
+    assert.ok(text.endsWith(`\n${long}`));
+    await assert.rejects(getWebStorage(session, 'session', 'missing'), /没有键 missing/);
+  });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { config } from '../src/config.js';
+import { addNetworkRequest, createSession, notifyRequestFinished } from '../src/session.js';
+import { findStoredRequest, initStore, loadNetworkHistory } from '../src/store.js';
+import { NetworkRequest } from '../src/types.js';
+
+// 等待定时写入
+const waitForFlush = () => new Promise((resolve) => setTimeout(resolve, 1500));
+
+before(async () => {
+  config.storeDir = await mkdtemp(join(tmpdir(), 'store-test-'));
+  await initStore();
+});
+
+after(async () => {
+  await rm(config.storeDir ?? '', { recursive: true, force: true });
+});
+
+describe('网络请求持久化', () => {
+  it('超时未完成时先写入，完成后以更新的记录为准', async () => {
+    const session = createSession(null, '', 0, 'store-stale');
+    const request: NetworkRequest = {
+      sessionId: session.id,
+      requestId: 'r1',
+      method: 'GET',
+      url: 'https://a.com/stream',
+      timestamp: Date.now() - 6 * 60 * 1000,
+    };
+    addNetworkRequest(session, request);
+    await waitForFlush();
+
+    request.finished = true;
+    request.status = 200;
+    notifyRequestFinished(session, request);
+    await waitForFlush();
+
+    session.trimmed = true;
+    const stored = await findStoredRequest(session, 'r1');
+    assert.equal(stored?.status, 200);
+    assert.equal('rewritten' in (stored ?? {}), false);
+
+    for (const order of ['asc', 'desc'] as const) {
+      const { entries } = await loadNetworkHistory([session], () => ({ order, matches: () => true }));
+      assert.deepEqual(entries.get(session.id)?.map((entry) => entry.status), [200]);
+    }
+  });
+});